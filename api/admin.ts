@@ -0,0 +1,161 @@
+import express, { Request, RequestHandler, Router } from 'express';
+import { Contract, ContractTransactionResponse } from 'ethers';
+import { Degen4LifeClient, RegistryKeys, decodeError } from '../sdk';
+import { RoleName } from '../config';
+import { AuthOptions, authenticate, requireRole, sessionAccount } from './auth';
+import { API_ERROR_INTERFACES, INSURANCE_MODULE_ABI } from './contracts';
+import { ApiError } from './errors';
+import { param } from './params';
+
+// InsuranceModule.ClaimStatus; PENDING is not a decision
+const CLAIM_DECISIONS: Record<string, number> = { APPROVED: 1, REJECTED: 2 };
+
+/**
+ * @openapi
+ * /admin/system/pause:
+ *   post:
+ *     summary: Degen4LifeController.emergencyPauseSystem(true)
+ *     description: Requires SECURITY_ADMIN.
+ *     tags: [admin]
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/Transaction'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/Reverted'
+ * /admin/system/unpause:
+ *   post:
+ *     summary: Degen4LifeController.emergencyPauseSystem(false)
+ *     description: Requires SECURITY_ADMIN.
+ *     tags: [admin]
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/Transaction'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/Reverted'
+ * /admin/modules/pause:
+ *   post:
+ *     summary: Degen4LifeController.pauseAllModules
+ *     description: Pauses the DEX, ENS and prediction market. Requires DEFAULT_ADMIN_ROLE.
+ *     tags: [admin]
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/Transaction'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/Reverted'
+ * /admin/modules/unpause:
+ *   post:
+ *     summary: Degen4LifeController.unpauseAllModules
+ *     description: Requires DEFAULT_ADMIN_ROLE.
+ *     tags: [admin]
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/Transaction'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/Reverted'
+ * /admin/claims/{claimId}:
+ *   post:
+ *     summary: InsuranceModule.processClaim
+ *     description: Approves (and pays out) or rejects a pending claim. Requires GOVERNANCE_ADMIN.
+ *     tags: [admin]
+ *     parameters:
+ *       - name: claimId
+ *         in: path
+ *         required: true
+ *         schema:
+ *           type: string
+ *           pattern: '^[0-9]+$'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [status]
+ *             properties:
+ *               status:
+ *                 type: string
+ *                 enum: [APPROVED, REJECTED]
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/Transaction'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/Reverted'
+ */
+
+/**
+ * Endpoints that send transactions from the operator account. The caller
+ * signs in with SIWE and must hold the route's role on the controller; the
+ * operator itself needs the role (or ownership) the contract checks.
+ */
+export function adminRouter(client: Degen4LifeClient, operator: Degen4LifeClient | undefined, auth: AuthOptions): Router {
+    const router = express.Router();
+    router.use(...authenticate(auth), express.json());
+
+    const send =
+        (role: RoleName, submit: (req: Request, operator: Degen4LifeClient) => Promise<ContractTransactionResponse>): RequestHandler[] => [
+            requireRole(() => client.controller(), role),
+            async (req, res, next) => {
+                try {
+                    if (!operator) {
+                        throw new ApiError(503, 'No operator account is configured; admin endpoints are disabled');
+                    }
+                    let receipt;
+                    try {
+                        receipt = await (await submit(req, operator)).wait();
+                    } catch (error) {
+                        throw decodeError(error, API_ERROR_INTERFACES);
+                    }
+                    console.log(`${sessionAccount(res)} ${req.method} ${req.path}: ${receipt?.hash}`);
+                    res.json({ txHash: receipt?.hash, block: receipt?.blockNumber });
+                } catch (error) {
+                    next(error);
+                }
+            },
+        ];
+
+    router.post('/system/pause', ...send('SECURITY_ADMIN', async (_req, op) => (await op.controller()).emergencyPauseSystem(true)));
+    router.post('/system/unpause', ...send('SECURITY_ADMIN', async (_req, op) => (await op.controller()).emergencyPauseSystem(false)));
+    router.post('/modules/pause', ...send('DEFAULT_ADMIN_ROLE', async (_req, op) => (await op.controller()).pauseAllModules()));
+    router.post('/modules/unpause', ...send('DEFAULT_ADMIN_ROLE', async (_req, op) => (await op.controller()).unpauseAllModules()));
+
+    router.post(
+        '/claims/:claimId',
+        ...send('GOVERNANCE_ADMIN', async (req, op) => {
+            const claimId = param(req, 'claimId');
+            const decision = req.body?.status;
+            const status = Object.prototype.hasOwnProperty.call(CLAIM_DECISIONS, decision) ? CLAIM_DECISIONS[decision] : undefined;
+            if (!/^[0-9]+$/.test(claimId)) {
+                throw new ApiError(400, `claimId is not an integer: ${claimId}`);
+            }
+            if (status === undefined) {
+                throw new ApiError(400, `status must be one of ${Object.keys(CLAIM_DECISIONS).join(', ')}`);
+            }
+            const insurance = new Contract(await op.resolve(RegistryKeys.INSURANCE_MODULE), INSURANCE_MODULE_ABI, op.runner);
+            return insurance.processClaim(BigInt(claimId), status);
+        })
+    );
+
+    return router;
+}
@@ -0,0 +1,533 @@
+import cors from 'cors';
+import path from 'path';
+import express, { NextFunction, Request, RequestHandler, Response } from 'express';
+import helmet from 'helmet';
+import swaggerJsdoc from 'swagger-jsdoc';
+import swaggerUi from 'swagger-ui-express';
+import { Provider } from 'ethers';
+import {
+    ContractCustomError,
+    ContractNotRegisteredError,
+    ContractRevertError,
+    PanicError,
+    UnknownContractError,
+    decodeError,
+} from '../sdk';
+import { adminRouter } from './admin';
+import { AuthOptions, authRouter } from './auth';
+import { BlockCache } from './cache';
+import { API_ERROR_INTERFACES, ApiContracts } from './contracts';
+import { toJson } from './encoding';
+import { ApiError } from './errors';
+import { metadataRouter } from './metadata';
+import { address, bytes32, param, uint } from './params';
+
+/**
+ * @openapi
+ * components:
+ *   schemas:
+ *     Envelope:
+ *       type: object
+ *       description: >
+ *         Every read is made at `block`. uint values are decimal strings;
+ *         addresses and bytes32 values are 0x-prefixed hex strings.
+ *       properties:
+ *         block:
+ *           type: integer
+ *         data: {}
+ *     Error:
+ *       type: object
+ *       properties:
+ *         error:
+ *           type: string
+ *         message:
+ *           type: string
+ *   parameters:
+ *     address:
+ *       name: address
+ *       in: path
+ *       required: true
+ *       schema:
+ *         type: string
+ *         pattern: '^0x[0-9a-fA-F]{40}$'
+ *     tokenId:
+ *       name: id
+ *       in: path
+ *       required: true
+ *       description: Decimal id, or 64 hex digits as substituted for `{id}` in ERC-1155 URIs
+ *       schema:
+ *         type: string
+ *   responses:
+ *     Ok:
+ *       description: Result of the read
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Envelope'
+ *     BadRequest:
+ *       description: A path parameter is malformed
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Error'
+ *     Reverted:
+ *       description: The contract call reverted
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Error'
+ *     Unavailable:
+ *       description: The contract is not deployed or registered on this network
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Error'
+ *     Unauthorized:
+ *       description: No valid session; sign in through /auth/verify
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Error'
+ *     Forbidden:
+ *       description: The session account lacks the role the endpoint requires
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Error'
+ *     Metadata:
+ *       description: ERC-721 / ERC-1155 metadata JSON
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               name:
+ *                 type: string
+ *               description:
+ *                 type: string
+ *               image:
+ *                 type: string
+ *               attributes:
+ *                 type: array
+ *                 items:
+ *                   type: object
+ *     Transaction:
+ *       description: The transaction was mined
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             properties:
+ *               txHash:
+ *                 type: string
+ *               block:
+ *                 type: integer
+ */
+
+export function openApiSpec(): object {
+    return swaggerJsdoc({
+        definition: {
+            openapi: '3.0.3',
+            info: {
+                title: 'Degen4Life API',
+                version: '1.0.0',
+                description: 'Read-only access to the Degen4Life protocol contracts',
+            },
+        },
+        apis: [path.join(__dirname, '*.{ts,js}')],
+    });
+}
+
+function required<T>(contract: T | undefined, name: string): T {
+    if (!contract) {
+        throw new ApiError(503, `${name} is not deployed on this network`);
+    }
+    return contract;
+}
+
+function statusOf(error: unknown): number {
+    if (error instanceof ApiError) return error.status;
+    if (error instanceof ContractNotRegisteredError) return 503;
+    if (
+        error instanceof ContractRevertError ||
+        error instanceof ContractCustomError ||
+        error instanceof PanicError ||
+        error instanceof UnknownContractError
+    ) {
+        return 422;
+    }
+    // Anything else is the node failing, not the request
+    return 502;
+}
+
+/**
+ * Builds the API. Each read route calls one contract function through the
+ * block cache and answers `{ block, data }` with the result encoded by
+ * toJson; /auth and /admin are mounted from their own modules.
+ */
+export function createApp(
+    provider: Provider,
+    contracts: ApiContracts,
+    auth: AuthOptions,
+    /** Origins allowed to send the session cookie cross-origin; any origin may read otherwise */
+    origins?: string[],
+    /** Where clients reach the API, for the image URLs of token metadata; the SIWE domain by default */
+    publicUrl = `${auth.secureCookie ? 'https' : 'http'}://${auth.domain}`
+): express.Express {
+    const cache = new BlockCache(provider);
+    const { client } = contracts;
+    const app = express();
+    app.use(helmet());
+    app.use(cors(origins ? { origin: origins, credentials: true } : undefined));
+
+    /**
+     * Serves `load` pinned to the cache's block. Results are cached under the
+     * lower-cased request path unless `key` says otherwise.
+     */
+    const read =
+        (
+            load: (req: Request, blockTag: number) => Promise<unknown>,
+            key: (req: Request) => string = (req) => req.path.toLowerCase()
+        ): RequestHandler =>
+        async (req, res, next) => {
+            try {
+                const { block, value } = await cache.get(key(req), async (blockTag) => {
+                    try {
+                        return await load(req, blockTag);
+                    } catch (error) {
+                        throw decodeError(error, API_ERROR_INTERFACES);
+                    }
+                });
+                res.json({ block, data: toJson(value) });
+            } catch (error) {
+                next(error);
+            }
+        };
+
+    const spec = openApiSpec();
+    app.get('/openapi.json', (_req, res) => res.json(spec));
+    app.use('/docs', swaggerUi.serve, swaggerUi.setup(spec));
+    app.use('/auth', authRouter(auth, provider));
+    app.use('/admin', adminRouter(client, contracts.operator, auth));
+    app.use(metadataRouter(client, cache, publicUrl));
+
+    /**
+     * @openapi
+     * /users/{address}/portfolio:
+     *   get:
+     *     summary: Degen4LifeView.getUserPortfolio
+     *     description: Tokens held, reputation, active pools and verification status of a user.
+     *     parameters:
+     *       - $ref: '#/components/parameters/address'
+     *     responses:
+     *       200:
+     *         $ref: '#/components/responses/Ok'
+     *       400:
+     *         $ref: '#/components/responses/BadRequest'
+     *       422:
+     *         $ref: '#/components/responses/Reverted'
+     *       503:
+     *         $ref: '#/components/responses/Unavailable'
+     */
+    app.get(
+        '/users/:address/portfolio',
+        read((req, blockTag) =>
+            required(contracts.view, 'Degen4LifeView').getUserPortfolio(address(req, 'address'), { blockTag })
+        )
+    );
+
+    /**
+     * @openapi
+     * /tokens/{address}:
+     *   get:
+     *     summary: Degen4LifeController.getTokenData
+     *     parameters:
+     *       - $ref: '#/components/parameters/address'
+     *     responses:
+     *       200:
+     *         $ref: '#/components/responses/Ok'
+     *       400:
+     *         $ref: '#/components/responses/BadRequest'
+     *       422:
+     *         $ref: '#/components/responses/Reverted'
+     *       503:
+     *         $ref: '#/components/responses/Unavailable'
+     */
+    app.get(
+        '/tokens/:address',
+        read(async (req, blockTag) => (await client.controller()).getTokenData(address(req, 'address'), { blockTag }))
+    );
+
+    /**
+     * @openapi
+     * /system:
+     *   get:
+     *     summary: Degen4LifeController.getSystemState
+     *     description: All launched tokens, the active pools and the number of users.
+     *     responses:
+     *       200:
+     *         $ref: '#/components/responses/Ok'
+     *       422:
+     *         $ref: '#/components/responses/Reverted'
+     *       503:
+     *         $ref: '#/components/responses/Unavailable'
+     */
+    app.get(
+        '/system',
+        read(async (_req, blockTag) => (await client.controller()).getSystemState({ blockTag }))
+    );
+
+    /**
+     * @openapi
+     * /launches/{address}/metrics:
+     *   get:
+     *     summary: LaunchpadAPI.getLaunchMetrics
+     *     description: Launch configuration, pump metrics and social metrics of a token.
+     *     parameters:
+     *       - $ref: '#/components/parameters/address'
+     *     responses:
+     *       200:
+     *         $ref: '#/components/responses/Ok'
+     *       400:
+     *         $ref: '#/components/responses/BadRequest'
+     *       422:
+     *         $ref: '#/components/responses/Reverted'
+     *       503:
+     *         $ref: '#/components/responses/Unavailable'
+     */
+    app.get(
+        '/launches/:address/metrics',
+        read((req, blockTag) =>
+            required(contracts.launchpad, 'LaunchpadAPI').getLaunchMetrics(address(req, 'address'), { blockTag })
+        )
+    );
+
+    /**
+     * @openapi
+     * /launches/{address}/participants/{user}:
+     *   get:
+     *     summary: LaunchpadAPI.getUserParticipation
+     *     parameters:
+     *       - $ref: '#/components/parameters/address'
+     *       - name: user
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: string
+     *           pattern: '^0x[0-9a-fA-F]{40}$'
+     *     responses:
+     *       200:
+     *         $ref: '#/components/responses/Ok'
+     *       400:
+     *         $ref: '#/components/responses/BadRequest'
+     *       422:
+     *         $ref: '#/components/responses/Reverted'
+     *       503:
+     *         $ref: '#/components/responses/Unavailable'
+     */
+    app.get(
+        '/launches/:address/participants/:user',
+        read((req, blockTag) =>
+            required(contracts.launchpad, 'LaunchpadAPI').getUserParticipation(
+                address(req, 'address'),
+                address(req, 'user'),
+                { blockTag }
+            )
+        )
+    );
+
+    /**
+     * @openapi
+     * /risk/{address}:
+     *   get:
+     *     summary: RiskManagementModule state of a token
+     *     description: >
+     *       Risk parameters, risk score, market data and the indicators the
+     *       risk publisher pushes (volatility, holder concentration and
+     *       wash-trade ratio in bps).
+     *     parameters:
+     *       - $ref: '#/components/parameters/address'
+     *     responses:
+     *       200:
+     *         $ref: '#/components/responses/Ok'
+     *       400:
+     *         $ref: '#/components/responses/BadRequest'
+     *       422:
+     *         $ref: '#/components/responses/Reverted'
+     *       503:
+     *         $ref: '#/components/responses/Unavailable'
+     */
+    app.get(
+        '/risk/:address',
+        read(async (req, blockTag) => {
+            const risk = required(contracts.risk, 'RiskManagementModule');
+            const token = address(req, 'address');
+            const [params, score, market, indicators] = await Promise.all([
+                risk.riskParams(token, { blockTag }),
+                risk.getRiskScore(token, { blockTag }),
+                risk.getMarketData(token, { blockTag }),
+                risk.getMarketIndicators(token, { blockTag }),
+            ]);
+            return { params, score, market, indicators };
+        })
+    );
+
+    /**
+     * @openapi
+     * /risk/{address}/what-if:
+     *   get:
+     *     summary: RiskManagementModule.checkRiskLimits for a proposed trade
+     *     description: >
+     *       Evaluates a trade of `amount` before it is signed. Besides the
+     *       contract's answer, `exposureOk` and `cooldownEndsAt` say which
+     *       limit a disallowed trade hits. Reverts with "Risk parameters not
+     *       set" or "Risk score outdated" when the token has no current score.
+     *     parameters:
+     *       - $ref: '#/components/parameters/address'
+     *       - name: amount
+     *         in: query
+     *         required: true
+     *         description: Trade amount in token base units
+     *         schema:
+     *           type: string
+     *           pattern: '^[0-9]+$'
+     *     responses:
+     *       200:
+     *         $ref: '#/components/responses/Ok'
+     *       400:
+     *         $ref: '#/components/responses/BadRequest'
+     *       422:
+     *         $ref: '#/components/responses/Reverted'
+     *       503:
+     *         $ref: '#/components/responses/Unavailable'
+     */
+    app.get(
+        '/risk/:address/what-if',
+        read(
+            async (req, blockTag) => {
+                const risk = required(contracts.risk, 'RiskManagementModule');
+                const token = address(req, 'address');
+                const amount = uint(req, 'amount');
+                const [[allowed, adjustedAmount], params, lastAction] = await Promise.all([
+                    risk.checkRiskLimits(token, amount, { blockTag }),
+                    risk.riskParams(token, { blockTag }),
+                    risk.lastActionTime(token, { blockTag }),
+                ]);
+                return {
+                    allowed,
+                    adjustedAmount,
+                    maxExposure: params.maxExposure,
+                    exposureOk: adjustedAmount <= params.maxExposure,
+                    cooldownEndsAt: lastAction + params.cooldownPeriod,
+                };
+            },
+            (req) => `${req.path.toLowerCase()}?amount=${req.query.amount}`
+        )
+    );
+
+    /**
+     * @openapi
+     * /orderbook/{tokenIn}/{tokenOut}:
+     *   get:
+     *     summary: OrderBookModule.getOrderBook
+     *     description: Open buy and sell orders of a trading pair.
+     *     parameters:
+     *       - name: tokenIn
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: string
+     *       - name: tokenOut
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: string
+     *     responses:
+     *       200:
+     *         $ref: '#/components/responses/Ok'
+     *       400:
+     *         $ref: '#/components/responses/BadRequest'
+     *       422:
+     *         $ref: '#/components/responses/Reverted'
+     *       503:
+     *         $ref: '#/components/responses/Unavailable'
+     */
+    app.get(
+        '/orderbook/:tokenIn/:tokenOut',
+        read(async (req, blockTag) =>
+            (await client.orderBook()).getOrderBook(address(req, 'tokenIn'), address(req, 'tokenOut'), { blockTag })
+        )
+    );
+
+    /**
+     * @openapi
+     * /markets/{marketId}:
+     *   get:
+     *     summary: PredictionMarket.getMarket
+     *     parameters:
+     *       - name: marketId
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: string
+     *           pattern: '^0x[0-9a-fA-F]{64}$'
+     *     responses:
+     *       200:
+     *         $ref: '#/components/responses/Ok'
+     *       400:
+     *         $ref: '#/components/responses/BadRequest'
+     *       422:
+     *         $ref: '#/components/responses/Reverted'
+     *       503:
+     *         $ref: '#/components/responses/Unavailable'
+     */
+    app.get(
+        '/markets/:marketId',
+        read(async (req, blockTag) => (await client.predictionMarket()).getMarket(bytes32(req, 'marketId'), { blockTag }))
+    );
+
+    /**
+     * @openapi
+     * /names/{name}:
+     *   get:
+     *     summary: DegenENS.resolve
+     *     description: Address a name resolves to; the zero address when it has no resolver.
+     *     parameters:
+     *       - name: name
+     *         in: path
+     *         required: true
+     *         schema:
+     *           type: string
+     *     responses:
+     *       200:
+     *         $ref: '#/components/responses/Ok'
+     *       422:
+     *         $ref: '#/components/responses/Reverted'
+     *       503:
+     *         $ref: '#/components/responses/Unavailable'
+     */
+    app.get(
+        '/names/:name',
+        read(
+            async (req, blockTag) => (await client.ens()).resolve(param(req, 'name'), { blockTag }),
+            // Names are case-sensitive on-chain
+            (req) => req.path
+        )
+    );
+
+    app.use((_req, _res, next) => next(new ApiError(404, 'Not found')));
+
+    // Express tells error handlers apart by their four parameters
+    app.use((error: unknown, _req: Request, res: Response, _next: NextFunction) => {
+        const status = statusOf(error);
+        if (status === 502) {
+            console.error(error);
+        }
+        res.status(status).json({
+            error: (error as Error)?.name ?? 'Error',
+            message: status === 502 ? 'The RPC node failed to answer' : (error as Error)?.message ?? String(error),
+        });
+    });
+
+    return app;
+}
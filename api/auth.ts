@@ -0,0 +1,211 @@
+import cookieParser from 'cookie-parser';
+import express, { RequestHandler, Response, Router } from 'express';
+import jwt from 'jsonwebtoken';
+import { Provider, getAddress } from 'ethers';
+import { SiweMessage, SiweResponse, generateNonce } from 'siwe';
+import { RoleName } from '../config';
+import { roleId } from '../utils/deploy/handover';
+import { Degen4LifeController } from '../typechain-types';
+
+export const SESSION_COOKIE = 'd4l_session';
+
+export type AuthOptions = {
+    jwtSecret: string;
+    /** RFC 3986 authority the SIWE message must be issued for, e.g. `app.degen4life.xyz` */
+    domain: string;
+    /** Chain the SIWE message must name */
+    chainId: bigint;
+    /** Seconds a session JWT stays valid */
+    sessionTtl: number;
+    /** Seconds an issued nonce can be signed in with */
+    nonceTtl: number;
+    /** Sets the Secure flag on the session cookie; off only for plain-http local servers */
+    secureCookie: boolean;
+};
+
+export const DEFAULT_AUTH_OPTIONS = {
+    sessionTtl: 15 * 60,
+    nonceTtl: 5 * 60,
+};
+
+type SessionClaims = { sub: string };
+
+/** Nonces handed out by /auth/nonce; each can be used for one sign-in before it expires. */
+class NonceStore {
+    private readonly expiries = new Map<string, number>();
+
+    constructor(private readonly ttl: number) {}
+
+    issue(): string {
+        const now = Date.now();
+        for (const [nonce, expiry] of this.expiries) {
+            if (expiry <= now) this.expiries.delete(nonce);
+        }
+        const nonce = generateNonce();
+        this.expiries.set(nonce, now + this.ttl * 1000);
+        return nonce;
+    }
+
+    consume(nonce: string): boolean {
+        const expiry = this.expiries.get(nonce);
+        this.expiries.delete(nonce);
+        return expiry !== undefined && expiry > Date.now();
+    }
+}
+
+function reject(res: Response, status: number, message: string) {
+    res.status(status).json({ error: status === 401 ? 'Unauthorized' : 'Forbidden', message });
+}
+
+/** Account of the request's session, set by `authenticate`. */
+export function sessionAccount(res: Response): string {
+    return res.locals.account;
+}
+
+/**
+ * @openapi
+ * /auth/nonce:
+ *   get:
+ *     summary: Issues a nonce to put in a Sign-In with Ethereum message
+ *     tags: [auth]
+ *     responses:
+ *       200:
+ *         description: The nonce, valid for one sign-in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 nonce:
+ *                   type: string
+ * /auth/verify:
+ *   post:
+ *     summary: Exchanges a signed EIP-4361 message for a session cookie
+ *     tags: [auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             type: object
+ *             required: [message, signature]
+ *             properties:
+ *               message:
+ *                 type: string
+ *               signature:
+ *                 type: string
+ *     responses:
+ *       200:
+ *         description: Signed in; the session JWT is set as an httpOnly cookie
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ * /auth/logout:
+ *   post:
+ *     summary: Clears the session cookie
+ *     tags: [auth]
+ *     responses:
+ *       204:
+ *         description: Signed out
+ */
+
+/**
+ * Sign-In with Ethereum: the client fetches a nonce, signs an EIP-4361
+ * message for `domain` and `chainId` that includes it, and posts message and
+ * signature to /auth/verify. Contract wallets are checked with EIP-1271
+ * through `provider`. The session is a JWT naming the account, kept in an
+ * httpOnly cookie.
+ */
+export function authRouter(options: AuthOptions, provider: Provider): Router {
+    const nonces = new NonceStore(options.nonceTtl);
+    const router = express.Router();
+
+    router.get('/nonce', (_req, res) => {
+        res.set('Cache-Control', 'no-store').json({ nonce: nonces.issue() });
+    });
+
+    router.post('/verify', express.json(), async (req, res) => {
+        const { message, signature } = req.body ?? {};
+        if (typeof message !== 'string' || typeof signature !== 'string') {
+            return reject(res, 401, 'message and signature are required');
+        }
+
+        let siwe: SiweMessage;
+        try {
+            siwe = new SiweMessage(message);
+        } catch {
+            return reject(res, 401, 'message is not an EIP-4361 message');
+        }
+        if (BigInt(siwe.chainId) !== options.chainId) {
+            return reject(res, 401, `message is for chain ${siwe.chainId}, this server is on ${options.chainId}`);
+        }
+        if (!nonces.consume(siwe.nonce)) {
+            return reject(res, 401, 'nonce was not issued by this server, has expired or was already used');
+        }
+        // Checks domain, nonce, expirationTime/notBefore and the signature; a
+        // failing EIP-1271 lookup rejects instead of resolving a response
+        const verified = await siwe
+            .verify({ signature, domain: options.domain, nonce: siwe.nonce }, { provider, suppressExceptions: true })
+            .catch((): SiweResponse => ({ success: false, data: siwe }));
+        if (!verified.success) {
+            return reject(res, 401, `signature rejected: ${verified.error?.type ?? 'invalid signature'}`);
+        }
+
+        const account = getAddress(siwe.address);
+        const token = jwt.sign({ sub: account } satisfies SessionClaims, options.jwtSecret, {
+            expiresIn: options.sessionTtl,
+            issuer: options.domain,
+        });
+        res.cookie(SESSION_COOKIE, token, {
+            httpOnly: true,
+            secure: options.secureCookie,
+            sameSite: 'strict',
+            maxAge: options.sessionTtl * 1000,
+        });
+        res.json({ account, expiresIn: options.sessionTtl });
+    });
+
+    router.post('/logout', (_req, res) => {
+        res.clearCookie(SESSION_COOKIE, { httpOnly: true, secure: options.secureCookie, sameSite: 'strict' });
+        res.status(204).end();
+    });
+
+    return router;
+}
+
+/** Rejects requests without a valid session cookie and stores the account for `sessionAccount`. */
+export function authenticate(options: AuthOptions): RequestHandler[] {
+    return [
+        cookieParser(),
+        (req, res, next) => {
+            const token = req.cookies?.[SESSION_COOKIE];
+            if (!token) {
+                return reject(res, 401, 'Sign in with /auth/verify first');
+            }
+            try {
+                const claims = jwt.verify(token, options.jwtSecret, { issuer: options.domain }) as SessionClaims;
+                res.locals.account = getAddress(claims.sub);
+            } catch {
+                return reject(res, 401, 'Session is invalid or has expired');
+            }
+            next();
+        },
+    ];
+}
+
+/**
+ * Lets the request through when the session account holds `role` on the
+ * controller. Checked against the latest block on every request, so a
+ * revoked role takes effect without waiting for the session to expire.
+ */
+export function requireRole(controller: () => Promise<Degen4LifeController>, role: RoleName): RequestHandler {
+    return async (_req, res, next) => {
+        try {
+            if (!(await (await controller()).hasRole(roleId(role), sessionAccount(res)))) {
+                return reject(res, 403, `${sessionAccount(res)} does not hold ${role}`);
+            }
+            next();
+        } catch (error) {
+            next(error);
+        }
+    };
+}
@@ -0,0 +1,47 @@
+import { Provider } from 'ethers';
+
+/**
+ * Caches read results for the current block. Every read is pinned to the
+ * block the cache is on, so all responses served for one block agree with
+ * each other; entries are dropped as soon as a new block is seen. Reads for
+ * the same key share one in-flight call.
+ */
+export class BlockCache {
+    private block?: number;
+    private blockCheckedAt = 0;
+    private entries = new Map<string, Promise<unknown>>();
+
+    /**
+     * @param headTtl milliseconds the head block number is reused before
+     * the provider is asked again
+     */
+    constructor(private readonly provider: Provider, private readonly headTtl = 1000) {}
+
+    /** Block the next reads are pinned to. */
+    async currentBlock(): Promise<number> {
+        const now = Date.now();
+        if (this.block === undefined || now - this.blockCheckedAt >= this.headTtl) {
+            const block = await this.provider.getBlockNumber();
+            this.blockCheckedAt = now;
+            if (block !== this.block) {
+                this.block = block;
+                this.entries = new Map();
+            }
+        }
+        return this.block;
+    }
+
+    /** Returns the cached result for `key` at the current block, calling `load` on a miss. */
+    async get<T>(key: string, load: (blockTag: number) => Promise<T>): Promise<{ block: number; value: T }> {
+        const block = await this.currentBlock();
+        const entries = this.entries;
+        let pending = entries.get(key) as Promise<T> | undefined;
+        if (!pending) {
+            pending = load(block);
+            entries.set(key, pending);
+            // Failures are not cached; the next request retries
+            pending.catch(() => entries.get(key) === pending && entries.delete(key));
+        }
+        return { block, value: await pending };
+    }
+}
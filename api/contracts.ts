@@ -0,0 +1,70 @@
+import { Contract, ContractRunner, Interface, Signer } from 'ethers';
+import {
+    Degen4LifeController__factory,
+    DegenENS__factory,
+    OrderBookModule__factory,
+    PredictionMarket__factory,
+    RiskManagementModule,
+    RiskManagementModule__factory,
+} from '../typechain-types';
+import { Degen4LifeClient } from '../sdk';
+
+// Degen4LifeView and LaunchpadAPI are not registered in the ContractRegistry,
+// so they are addressed directly and described by the functions the API reads
+export const VIEW_ABI = [
+    'function getUserPortfolio(address user) view returns (tuple(address[] portfolio, uint256 reputationScore, address[] activePools, bool isVerified))',
+];
+
+export const LAUNCHPAD_API_ABI = [
+    'function getLaunchMetrics(address token) view returns (' +
+        'tuple(uint96 initialPrice, uint96 softCap, uint96 hardCap, uint32 startTime, uint32 endTime, uint16 pumpRewardBps, uint8 status, bool whitelistEnabled) config, ' +
+        'tuple(uint96 totalVolume, uint96 pumpScore, uint32 uniqueTraders, uint32 lastPumpTime, uint16 momentum, uint8 level, bool isPumping) pump, ' +
+        'tuple(uint32 holders, uint32 interactions, uint16 viralityScore, uint16 communityScore, uint8 tier, bool verified) social)',
+    'function getUserParticipation(address token, address user) view returns (uint32 rank, uint96 score, uint96 rewards, bool hasParticipated, bool hasClaimed)',
+];
+
+export const NFT_FEATURES_ABI = [
+    'function badges(uint256 id) view returns (string name, string metadata, uint256 maxSupply, uint256 minted, bool transferable)',
+    'function achievements(uint256 id) view returns (string name, string description, string metadata, uint256 requiredScore, bool active)',
+];
+
+export const INSURANCE_MODULE_ABI = ['function processClaim(uint256 claimId, uint8 status)'];
+
+/** ABIs reverts from the API's calls are decoded against. */
+export const API_ERROR_INTERFACES: Interface[] = [
+    Degen4LifeController__factory.createInterface(),
+    DegenENS__factory.createInterface(),
+    OrderBookModule__factory.createInterface(),
+    PredictionMarket__factory.createInterface(),
+    RiskManagementModule__factory.createInterface(),
+    new Interface(VIEW_ABI),
+    new Interface(LAUNCHPAD_API_ABI),
+    new Interface(NFT_FEATURES_ABI),
+    new Interface(INSURANCE_MODULE_ABI),
+];
+
+/** Contracts the API reads. The optional ones are undefined when not deployed on the network. */
+export type ApiContracts = {
+    client: Degen4LifeClient;
+    view?: Contract;
+    launchpad?: Contract;
+    /** RiskManagementModule is not registered either */
+    risk?: RiskManagementModule;
+    /** Client connected with the account admin endpoints send from */
+    operator?: Degen4LifeClient;
+};
+
+export async function connectApiContracts(
+    registryAddress: string,
+    runner: ContractRunner,
+    addresses: { view?: string; launchpad?: string; risk?: string },
+    operator?: Signer
+): Promise<ApiContracts> {
+    return {
+        client: await Degen4LifeClient.connect(registryAddress, runner),
+        operator: operator ? await Degen4LifeClient.connect(registryAddress, operator) : undefined,
+        view: addresses.view ? new Contract(addresses.view, VIEW_ABI, runner) : undefined,
+        launchpad: addresses.launchpad ? new Contract(addresses.launchpad, LAUNCHPAD_API_ABI, runner) : undefined,
+        risk: addresses.risk ? RiskManagementModule__factory.connect(addresses.risk, runner) : undefined,
+    };
+}
@@ -0,0 +1,43 @@
+import { Result } from 'ethers';
+
+export type Json = string | number | boolean | null | Json[] | { [key: string]: Json };
+
+/**
+ * Converts a contract call result into plain JSON. bigints become decimal
+ * strings so no precision is lost; bytes32 and addresses are already hex
+ * strings. A Result whose fields are all named becomes an object, anything
+ * else an array, so structs and multi-value returns keep their ABI names.
+ */
+export function toJson(value: unknown): Json {
+    if (typeof value === 'bigint') {
+        return value.toString();
+    }
+    if (value instanceof Result) {
+        const keys = resultKeys(value);
+        if (keys) {
+            return Object.fromEntries(keys.map((key, index) => [key, toJson(value[index])]));
+        }
+        return [...value].map(toJson);
+    }
+    if (Array.isArray(value)) {
+        return value.map(toJson);
+    }
+    if (value !== null && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, field]) => [key, toJson(field)]));
+    }
+    if (value === undefined) {
+        return null;
+    }
+    return value as Json;
+}
+
+/** Field names of a Result, or undefined when any field is unnamed. */
+function resultKeys(result: Result): string[] | undefined {
+    try {
+        // toObject throws on unnamed fields
+        const keys = Object.keys(result.toObject());
+        return keys.length === result.length ? keys : undefined;
+    } catch {
+        return undefined;
+    }
+}
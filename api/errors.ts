@@ -0,0 +1,7 @@
+/** An error the API answers with a specific status instead of a 500. */
+export class ApiError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'ApiError';
+    }
+}
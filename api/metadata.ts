@@ -0,0 +1,202 @@
+import express, { Request, Response, Router } from 'express';
+import { Contract } from 'ethers';
+import { Degen4LifeClient, RegistryKeys, decodeError } from '../sdk';
+import { BlockCache } from './cache';
+import { API_ERROR_INTERFACES, NFT_FEATURES_ABI } from './contracts';
+import { ApiError } from './errors';
+import { param } from './params';
+import { renderCard } from './svg';
+
+type Badge = { name: string; metadata: string; maxSupply: bigint; minted: bigint; transferable: boolean };
+type Achievement = { name: string; description: string; metadata: string; requiredScore: bigint; active: boolean };
+
+type Attribute = { trait_type: string; value: string | number; display_type?: string };
+
+export type TokenMetadata = {
+    name: string;
+    description: string;
+    image: string;
+    external_url?: string;
+    attributes: Attribute[];
+    decimals?: number;
+};
+
+/**
+ * Token ids as they appear in the URIs: BadgeNFT's `{id}` is replaced by 64
+ * hex digits without 0x (ERC-1155), AchievementNFT appends the decimal id.
+ * `0x` hex is accepted on every route, and a trailing `.json`/`.svg` ignored.
+ */
+function tokenId(req: Request, erc1155: boolean): bigint {
+    const raw = param(req, 'id').replace(/\.(json|svg)$/, '');
+    // A 64-digit decimal achievement id would also match, hence the per-route check
+    if (erc1155 && /^[0-9a-fA-F]{64}$/.test(raw)) return BigInt(`0x${raw}`);
+    if (/^(0x[0-9a-fA-F]{1,64}|[0-9]{1,78})$/.test(raw)) return BigInt(raw);
+    throw new ApiError(400, `Not a token id: ${raw}`);
+}
+
+// NFTFeatures stores an IPFS hash; anything that already has a scheme is used as is
+const imageUri = (metadata: string) => (/^[a-z][a-z0-9+.-]*:/i.test(metadata) ? metadata : `ipfs://${metadata}`);
+
+/** Lets marketplaces and wallets on other origins fetch and embed the responses. */
+function shareable(res: Response): Response {
+    return res.set({ 'Access-Control-Allow-Origin': '*', 'Cross-Origin-Resource-Policy': 'cross-origin' });
+}
+
+/**
+ * @openapi
+ * /badges/metadata/{id}:
+ *   get:
+ *     summary: ERC-1155 metadata of a BadgeNFT id, from NFTFeatures.badges
+ *     tags: [metadata]
+ *     parameters:
+ *       - $ref: '#/components/parameters/tokenId'
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/Metadata'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         description: No badge was created with this id
+ * /badges/image/{id}:
+ *   get:
+ *     summary: Generated SVG of a badge without its own artwork
+ *     tags: [metadata]
+ *     parameters:
+ *       - $ref: '#/components/parameters/tokenId'
+ *     responses:
+ *       200:
+ *         description: The image
+ *         content:
+ *           image/svg+xml: {}
+ * /achievements/metadata/{id}:
+ *   get:
+ *     summary: ERC-721 metadata of an AchievementNFT id, from NFTFeatures.achievements
+ *     tags: [metadata]
+ *     parameters:
+ *       - $ref: '#/components/parameters/tokenId'
+ *     responses:
+ *       200:
+ *         $ref: '#/components/responses/Metadata'
+ *       400:
+ *         $ref: '#/components/responses/BadRequest'
+ *       404:
+ *         description: No achievement was created with this id
+ * /achievements/image/{id}:
+ *   get:
+ *     summary: Generated SVG of an achievement without its own artwork
+ *     tags: [metadata]
+ *     parameters:
+ *       - $ref: '#/components/parameters/tokenId'
+ *     responses:
+ *       200:
+ *         description: The image
+ *         content:
+ *           image/svg+xml: {}
+ */
+
+/**
+ * Serves the URIs BadgeNFT and AchievementNFT point at. Names, descriptions
+ * and supply come from NFTFeatures; tokens whose NFTFeatures entry has no
+ * metadata hash get a generated SVG served next to the JSON, linked under
+ * `publicUrl` rather than the request's Host header, which clients control.
+ */
+export function metadataRouter(client: Degen4LifeClient, cache: BlockCache, publicUrl: string): Router {
+    const router = express.Router();
+    const base = publicUrl.replace(/\/+$/, '');
+
+    const nftFeatures = async () =>
+        new Contract(await client.resolve(RegistryKeys.NFT_FEATURES), NFT_FEATURES_ABI, client.runner);
+
+    const load = async <T extends { name: string }>(kind: 'badges' | 'achievements', id: bigint): Promise<T> => {
+        const { value } = await cache.get(`nft:${kind}:${id}`, async (blockTag) => {
+            try {
+                return (await (await nftFeatures())[kind](id, { blockTag })).toObject() as T;
+            } catch (error) {
+                throw decodeError(error, API_ERROR_INTERFACES);
+            }
+        });
+        // Unset mapping entries read back as empty structs
+        if (!value.name) {
+            throw new ApiError(404, `No ${kind === 'badges' ? 'badge' : 'achievement'} ${id}`);
+        }
+        return value;
+    };
+
+    const badgeCard = (id: bigint, badge: Badge) =>
+        renderCard({
+            kind: 'BADGE',
+            title: badge.name,
+            details: [`${badge.minted} / ${badge.maxSupply} minted`, badge.transferable ? 'Transferable' : 'Soulbound'],
+            id,
+        });
+
+    const achievementCard = (id: bigint, achievement: Achievement) =>
+        renderCard({
+            kind: 'ACHIEVEMENT',
+            title: achievement.name,
+            details: [`Score ${achievement.requiredScore}`, achievement.active ? 'Active' : 'Retired'],
+            id,
+        });
+
+    router.get('/badges/metadata/:id', async (req, res, next) => {
+        try {
+            const id = tokenId(req, true);
+            const badge = await load<Badge>('badges', id);
+            const metadata: TokenMetadata = {
+                name: badge.name,
+                description: `Degen4Life badge: ${badge.name}`,
+                image: badge.metadata ? imageUri(badge.metadata) : `${base}/badges/image/${id.toString(16).padStart(64, '0')}.svg`,
+                decimals: 0,
+                attributes: [
+                    { trait_type: 'Max supply', value: Number(badge.maxSupply), display_type: 'number' },
+                    { trait_type: 'Minted', value: Number(badge.minted), display_type: 'number' },
+                    { trait_type: 'Transferable', value: badge.transferable ? 'Yes' : 'No' },
+                ],
+            };
+            shareable(res).json(metadata);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    router.get('/badges/image/:id', async (req, res, next) => {
+        try {
+            const id = tokenId(req, true);
+            shareable(res).type('image/svg+xml').send(badgeCard(id, await load<Badge>('badges', id)));
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    router.get('/achievements/metadata/:id', async (req, res, next) => {
+        try {
+            const id = tokenId(req, false);
+            const achievement = await load<Achievement>('achievements', id);
+            const metadata: TokenMetadata = {
+                name: achievement.name,
+                description: achievement.description,
+                image: achievement.metadata
+                    ? imageUri(achievement.metadata)
+                    : `${base}/achievements/image/${id}.svg`,
+                attributes: [
+                    { trait_type: 'Required score', value: Number(achievement.requiredScore), display_type: 'number' },
+                    { trait_type: 'Status', value: achievement.active ? 'Active' : 'Retired' },
+                ],
+            };
+            shareable(res).json(metadata);
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    router.get('/achievements/image/:id', async (req, res, next) => {
+        try {
+            const id = tokenId(req, false);
+            shareable(res).type('image/svg+xml').send(achievementCard(id, await load<Achievement>('achievements', id)));
+        } catch (error) {
+            next(error);
+        }
+    });
+
+    return router;
+}
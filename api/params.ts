@@ -0,0 +1,36 @@
+import { Request } from 'express';
+import { isAddress, isHexString } from 'ethers';
+import { ApiError } from './errors';
+
+/** A route parameter; wildcard parameters match several segments and are refused. */
+export function param(req: Request, name: string): string {
+    const value = req.params[name];
+    if (typeof value !== 'string') {
+        throw new ApiError(400, `${name} is not a single path segment`);
+    }
+    return value;
+}
+
+export function address(req: Request, name: string): string {
+    const value = param(req, name);
+    if (!isAddress(value)) {
+        throw new ApiError(400, `${name} is not an address: ${value}`);
+    }
+    return value;
+}
+
+export function bytes32(req: Request, name: string): string {
+    const value = param(req, name);
+    if (!isHexString(value, 32)) {
+        throw new ApiError(400, `${name} is not a bytes32 hex string: ${value}`);
+    }
+    return value.toLowerCase();
+}
+
+export function uint(req: Request, name: string): bigint {
+    const value = req.query[name];
+    if (typeof value !== 'string' || !/^[0-9]{1,78}$/.test(value)) {
+        throw new ApiError(400, `${name} is not an unsigned integer: ${value}`);
+    }
+    return BigInt(value);
+}
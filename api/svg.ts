@@ -0,0 +1,39 @@
+const escapeXml = (text: string) =>
+    text.replace(/[<>&'"]/g, (char) => ({ '<': '&lt;', '>': '&gt;', '&': '&amp;', "'": '&apos;', '"': '&quot;' })[char]!);
+
+// Long names are cut so they fit the 350px card at the font size used
+const truncate = (text: string, max: number) => (text.length > max ? `${text.slice(0, max - 1)}…` : text);
+
+export type CardOptions = {
+    /** Small caps line above the title, e.g. "BADGE" */
+    kind: string;
+    title: string;
+    /** Lines under the title */
+    details: string[];
+    /** Seeds the colours, so each id keeps the same look */
+    id: bigint;
+};
+
+/** A 350x350 SVG card used as the image of tokens without their own artwork. */
+export function renderCard({ kind, title, details, id }: CardOptions): string {
+    const hue = Number(id % 360n);
+    const accent = (hue + 150) % 360;
+    const lines = details
+        .slice(0, 4)
+        .map((line, index) => `<text x="175" y="${256 + index * 24}" class="detail">${escapeXml(truncate(line, 36))}</text>`)
+        .join('');
+    return [
+        '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 350 350" width="350" height="350">',
+        '<defs>',
+        `<linearGradient id="bg" x1="0" y1="0" x2="1" y2="1"><stop offset="0" stop-color="hsl(${hue},70%,35%)"/><stop offset="1" stop-color="hsl(${accent},70%,20%)"/></linearGradient>`,
+        '<style>text{font-family:sans-serif;fill:#fff;text-anchor:middle}.kind{font-size:14px;letter-spacing:4px;opacity:.7}.title{font-size:26px;font-weight:bold}.detail{font-size:15px;opacity:.85}</style>',
+        '</defs>',
+        '<rect width="350" height="350" rx="24" fill="url(#bg)"/>',
+        `<circle cx="175" cy="110" r="52" fill="none" stroke="hsl(${accent},90%,70%)" stroke-width="6"/>`,
+        `<text x="175" y="120" class="title">${escapeXml(title.slice(0, 1).toUpperCase() || '?')}</text>`,
+        `<text x="175" y="190" class="kind">${escapeXml(kind)}</text>`,
+        `<text x="175" y="222" class="title">${escapeXml(truncate(title, 22))}</text>`,
+        lines,
+        '</svg>',
+    ].join('');
+}
@@ -0,0 +1,49 @@
+/** Role names from Degen4LifeRoles.sol, plus the AccessControl admin role */
+export const ROLE_NAMES = [
+    'DEFAULT_ADMIN_ROLE',
+    'GOVERNANCE_ADMIN',
+    'UPGRADE_ROLE',
+    'TOKEN_CREATOR',
+    'POOL_MANAGER',
+    'SECURITY_ADMIN',
+    'ORACLE_MANAGER',
+    'BRIDGE_OPERATOR',
+    'ORACLE_ROLE',
+] as const;
+
+export type RoleName = typeof ROLE_NAMES[number];
+
+/**
+ * Who takes over from the deployer after `deploy:handover`. Values are
+ * named accounts from hardhat.config.ts.
+ */
+export type HandoverConfig = {
+    /**
+     * Recipient of each role the deployer holds, by the role's constant name
+     * on any contract, e.g. DegenENS's REGISTRAR_ROLE
+     */
+    roles: Record<string, string>;
+    /** New owner of every Ownable contract */
+    owner: string;
+    /** New owner of hardhat-deploy's DefaultProxyAdmin */
+    proxyAdminOwner: string;
+};
+
+// Admin and upgrade powers go through the timelock; operational roles stay
+// with the multisig so incidents don't wait for a governance delay
+export const defaultHandover: HandoverConfig = {
+    roles: {
+        DEFAULT_ADMIN_ROLE: 'timelock',
+        GOVERNANCE_ADMIN: 'timelock',
+        UPGRADE_ROLE: 'timelock',
+        TOKEN_CREATOR: 'multisig',
+        POOL_MANAGER: 'multisig',
+        SECURITY_ADMIN: 'multisig',
+        ORACLE_MANAGER: 'multisig',
+        BRIDGE_OPERATOR: 'multisig',
+        ORACLE_ROLE: 'multisig',
+        REGISTRAR_ROLE: 'multisig',
+    },
+    owner: 'multisig',
+    proxyAdminOwner: 'timelock',
+};
@@ -0,0 +1,3 @@
+export * from './networks';
+export * from './parameters';
+export * from './handover';
@@ -0,0 +1,185 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { ContractRef, ref } from '../utils/deploy/manifest';
+import { ProtocolParameters, defaultParameters } from './parameters';
+import { HandoverConfig, defaultHandover } from './handover';
+
+/** A fixed address, or a deployment made by the `mocks` tag on local chains */
+export type AddressSource = string | ContractRef;
+
+export type PricedToken = {
+    symbol: string;
+    address: AddressSource;
+    /** Chainlink <token>/USD aggregator */
+    priceFeed: AddressSource;
+};
+
+/**
+ * Controller system addresses of contracts the manifest doesn't deploy.
+ * Unset ones stay the deployer, which the finalize tag refuses on live networks.
+ */
+export type ExternalSystemAddresses = {
+    feeHandler?: AddressSource;
+    governance?: AddressSource;
+    socialOracle?: AddressSource;
+    dao?: AddressSource;
+};
+
+export type NetworkConfig = {
+    /** Names of the hardhat.config.ts networks using this chain */
+    networks: string[];
+    chainId: number;
+    /** Chainlink ETH/USD aggregator, used to price WETH */
+    ethUsdFeed: AddressSource;
+    /** Tokens priced by the PriceOracle and accepted by the DEX */
+    stablecoins: PricedToken[];
+    /** BadgeNFT (ERC-1155) URI; `{id}` is replaced by the 64-digit hex badge id */
+    badgeBaseUri: string;
+    /** AchievementNFT (ERC-721) base URI; tokenURI appends the decimal achievement id */
+    achievementBaseUri: string;
+    /** Deploy the `mocks` tag; only set for local chains */
+    mocks: boolean;
+    parameters: ProtocolParameters;
+    handover: HandoverConfig;
+    systemAddresses: ExternalSystemAddresses;
+};
+
+const BADGE_BASE_URI = 'https://api.degen4life.com/badges/metadata/{id}';
+const ACHIEVEMENT_BASE_URI = 'https://api.degen4life.com/achievements/metadata/';
+
+const base: NetworkConfig = {
+    networks: ['base'],
+    chainId: 8453,
+    ethUsdFeed: '0x71041dddad3595F9CEd3DcCFBe3D1F4b0a16Bb70',
+    stablecoins: [
+        {
+            symbol: 'USDT',
+            address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb',
+            priceFeed: '0x0a023a3423D9b27A0BE48c768CCF2dD7877fEf5E',
+        },
+        {
+            symbol: 'USDC',
+            address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+            priceFeed: '0x7e860098F58bBFC8648a4311b374B1D669a2bc6B',
+        },
+    ],
+    badgeBaseUri: BADGE_BASE_URI,
+    achievementBaseUri: ACHIEVEMENT_BASE_URI,
+    mocks: false,
+    parameters: defaultParameters,
+    handover: defaultHandover,
+    systemAddresses: {},
+};
+
+const mainnet: NetworkConfig = {
+    networks: ['mainnet'],
+    chainId: 1,
+    ethUsdFeed: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+    stablecoins: [
+        {
+            symbol: 'USDT',
+            address: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+            priceFeed: '0x3E7d1eAB13ad0104d2750B8863b489D65A5744aC',
+        },
+        {
+            symbol: 'USDC',
+            address: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+            priceFeed: '0x8fFfFfd4AfB6115b954Bd326cbe7B4BA576818f6',
+        },
+    ],
+    badgeBaseUri: BADGE_BASE_URI,
+    achievementBaseUri: ACHIEVEMENT_BASE_URI,
+    mocks: false,
+    parameters: defaultParameters,
+    handover: defaultHandover,
+    systemAddresses: {},
+};
+
+const sepolia: NetworkConfig = {
+    networks: ['sepolia'],
+    chainId: 11155111,
+    ethUsdFeed: '0x694AA1769357215DE4FAC081bf1f309aDC325306',
+    stablecoins: [
+        {
+            symbol: 'USDC',
+            address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+            priceFeed: '0xA2F78ab2355fe2f984D808B5CeE7FD0A93D5270E',
+        },
+    ],
+    badgeBaseUri: BADGE_BASE_URI,
+    achievementBaseUri: ACHIEVEMENT_BASE_URI,
+    mocks: false,
+    parameters: defaultParameters,
+    handover: defaultHandover,
+    systemAddresses: {},
+};
+
+const baseSepolia: NetworkConfig = {
+    networks: ['base-sepolia'],
+    chainId: 84532,
+    ethUsdFeed: '0x4aDC67696bA383F43DD60A9e78F2C97Fbbfc7cb1',
+    stablecoins: [
+        {
+            symbol: 'USDC',
+            address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+            priceFeed: '0xd30e2101a97dcbAeBCBC04F14C3f624E67A35165',
+        },
+    ],
+    badgeBaseUri: BADGE_BASE_URI,
+    achievementBaseUri: ACHIEVEMENT_BASE_URI,
+    mocks: false,
+    parameters: defaultParameters,
+    handover: defaultHandover,
+    systemAddresses: {},
+};
+
+// Nothing is deployed at the public feed and token addresses locally, so the
+// `mocks` tag deploys stand-ins (see manifest/mocks.ts)
+const hardhat: NetworkConfig = {
+    networks: ['hardhat', 'localhost'],
+    chainId: 31337,
+    ethUsdFeed: ref('MockEthUsdFeed'),
+    stablecoins: [
+        { symbol: 'USDT', address: ref('MockUSDT'), priceFeed: ref('MockUsdtUsdFeed') },
+        { symbol: 'USDC', address: ref('MockUSDC'), priceFeed: ref('MockUsdcUsdFeed') },
+    ],
+    // Served by `npx hardhat api:serve` on its default port
+    badgeBaseUri: 'http://localhost:3000/badges/metadata/{id}',
+    achievementBaseUri: 'http://localhost:3000/achievements/metadata/',
+    mocks: true,
+    parameters: defaultParameters,
+    handover: defaultHandover,
+    systemAddresses: {},
+};
+
+export const networkConfigs: Record<number, NetworkConfig> = {
+    [hardhat.chainId]: hardhat,
+    [sepolia.chainId]: sepolia,
+    [baseSepolia.chainId]: baseSepolia,
+    [mainnet.chainId]: mainnet,
+    [base.chainId]: base,
+};
+
+export function getNetworkConfig(chainId: number): NetworkConfig {
+    const config = networkConfigs[chainId];
+    if (!config) {
+        throw new Error(`No network configuration for chainId ${chainId}; add it to config/networks.ts`);
+    }
+    return config;
+}
+
+/**
+ * Looks up the configuration for the network hardhat is connected to. The
+ * network must declare its chainId in hardhat.config.ts and be listed under
+ * that chain here.
+ */
+export function resolveNetworkConfig(hre: HardhatRuntimeEnvironment): NetworkConfig {
+    const { name, config: networkConfig } = hre.network;
+    if (networkConfig.chainId === undefined) {
+        throw new Error(`Network ${name} has no chainId in hardhat.config.ts`);
+    }
+    const config = getNetworkConfig(networkConfig.chainId);
+    if (!config.networks.includes(name)) {
+        throw new Error(`Network ${name} is not listed for chainId ${config.chainId} in config/networks.ts`);
+    }
+    return config;
+}
@@ -0,0 +1,23 @@
+export type PredictionMarketParameters = {
+    /** Seconds after a market ends the resolver must resolve it in */
+    resolutionWindow: number;
+};
+
+export type OrderBookParameters = {
+    /** Seconds an order stays fillable; 0 disables expiry */
+    orderExpiry: number;
+};
+
+export type ProtocolParameters = {
+    predictionMarket: PredictionMarketParameters;
+    orderBook: OrderBookParameters;
+};
+
+export const defaultParameters: ProtocolParameters = {
+    predictionMarket: {
+        resolutionWindow: 24 * 3600 // 1 day
+    },
+    orderBook: {
+        orderExpiry: 7 * 24 * 3600 // 1 week
+    },
+};
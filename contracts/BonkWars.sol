@@ -4,6 +4,7 @@ pragma solidity ^0.8.19;
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
+import "@openzeppelin/contracts/utils/Multicall.sol";
 import "./interfaces/IAggregatorV3.sol";
 import "./interfaces/IHydraCurve.sol";
 import "./curve/curve.sol";
@@ -21,8 +22,9 @@ interface IPriceFeed {
 /**
  * @title BonkWars
  * @notice Prediction market for meme tokens that have reached qualification threshold
+ * @dev Multicall lets the oracle batch a token's metric updates into one transaction
  */
-contract BonkWars is ReentrancyGuard, Pausable {
+contract BonkWars is ReentrancyGuard, Pausable, Multicall {
     // Structs
     struct Market {
         address token;
@@ -70,6 +70,9 @@ contract Degen4LifeController is
 
     // Add token registry mapping
     mapping(address => TokenData) public tokenRegistry;
+
+    // Tokens launched through the controller, whose pools LiquidityModule keys by token
+    address[] private launchedTokens;
     
     // Structs
     struct SystemAddresses {
@@ -287,6 +290,7 @@ function launchToken(
                             socialScore: 0,
                             associatedPool: address(0)
                         });
+                        launchedTokens.push(token);
                         return token;
                     } catch Error(string memory reason) {
                         revert(string(abi.encodePacked("User profile error: ", reason)));
@@ -431,6 +435,11 @@ function launchToken(
         _unpause();
     }
 
+    /// @notice The controller is the registered pool controller; its pools are the tokens it launched
+    function getActivePools() external view returns (address[] memory) {
+        return launchedTokens;
+    }
+
     function getSystemState() external view returns (
         address[] memory allTokens,
         address[] memory activePools,
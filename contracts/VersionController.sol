@@ -1,7 +1,10 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.20;
 
-contract VersionController {
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "./Degen4LifeRoles.sol";
+
+contract VersionController is AccessControl {
     struct Version {
         bytes32 versionHash;
         address implementation;
@@ -12,10 +15,15 @@ contract VersionController {
     mapping(uint256 => Version) public versions;
     uint256 public currentVersion;
     
+    constructor() {
+        _grantRole(DEFAULT_ADMIN_ROLE, msg.sender);
+        _grantRole(Degen4LifeRoles.UPGRADE_ROLE, msg.sender);
+    }
+    
     function proposeUpgrade(
         address newImplementation,
         string calldata releaseNotes
-    ) external {
+    ) external onlyRole(Degen4LifeRoles.UPGRADE_ROLE) {
         require(newImplementation != address(0), "Invalid implementation");
         bytes32 hash = keccak256(abi.encodePacked(newImplementation));
         versions[++currentVersion] = Version(
@@ -16,6 +16,7 @@ interface IPrivacy {
         address tokenOut;
         uint256 amountIn;
         uint256 minAmountOut;
+        bytes32 salt;
         bytes signature;
     }
 
@@ -62,6 +63,13 @@ interface IPrivacy {
      */
     function getOrder(bytes32 commitment) external view returns (PrivateOrder memory);
 
+    /**
+     * @notice Computes the commitment of an order
+     * @param orderData Order details, including the salt
+     * @return commitment The value to pass to commitOrder
+     */
+    function hashOrder(OrderReveal calldata orderData) external pure returns (bytes32);
+
     /**
      * @notice Checks if a commitment has been used
      * @param commitment Order commitment hash
@@ -0,0 +1,66 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "../interfaces/IAggregatorV3.sol";
+
+contract MockAggregatorV3 is IAggregatorV3 {
+    struct Round {
+        int256 answer;
+        uint256 startedAt;
+        uint256 updatedAt;
+    }
+
+    uint8 public override decimals;
+    string public override description;
+    uint256 public constant override version = 4;
+
+    uint80 public latestRound;
+    mapping(uint80 => Round) private rounds;
+
+    event AnswerUpdated(int256 indexed current, uint256 indexed roundId, uint256 updatedAt);
+
+    constructor(uint8 _decimals, string memory _description, int256 initialAnswer) {
+        decimals = _decimals;
+        description = _description;
+        _newRound(initialAnswer, block.timestamp);
+    }
+
+    // Starts a new round at the current block timestamp
+    function setAnswer(int256 answer) external {
+        _newRound(answer, block.timestamp);
+    }
+
+    // Starts a new round with an explicit timestamp, e.g. to simulate a stale feed
+    function setRoundData(int256 answer, uint256 updatedAt) external {
+        _newRound(answer, updatedAt);
+    }
+
+    function getRoundData(uint80 _roundId) external view override returns (
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) {
+        require(_roundId > 0 && _roundId <= latestRound, "No data present");
+        Round storage round = rounds[_roundId];
+        return (_roundId, round.answer, round.startedAt, round.updatedAt, _roundId);
+    }
+
+    function latestRoundData() external view override returns (
+        uint80 roundId,
+        int256 answer,
+        uint256 startedAt,
+        uint256 updatedAt,
+        uint80 answeredInRound
+    ) {
+        Round storage round = rounds[latestRound];
+        return (latestRound, round.answer, round.startedAt, round.updatedAt, latestRound);
+    }
+
+    function _newRound(int256 answer, uint256 updatedAt) internal {
+        latestRound++;
+        rounds[latestRound] = Round(answer, updatedAt, updatedAt);
+        emit AnswerUpdated(answer, latestRound, updatedAt);
+    }
+}
@@ -8,6 +8,7 @@ import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
 import "../interfaces/IContractRegistry.sol";
 import "../interfaces/IOrderBook.sol";
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
 
 /**
  * @title OrderBookModule
@@ -19,6 +20,8 @@ contract OrderBookModule is
     ReentrancyGuardUpgradeable,
     PausableUpgradeable
 {
+    using SafeERC20 for IERC20;
+
     // State variables
     IContractRegistry public registry;
     
@@ -51,11 +54,19 @@ contract OrderBookModule is
     mapping(bytes32 => Order) private orders;           // orderId => Order
     mapping(address => bytes32[]) private userOrders;   // user => orderIds
 
+    // Seconds an order stays fillable after creation; 0 means orders never expire
+    uint256 public orderExpiry;
+
+    // orderId => position of the order's copy on its side of the order book
+    mapping(bytes32 => uint256) private bookIndex;
+
     // Events
     event OrderCreated(bytes32 indexed orderId, address indexed maker, address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut);
     event OrderFilled(bytes32 indexed orderId, address indexed taker, uint256 fillAmount);
     event OrderCancelled(bytes32 indexed orderId);
     event TradeExecuted(bytes32 indexed orderId, address indexed maker, address indexed taker, uint256 amount, uint256 price);
+    event OrderExpired(bytes32 indexed orderId);
+    event OrderExpiryUpdated(uint256 orderExpiry);
 
     /// @custom:oz-upgrades-unsafe-allow constructor
     constructor() {
@@ -118,8 +129,10 @@ contract OrderBookModule is
 
         // Add order to the correct side of the book
         if (isBuyOrder) {
+            bookIndex[orderId] = book.buyOrders.length;
             book.buyOrders.push(order);
         } else {
+            bookIndex[orderId] = book.sellOrders.length;
             book.sellOrders.push(order);
         }
 
@@ -144,9 +157,62 @@ contract OrderBookModule is
         require(order.status == OrderStatus.OPEN, "Invalid status");
 
         order.status = OrderStatus.CANCELLED;
+        _setBookStatus(orderId, OrderStatus.CANCELLED);
         emit OrderCancelled(orderId);
     }
 
+    /**
+     * @notice Fills an open order as taker: the caller pays the maker amountOut
+     * of tokenOut and receives amountIn of tokenIn
+     * @param orderId The ID of the order to fill
+     */
+    function fillOrder(bytes32 orderId) external nonReentrant whenNotPaused {
+        Order storage order = orders[orderId];
+        require(order.maker != address(0), "Unknown order");
+        require(order.status == OrderStatus.OPEN, "Invalid status");
+        require(!_isExpired(order), "Order expired");
+
+        _fillOrder(orderId);
+    }
+
+    /**
+     * @notice Fills several orders in one transaction, skipping any that were
+     * filled, cancelled or expired in the meantime
+     * @param orderIds The IDs of the orders to fill
+     * @return filled Number of orders filled
+     */
+    function fillOrders(bytes32[] calldata orderIds) external nonReentrant whenNotPaused returns (uint256 filled) {
+        for (uint i = 0; i < orderIds.length; i++) {
+            if (_fillOrder(orderIds[i])) {
+                filled++;
+            }
+        }
+    }
+
+    /**
+     * @notice Cancels an order older than orderExpiry; callable by anyone
+     * @param orderId The ID of the expired order
+     */
+    function expireOrder(bytes32 orderId) external nonReentrant {
+        Order storage order = orders[orderId];
+        require(order.maker != address(0), "Unknown order");
+        require(order.status == OrderStatus.OPEN, "Invalid status");
+        require(_isExpired(order), "Not expired");
+
+        order.status = OrderStatus.CANCELLED;
+        _setBookStatus(orderId, OrderStatus.CANCELLED);
+        emit OrderExpired(orderId);
+    }
+
+    /**
+     * @notice Sets how long orders stay fillable
+     * @param _orderExpiry Lifetime in seconds; 0 disables expiry
+     */
+    function setOrderExpiry(uint256 _orderExpiry) external onlyOwner {
+        orderExpiry = _orderExpiry;
+        emit OrderExpiryUpdated(_orderExpiry);
+    }
+
     /**
      * @notice Gets all open orders for a trading pair
      * @param tokenIn Input token address
@@ -201,6 +267,7 @@ contract OrderBookModule is
         for (uint i = 0; i < matchingOrders.length; i++) {
             Order storage matchingOrder = matchingOrders[i];
             if (matchingOrder.status != OrderStatus.OPEN) continue;
+            if (_isExpired(matchingOrder)) continue;
 
             // Skip if it's our own order
             if (matchingOrder.maker == order.maker) continue;
@@ -233,12 +300,12 @@ contract OrderBookModule is
         // Transfer tokens
         if (order1.isBuyOrder) {
             // order1 is buy, order2 is sell
-            IERC20(order1.tokenIn).transferFrom(order1.maker, order2.maker, order2.amountIn);
-            IERC20(order2.tokenIn).transferFrom(order2.maker, order1.maker, order2.amountOut);
+            IERC20(order1.tokenIn).safeTransferFrom(order1.maker, order2.maker, order2.amountIn);
+            IERC20(order2.tokenIn).safeTransferFrom(order2.maker, order1.maker, order2.amountOut);
         } else {
             // order1 is sell, order2 is buy
-            IERC20(order1.tokenIn).transferFrom(order1.maker, order2.maker, order1.amountIn);
-            IERC20(order2.tokenIn).transferFrom(order2.maker, order1.maker, order1.amountOut);
+            IERC20(order1.tokenIn).safeTransferFrom(order1.maker, order2.maker, order1.amountIn);
+            IERC20(order2.tokenIn).safeTransferFrom(order2.maker, order1.maker, order1.amountOut);
         }
         
         // Calculate execution price
@@ -283,6 +350,35 @@ contract OrderBookModule is
         );
     }
 
+    function _fillOrder(bytes32 orderId) internal returns (bool) {
+        Order storage order = orders[orderId];
+        if (order.maker == address(0) || order.status != OrderStatus.OPEN || _isExpired(order)) {
+            return false;
+        }
+
+        order.status = OrderStatus.FILLED;
+        _setBookStatus(orderId, OrderStatus.FILLED);
+
+        IERC20(order.tokenOut).safeTransferFrom(msg.sender, order.maker, order.amountOut);
+        IERC20(order.tokenIn).safeTransferFrom(order.maker, msg.sender, order.amountIn);
+
+        emit OrderFilled(orderId, msg.sender, order.amountIn);
+        emit TradeExecuted(orderId, order.maker, msg.sender, order.amountIn, (order.amountOut * 1e18) / order.amountIn);
+        return true;
+    }
+
+    function _isExpired(Order storage order) internal view returns (bool) {
+        return orderExpiry != 0 && block.timestamp > order.timestamp + orderExpiry;
+    }
+
+    // Keeps the copy in the order book, which getOrderBook returns, in sync with the orders mapping
+    function _setBookStatus(bytes32 orderId, OrderStatus status) internal {
+        Order storage order = orders[orderId];
+        OrderBook storage book = orderBooks[_getOrderBookId(order.tokenIn, order.tokenOut)];
+        Order[] storage side = order.isBuyOrder ? book.buyOrders : book.sellOrders;
+        side[bookIndex[orderId]].status = status;
+    }
+
     function _getOrderBookId(address tokenIn, address tokenOut) internal pure returns (bytes32) {
         // Always use the lower address as the first token to ensure consistent order book IDs
         (address token0, address token1) = tokenIn < tokenOut ? (tokenIn, tokenOut) : (tokenOut, tokenIn);
@@ -36,6 +36,7 @@ contract PrivacyModule is
         address tokenOut;
         uint256 amountIn;
         uint256 minAmountOut;
+        bytes32 salt;            // Random value that keeps the commitment from being guessed
         bytes signature;
     }
 
@@ -170,6 +171,15 @@ contract PrivacyModule is
         return orders[commitment];
     }
 
+    /**
+     * @notice Computes the commitment of an order
+     * @param orderData Order details, including the salt
+     * @return commitment The value to pass to commitOrder
+     */
+    function hashOrder(OrderReveal calldata orderData) external pure returns (bytes32) {
+        return _hashOrder(orderData);
+    }
+
     // Internal functions
 
     function _hashOrder(OrderReveal memory orderData) internal pure returns (bytes32) {
@@ -179,7 +189,8 @@ contract PrivacyModule is
                 orderData.tokenIn,
                 orderData.tokenOut,
                 orderData.amountIn,
-                orderData.minAmountOut
+                orderData.minAmountOut,
+                orderData.salt
             )
         );
     }
@@ -46,11 +46,19 @@ contract RiskManagementModule is
         uint256 lastUpdate;
     }
 
+    struct MarketIndicators {
+        uint256 realizedVolatility; // bps, over the publisher's window
+        uint256 holderConcentration; // bps of supply held by the largest holders
+        uint256 washTradeRatio; // bps of volume traded back and forth by the same accounts
+        uint256 lastUpdate;
+    }
+
     // Mappings
     mapping(address => RiskParameters) public riskParams;
     mapping(address => RiskScore) public riskScores;
     mapping(address => MarketData) public marketData;
     mapping(address => uint256) public lastActionTime;
+    mapping(address => MarketIndicators) public marketIndicators;
     
     // Constants
     uint256 public constant MAX_RISK_SCORE = 100;
@@ -62,6 +70,7 @@ contract RiskManagementModule is
     event RiskParametersUpdated(address indexed token, RiskParameters params);
     event RiskScoreUpdated(address indexed token, uint256 newScore);
     event MarketDataUpdated(address indexed token, uint256 price, uint256 volume);
+    event MarketIndicatorsUpdated(address indexed token, uint256 realizedVolatility, uint256 holderConcentration, uint256 washTradeRatio);
     event RiskAlert(address indexed token, string alertType, uint256 severity);
     event ParameterAdjusted(address indexed token, string parameter, uint256 oldValue, uint256 newValue);
 
@@ -115,6 +124,32 @@ contract RiskManagementModule is
         emit MarketDataUpdated(token, price, volume24h);
     }
 
+    /**
+     * @notice Updates the off-chain risk indicators of a token
+     * @param token Token address
+     * @param realizedVolatility Realized volatility in bps
+     * @param holderConcentration Share of supply held by the largest holders in bps
+     * @param washTradeRatio Share of volume flagged as wash trading in bps
+     */
+    function updateMarketIndicators(
+        address token,
+        uint256 realizedVolatility,
+        uint256 holderConcentration,
+        uint256 washTradeRatio
+    ) external onlyOwner {
+        require(token != address(0), "Invalid token");
+        require(holderConcentration <= 10000 && washTradeRatio <= 10000, "Invalid ratio");
+
+        marketIndicators[token] = MarketIndicators({
+            realizedVolatility: realizedVolatility,
+            holderConcentration: holderConcentration,
+            washTradeRatio: washTradeRatio,
+            lastUpdate: block.timestamp
+        });
+
+        emit MarketIndicatorsUpdated(token, realizedVolatility, holderConcentration, washTradeRatio);
+    }
+
     /**
      * @notice Sets risk parameters for a token
      * @param token Token address
@@ -176,6 +211,15 @@ contract RiskManagementModule is
         return marketData[token];
     }
 
+    /**
+     * @notice Gets the off-chain risk indicators of a token
+     * @param token Token address
+     * @return indicators The indicators
+     */
+    function getMarketIndicators(address token) external view returns (MarketIndicators memory) {
+        return marketIndicators[token];
+    }
+
     // Internal functions
 
     function _updateRiskScore(address token) internal {
@@ -31,6 +31,9 @@ contract SocialTradingModule is BaseModule, ISocialTrading {
     uint256 private constant REPUTATION_MULTIPLIER = 100;
     uint256 private constant MAX_ACTIVE_STRATEGIES = 5;
 
+    // Copy-trade engines that mirror leaders' trades for followers
+    bytes32 public constant COPY_TRADER_ROLE = keccak256("COPY_TRADER_ROLE");
+
     // Events (in addition to interface events)
     event PerformanceFeePaid(
         address indexed trader,
@@ -162,6 +165,7 @@ contract SocialTradingModule is BaseModule, ISocialTrading {
 
     /**
      * @notice Records a trade and updates trader reputation
+     * @dev Callable by the controller and by COPY_TRADER_ROLE holders
      * @param trader Address of trader
      * @param volume Trade volume
      * @param success Whether trade was successful
@@ -171,7 +175,11 @@ contract SocialTradingModule is BaseModule, ISocialTrading {
         uint256 volume,
         bool success
     ) external override {
-        require(msg.sender == registry.getContractAddress(keccak256(abi.encodePacked("CONTROLLER"))), "Unauthorized");
+        require(
+            msg.sender == registry.getContractAddress(keccak256(abi.encodePacked("CONTROLLER"))) ||
+                hasRole(COPY_TRADER_ROLE, msg.sender),
+            "Unauthorized"
+        );
         require(_traders[trader].isActive, "Invalid trader");
 
         Trader storage traderData = _traders[trader];
@@ -5,12 +5,28 @@ import "@openzeppelin/contracts/token/ERC721/ERC721.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
 contract AchievementNFT is ERC721, Ownable {
-    constructor(string memory name, string memory symbol, address initialOwner) 
+    string private baseTokenURI;
+
+    event BaseURIUpdated(string baseURI);
+
+    constructor(string memory name, string memory symbol, string memory baseURI, address initialOwner) 
         ERC721(name, symbol)
         Ownable(initialOwner)
-    {}
+    {
+        baseTokenURI = baseURI;
+    }
 
     function safeMint(address to, uint256 tokenId) external onlyOwner {
         _safeMint(to, tokenId);
     }
-} 
\ No newline at end of file
+
+    /// @notice tokenURI is the base URI followed by the decimal token id
+    function setBaseURI(string calldata baseURI) external onlyOwner {
+        baseTokenURI = baseURI;
+        emit BaseURIUpdated(baseURI);
+    }
+
+    function _baseURI() internal view override returns (string memory) {
+        return baseTokenURI;
+    }
+} 
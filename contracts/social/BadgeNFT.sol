@@ -18,4 +18,9 @@ contract BadgeNFT is ERC1155, Ownable {
     ) external onlyOwner {
         _mint(to, id, amount, data);
     }
-} 
\ No newline at end of file
+
+    /// @notice Clients replace `{id}` in the URI with the hex token id (ERC-1155 metadata)
+    function setURI(string calldata newuri) external onlyOwner {
+        _setURI(newuri);
+    }
+} 
@@ -35,6 +35,10 @@ contract NFTFeatures is Initializable, OwnableUpgradeable, TokenGating {
     mapping(address => uint256[]) public userAchievements;
     mapping(address => mapping(uint256 => uint256)) public userBadges;
 
+    // Users awarded at least one achievement or badge
+    uint256 public totalUsers;
+    mapping(address => bool) private isUser;
+
     // Events
     event AchievementCreated(uint256 indexed id, string name, uint256 requiredScore);
     event AchievementUnlocked(address indexed user, uint256 indexed achievementId);
@@ -97,6 +101,7 @@ contract NFTFeatures is Initializable, OwnableUpgradeable, TokenGating {
             
             if (achievement.active && score >= achievement.requiredScore) {
                 achievementNFT.safeMint(user, achievementId);
+                _recordUser(user);
                 emit AchievementUnlocked(user, achievementId);
             }
         }
@@ -113,7 +118,15 @@ contract NFTFeatures is Initializable, OwnableUpgradeable, TokenGating {
         badge.minted += amount;
         userBadges[user][badgeId] += amount;
         badgeNFT.mint(user, badgeId, amount, "");
+        _recordUser(user);
         
         emit BadgeAwarded(user, badgeId, amount);
     }
+
+    function _recordUser(address user) private {
+        if (!isUser[user]) {
+            isUser[user] = true;
+            totalUsers++;
+        }
+    }
 } 
\ No newline at end of file
@@ -0,0 +1,23 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts-upgradeable/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "../../interfaces/IHydraCurve.sol";
+
+/// @notice HydraCurve with a variable inserted before its curves, which shifts
+/// every slot after it; an upgrade to it must be refused
+contract HydraCurveStorageClash is Initializable, OwnableUpgradeable {
+    uint256 public inserted;
+    mapping(address => IHydraCurve.CurveParams) public curves;
+    mapping(address => bool) public isCurveInitialized;
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        _disableInitializers();
+    }
+
+    function initialize(address initialOwner) external initializer {
+        __Ownable_init(initialOwner);
+    }
+}
@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+// Swaps one for one out of its own balance, with Degen4LifeDEX's token swap signatures
+contract MockSwapDEX {
+    event Swap(address indexed user, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, uint256 fee);
+
+    function getAmountOut(address, address, uint256 amountIn) external pure returns (uint256) {
+        return amountIn;
+    }
+
+    function swapExactTokensForTokens(
+        address tokenIn,
+        address tokenOut,
+        uint256 amountIn,
+        uint256 minAmountOut,
+        address to,
+        uint256 deadline
+    ) external returns (uint256 amountOut) {
+        require(deadline >= block.timestamp, "Expired");
+        amountOut = amountIn;
+        require(amountOut >= minAmountOut, "Insufficient output");
+        IERC20(tokenIn).transferFrom(msg.sender, address(this), amountIn);
+        IERC20(tokenOut).transfer(to, amountOut);
+        emit Swap(msg.sender, tokenIn, tokenOut, amountIn, amountOut, 0);
+    }
+}
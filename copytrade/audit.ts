@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import { CopyInput, CopyPlan, planCopyTrade } from './sizing';
+
+/** `planned` only occurs in dry runs, which do not write the log */
+export type CopyOutcome = 'executed' | 'failed' | 'skipped' | 'planned';
+
+/** One line of the audit log: a copy decision for one follower of one leader trade. */
+export type AuditEntry = {
+    /** ISO time of the decision */
+    at: string;
+    follower: string;
+    input: CopyInput;
+    plan: CopyPlan;
+    outcome: CopyOutcome;
+    /** Follower's swap transaction */
+    tx?: string;
+    amountOut?: bigint;
+    /** Engine's recordTrade transaction */
+    recordTx?: string;
+    error?: string;
+};
+
+export type ReplayResult = { entry: AuditEntry; replanned: CopyPlan; matches: boolean };
+
+const BIGINT_FIELDS = new Set([
+    'amountIn',
+    'amountOut',
+    'leaderBalanceAfter',
+    'allocation',
+    'followerBalance',
+    'quote',
+    'maxSlippageBps',
+    'maxTradeBps',
+    'minTradeAmount',
+    'minAmountOut',
+]);
+
+// uint256 values are written as decimal strings, like the indexer stores them
+const replacer = (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value);
+const reviver = (key: string, value: unknown) =>
+    BIGINT_FIELDS.has(key) && typeof value === 'string' ? BigInt(value) : value;
+
+/**
+ * Append-only JSON Lines log of every copy decision with the inputs it was
+ * made from. It is what the engine reads on restart to avoid copying a
+ * trade twice, and `replayAuditLog` re-runs the decisions from it.
+ */
+export class AuditLog {
+    constructor(readonly file: string) {}
+
+    async append(entry: AuditEntry): Promise<void> {
+        await fs.appendFile(this.file, JSON.stringify(entry, replacer) + '\n');
+    }
+
+    async entries(): Promise<AuditEntry[]> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.file, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            throw error;
+        }
+        return content
+            .split('\n')
+            .filter((line) => line.trim())
+            .map((line, index) => {
+                try {
+                    return JSON.parse(line, reviver) as AuditEntry;
+                } catch (error) {
+                    throw new Error(`${this.file}:${index + 1}: ${(error as Error).message}`);
+                }
+            });
+    }
+}
+
+/** Key of a (leader trade, follower) pair, as the engine tracks what it handled. */
+export const copyKey = (tradeId: string, follower: string) => `${tradeId}:${follower.toLowerCase()}`;
+
+/**
+ * Re-plans every logged decision from its recorded inputs. A mismatch means
+ * the sizing rules changed since, or the entry was not written by them.
+ */
+export function replayAuditLog(entries: AuditEntry[]): ReplayResult[] {
+    return entries.map((entry) => {
+        const replanned = planCopyTrade(entry.input);
+        return { entry, replanned, matches: JSON.stringify(replanned, replacer) === JSON.stringify(entry.plan, replacer) };
+    });
+}
@@ -0,0 +1,274 @@
+import { Interface, Provider, Signer } from 'ethers';
+import { Degen4LifeDEX, IERC20__factory, SocialTradingModule } from '../typechain-types';
+import { decodeError } from '../sdk';
+import { AuditEntry, AuditLog, copyKey } from './audit';
+import { FollowTracker } from './follows';
+import { CopyInput, LeaderTrade, RiskSettings, copyAmount, planCopyTrade } from './sizing';
+
+export type CopyTradeOptions = {
+    /** Blocks behind the head leader trades are read up to */
+    confirmations: number;
+    /** Milliseconds between rounds */
+    pollInterval: number;
+    /** Leader trades older than this many seconds are not copied */
+    maxTradeAge: number;
+    /** Wei kept back for gas when a follower copies with ETH */
+    gasReserve: bigint;
+    /** Seconds a copy's swap stays valid */
+    deadline: number;
+    /** Plan copies and log them without trading, recording or writing the audit log */
+    dryRun: boolean;
+};
+
+export const DEFAULT_COPY_TRADE_OPTIONS: CopyTradeOptions = {
+    confirmations: 1,
+    pollInterval: 10_000,
+    maxTradeAge: 5 * 60,
+    gasReserve: 10n ** 16n,
+    deadline: 5 * 60,
+    dryRun: false,
+};
+
+/** An account the engine trades for, with its limits. */
+export type FollowerAccount = {
+    signer: Signer;
+    risk: RiskSettings;
+};
+
+export type CopyTradeReport = {
+    block: number;
+    leaderTrades: number;
+    /** Copies made, or planned in a dry run, as tradeId:follower */
+    executed: string[];
+    skipped: string[];
+    failures: string[];
+};
+
+export type CopyTradeLogger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+/**
+ * Mirrors the Degen4LifeDEX swaps of followed traders for the followers it
+ * holds signers for. Each leader swap is sized per follower from their
+ * SocialTradingModule allocation and risk settings (see planCopyTrade),
+ * executed from the follower's account, and written back with recordTrade
+ * from the engine's account, which needs COPY_TRADER_ROLE.
+ *
+ * Every decision goes to the audit log with the inputs it was made from.
+ * Trades already in the log are not copied again after a restart, and the
+ * engine's own swaps are never copied, so followers who are also leaders
+ * cannot make copies bounce between them.
+ */
+export class CopyTradeEngine {
+    private readonly options: CopyTradeOptions;
+    private readonly handled = new Set<string>();
+    private readonly ownTransactions = new Set<string>();
+    private readonly interfaces: Interface[];
+    private syncedTo: number;
+    private loaded = false;
+    private stopped = false;
+
+    constructor(
+        private readonly provider: Provider,
+        private readonly socialTrading: SocialTradingModule,
+        private readonly dex: Degen4LifeDEX,
+        private readonly follows: FollowTracker,
+        private readonly followers: Map<string, FollowerAccount>,
+        private readonly audit: AuditLog,
+        fromBlock: number,
+        options: Partial<CopyTradeOptions> = {},
+        private readonly logger: CopyTradeLogger = console,
+        private readonly batchSize = 2000
+    ) {
+        this.options = { ...DEFAULT_COPY_TRADE_OPTIONS, ...options };
+        this.syncedTo = fromBlock - 1;
+        this.interfaces = [dex.interface, socialTrading.interface, IERC20__factory.createInterface()];
+    }
+
+    async runOnce(): Promise<CopyTradeReport> {
+        if (!this.loaded) {
+            for (const entry of await this.audit.entries()) {
+                this.handled.add(copyKey(entry.input.trade.id, entry.follower));
+                if (entry.tx) this.ownTransactions.add(entry.tx.toLowerCase());
+            }
+            this.loaded = true;
+        }
+        const block = await this.provider.getBlockNumber();
+        const to = Math.max(0, block - this.options.confirmations);
+        const report: CopyTradeReport = { block, leaderTrades: 0, executed: [], skipped: [], failures: [] };
+        if (to <= this.syncedTo) return report;
+
+        const now = (await this.provider.getBlock(block))!.timestamp;
+        const weth = (await this.dex.WETH()).toLowerCase();
+        while (this.syncedTo < to) {
+            const from = this.syncedTo + 1;
+            const batchTo = Math.min(to, from + this.batchSize - 1);
+            await this.follows.sync(batchTo);
+            const leaders = this.follows.leaders();
+            for (const swap of await this.dex.queryFilter(this.dex.filters.Swap(), from, batchTo)) {
+                const { user, tokenIn, tokenOut, amountIn, amountOut } = swap.args;
+                if (!leaders.has(user.toLowerCase()) || this.ownTransactions.has(swap.transactionHash.toLowerCase())) continue;
+                report.leaderTrades++;
+                const trade: LeaderTrade = {
+                    id: `${swap.transactionHash}:${swap.index}`,
+                    leader: user,
+                    tokenIn,
+                    tokenOut,
+                    amountIn,
+                    amountOut,
+                    blockNumber: swap.blockNumber,
+                    leaderBalanceAfter: await this.balanceOf(tokenIn, weth, user, swap.blockNumber),
+                };
+                const tradeAge = now - (await swap.getBlock()).timestamp;
+                // Copies that threw are not in the audit log; the batch is read again next round to retry them
+                if (!(await this.copyForFollowers(trade, tradeAge, weth, report))) return report;
+            }
+            this.syncedTo = batchTo;
+        }
+        return report;
+    }
+
+    /** Runs rounds until stop() is called. */
+    async run(): Promise<void> {
+        this.stopped = false;
+        while (!this.stopped) {
+            try {
+                const report = await this.runOnce();
+                for (const failure of report.failures) this.logger.warn(failure);
+                for (const key of report.executed) this.logger.log(`Copied ${key}`);
+            } catch (error) {
+                this.logger.error(`Copy-trade round failed, retrying: ${this.describe(error)}`);
+            }
+            if (!this.stopped) {
+                await new Promise((resolve) => setTimeout(resolve, this.options.pollInterval));
+            }
+        }
+    }
+
+    stop(): void {
+        this.stopped = true;
+    }
+
+    /** Copies a leader trade for every follower the engine trades for. Returns false if any copy threw. */
+    private async copyForFollowers(trade: LeaderTrade, tradeAge: number, weth: string, report: CopyTradeReport): Promise<boolean> {
+        let complete = true;
+        for (const follow of await this.follows.followersOf(trade.leader)) {
+            const account = this.followers.get(follow.follower.toLowerCase());
+            const key = copyKey(trade.id, follow.follower);
+            if (!account || this.handled.has(key)) continue;
+            try {
+                const entry = await this.copy(trade, follow.allocation, tradeAge, account, weth);
+                if (entry.plan.kind === 'skip') report.skipped.push(`${key}: ${entry.plan.reason}`);
+                else if (entry.outcome === 'failed') report.failures.push(`${key}: ${entry.error}`);
+                else report.executed.push(key);
+            } catch (error) {
+                report.failures.push(`${key}: ${this.describe(error)}`);
+                complete = false;
+            }
+        }
+        return complete;
+    }
+
+    private async copy(
+        trade: LeaderTrade,
+        allocation: bigint,
+        tradeAge: number,
+        account: FollowerAccount,
+        weth: string
+    ): Promise<AuditEntry> {
+        const follower = await account.signer.getAddress();
+        let followerBalance = await this.balanceOf(trade.tokenIn, weth, follower);
+        if (trade.tokenIn.toLowerCase() === weth) {
+            followerBalance = followerBalance > this.options.gasReserve ? followerBalance - this.options.gasReserve : 0n;
+        }
+        const input: CopyInput = {
+            trade,
+            allocation,
+            followerBalance,
+            tradeAge,
+            maxTradeAge: this.options.maxTradeAge,
+            risk: account.risk,
+        };
+        const sized = copyAmount(input);
+        if (sized.kind === 'sized') {
+            input.quote = await this.dex.getAmountOut(trade.tokenIn, trade.tokenOut, sized.amountIn);
+        }
+        const plan = planCopyTrade(input);
+        const entry: AuditEntry = { at: new Date().toISOString(), follower, input, plan, outcome: 'skipped' };
+
+        if (plan.kind === 'copy' && this.options.dryRun) {
+            entry.outcome = 'planned';
+            this.logger.log(`[dry run] would copy ${trade.id} for ${follower}: ${plan.amountIn} in, at least ${plan.minAmountOut} out`);
+        } else if (plan.kind === 'copy') {
+            try {
+                const receipt = await this.swap(account.signer, trade, plan.amountIn, plan.minAmountOut, weth);
+                entry.tx = receipt.hash;
+                this.ownTransactions.add(receipt.hash.toLowerCase());
+                const swapLog = receipt.logs
+                    .map((log) => this.dex.interface.parseLog(log))
+                    .find((parsed) => parsed?.name === 'Swap');
+                entry.amountOut = swapLog?.args.amountOut;
+                entry.outcome = 'executed';
+                entry.recordTx = await this.record(trade.leader, plan.amountIn);
+            } catch (error) {
+                entry.outcome = 'failed';
+                entry.error = this.describe(error);
+                const hash = (error as { receipt?: { hash: string } }).receipt?.hash;
+                if (hash) entry.tx = hash;
+            }
+        }
+
+        if (!this.options.dryRun) {
+            await this.audit.append(entry);
+            this.handled.add(copyKey(trade.id, follower));
+        }
+        return entry;
+    }
+
+    /** Swaps from the follower's account; ETH stands in for WETH the way the DEX's ETH swaps emit it. */
+    private async swap(signer: Signer, trade: LeaderTrade, amountIn: bigint, minAmountOut: bigint, weth: string) {
+        const dex = this.dex.connect(signer);
+        const recipient = await signer.getAddress();
+        const deadline = (await this.provider.getBlock('latest'))!.timestamp + this.options.deadline;
+        let tx;
+        if (trade.tokenIn.toLowerCase() === weth) {
+            tx = await dex.swapExactETHForTokens(trade.tokenOut, minAmountOut, recipient, deadline, { value: amountIn });
+        } else {
+            const token = IERC20__factory.connect(trade.tokenIn, signer);
+            // Approve only what this copy spends; followers' funds are never left approved
+            if ((await token.allowance(recipient, await dex.getAddress())) < amountIn) {
+                await (await token.approve(await dex.getAddress(), amountIn)).wait();
+            }
+            tx = trade.tokenOut.toLowerCase() === weth
+                ? await dex.swapExactTokensForETH(trade.tokenIn, amountIn, minAmountOut, recipient, deadline)
+                : await dex.swapExactTokensForTokens(trade.tokenIn, trade.tokenOut, amountIn, minAmountOut, recipient, deadline);
+        }
+        return (await tx.wait())!;
+    }
+
+    /**
+     * recordTrade for the leader after a copy executed; a failure is logged but
+     * does not undo the copy. A copy that failed on the follower's side says
+     * nothing about the leader, so it is not recorded.
+     */
+    private async record(leader: string, volume: bigint): Promise<string | undefined> {
+        try {
+            const tx = await this.socialTrading.recordTrade(leader, volume, true);
+            await tx.wait();
+            return tx.hash;
+        } catch (error) {
+            this.logger.warn(`recordTrade for ${leader} failed: ${this.describe(error)}`);
+            return undefined;
+        }
+    }
+
+    private balanceOf(token: string, weth: string, account: string, blockTag?: number): Promise<bigint> {
+        return token.toLowerCase() === weth
+            ? this.provider.getBalance(account, blockTag)
+            : IERC20__factory.connect(token, this.provider).balanceOf(account, { blockTag });
+    }
+
+    private describe(error: unknown): string {
+        const decoded = decodeError(error, this.interfaces);
+        return (decoded as Error)?.message ?? String(decoded);
+    }
+}
@@ -0,0 +1,62 @@
+import { SocialTradingModule } from '../typechain-types';
+
+export type Follow = {
+    follower: string;
+    leader: string;
+    /** CopyTrading.amount */
+    allocation: bigint;
+};
+
+/**
+ * Follows CopyTradeStarted/CopyTradeStopped on SocialTradingModule to know
+ * who copies whom. A reorg can undo either event, so `followersOf` re-reads
+ * getCopyTrading before the engine trades on a follow.
+ */
+export class FollowTracker {
+    /** Followers by lowercased leader */
+    private readonly follows = new Map<string, Set<string>>();
+    private syncedTo: number;
+
+    constructor(private readonly socialTrading: SocialTradingModule, fromBlock: number, private readonly batchSize = 2000) {
+        this.syncedTo = fromBlock - 1;
+    }
+
+    /** Leaders with at least one follower. */
+    leaders(): Set<string> {
+        return new Set([...this.follows].filter(([, followers]) => followers.size > 0).map(([leader]) => leader));
+    }
+
+    async sync(toBlock: number): Promise<void> {
+        const { filters } = this.socialTrading;
+        while (this.syncedTo < toBlock) {
+            const from = this.syncedTo + 1;
+            const to = Math.min(toBlock, from + this.batchSize - 1);
+            const [started, stopped] = await Promise.all([
+                this.socialTrading.queryFilter(filters.CopyTradeStarted(), from, to),
+                this.socialTrading.queryFilter(filters.CopyTradeStopped(), from, to),
+            ]);
+            // Both lists are applied in log order, so a follow stopped and restarted in one batch ends active
+            const events = [...started, ...stopped].sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+            for (const event of events) {
+                const leader = event.args.trader.toLowerCase();
+                const followers = this.follows.get(leader) ?? new Set<string>();
+                if (event.eventName === 'CopyTradeStarted') followers.add(event.args.follower);
+                else followers.delete(event.args.follower);
+                this.follows.set(leader, followers);
+            }
+            this.syncedTo = to;
+        }
+    }
+
+    /** Active follows of `leader`, read from the contract. */
+    async followersOf(leader: string): Promise<Follow[]> {
+        const active: Follow[] = [];
+        for (const follower of this.follows.get(leader.toLowerCase()) ?? []) {
+            const copy = await this.socialTrading.getCopyTrading(follower, leader);
+            if (copy.isActive && copy.amount > 0n) {
+                active.push({ follower, leader, allocation: copy.amount });
+            }
+        }
+        return active;
+    }
+}
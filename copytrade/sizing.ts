@@ -0,0 +1,98 @@
+const BPS = 10_000n;
+
+/** A follower's limits on what is copied for them. */
+export type RiskSettings = {
+    /** How much worse than the leader's fill a copy may execute, in bps */
+    maxSlippageBps: bigint;
+    /** Largest share of the follower's tokenIn balance one copy may spend, in bps */
+    maxTradeBps: bigint;
+    /** Copies smaller than this, in tokenIn base units, are skipped */
+    minTradeAmount: bigint;
+    /** Tokens the follower copies trades in; every token when undefined */
+    tokens?: string[];
+};
+
+export const DEFAULT_RISK_SETTINGS: RiskSettings = {
+    maxSlippageBps: 100n,
+    maxTradeBps: 2_500n,
+    minTradeAmount: 1n,
+};
+
+/** A Degen4LifeDEX swap made by a followed trader. WETH stands for ETH on either side. */
+export type LeaderTrade = {
+    /** transactionHash:logIndex of the Swap event */
+    id: string;
+    leader: string;
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: bigint;
+    amountOut: bigint;
+    blockNumber: number;
+    /** tokenIn the leader still held after the swap */
+    leaderBalanceAfter: bigint;
+};
+
+/** Everything a copy decision depends on, so it can be replayed from the audit log. */
+export type CopyInput = {
+    trade: LeaderTrade;
+    /** CopyTrading.amount the follower allocated to the leader */
+    allocation: bigint;
+    /** tokenIn the follower can spend */
+    followerBalance: bigint;
+    /** Seconds between the leader's swap and the decision */
+    tradeAge: number;
+    maxTradeAge: number;
+    /** Degen4LifeDEX.getAmountOut for the sized amount; undefined when sizing already skipped */
+    quote?: bigint;
+    risk: RiskSettings;
+};
+
+export type CopyPlan = { kind: 'copy'; amountIn: bigint; minAmountOut: bigint } | { kind: 'skip'; reason: string };
+
+/**
+ * Sizes a copy the way Degen4LifeController mirrors trades: the follower
+ * spends the same share of their allocation as the leader spent of their
+ * tokenIn position, capped at maxTradeBps of what the follower holds.
+ */
+export function copyAmount(
+    input: Omit<CopyInput, 'quote'>
+): { kind: 'sized'; amountIn: bigint } | Extract<CopyPlan, { kind: 'skip' }> {
+    const { trade, allocation, followerBalance, risk } = input;
+    if (input.tradeAge > input.maxTradeAge) {
+        return { kind: 'skip', reason: `trade is ${input.tradeAge}s old` };
+    }
+    const allowed = risk.tokens?.map((token) => token.toLowerCase());
+    if (allowed && !(allowed.includes(trade.tokenIn.toLowerCase()) && allowed.includes(trade.tokenOut.toLowerCase()))) {
+        return { kind: 'skip', reason: `token not in the follower's list` };
+    }
+    const position = trade.leaderBalanceAfter + trade.amountIn;
+    const share = (allocation * trade.amountIn) / position;
+    const cap = (followerBalance * risk.maxTradeBps) / BPS;
+    const amountIn = share < cap ? share : cap;
+    if (amountIn === 0n || amountIn < risk.minTradeAmount) {
+        return { kind: 'skip', reason: `copy of ${amountIn} is below the minimum of ${risk.minTradeAmount}` };
+    }
+    return { kind: 'sized', amountIn };
+}
+
+/**
+ * Decides whether and how to copy a leader's trade. The copy must fill within
+ * maxSlippageBps of the leader's own rate; that floor is also the swap's
+ * minAmountOut, so a price moving between quote and execution reverts the
+ * swap instead of filling worse.
+ */
+export function planCopyTrade(input: CopyInput): CopyPlan {
+    const sized = copyAmount(input);
+    if (sized.kind !== 'sized') return sized;
+    const { trade, risk, quote } = input;
+    const expectedOut = (sized.amountIn * trade.amountOut) / trade.amountIn;
+    const minAmountOut = (expectedOut * (BPS - risk.maxSlippageBps)) / BPS;
+    if (quote === undefined) {
+        return { kind: 'skip', reason: 'no quote' };
+    }
+    if (quote < minAmountOut) {
+        const worse = expectedOut === 0n ? 0n : ((expectedOut - quote) * BPS) / expectedOut;
+        return { kind: 'skip', reason: `quote is ${worse} bps worse than the leader's fill` };
+    }
+    return { kind: 'copy', amountIn: sized.amountIn, minAmountOut };
+}
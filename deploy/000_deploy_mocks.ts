@@ -0,0 +1,11 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { createManifestDeployFunction } from '../utils/deploy/manifest';
+import { getManifest } from '../manifest';
+import { resolveNetworkConfig } from '../config';
+
+const func = createManifestDeployFunction('mocks', ['preflight'], getManifest);
+
+// Mock feeds and stablecoins only exist on local chains
+func.skip = async (hre: HardhatRuntimeEnvironment) => hre.network.live || !resolveNetworkConfig(hre).mocks;
+
+export default func;
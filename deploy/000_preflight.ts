@@ -0,0 +1,24 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { deployTags, formatPreflightReport, loadDeployScripts, runPreflight, selectScripts } from '../utils/deploy/preflight';
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+    console.log("Running deployment preflight...");
+
+    // Validate every script this run will execute before the first transaction is broadcast
+    const scripts = selectScripts(
+        loadDeployScripts(hre).filter((script) => !script.func.tags?.includes('preflight')),
+        deployTags(hre)
+    );
+    const report = await runPreflight(hre, scripts);
+    console.log(formatPreflightReport(report));
+
+    if (report.issues.length > 0) {
+        throw new Error(`Deployment preflight failed with ${report.issues.length} issue(s); nothing was broadcast`);
+    }
+};
+
+func.tags = ['preflight'];
+func.dependencies = [];
+
+export default func;
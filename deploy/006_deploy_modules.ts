@@ -0,0 +1,6 @@
+import { createManifestDeployFunction } from '../utils/deploy/manifest';
+import { getManifest } from '../manifest';
+
+const func = createManifestDeployFunction('modules', ['core'], getManifest);
+
+export default func;
@@ -0,0 +1,40 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction } from 'hardhat-deploy/types';
+import { getManifest } from '../manifest';
+import { deployManifest } from '../utils/deploy/manifest';
+import { FINALIZE_TAG, finalSystemAddresses, findPlaceholderAddresses } from '../utils/deploy/finalize';
+import { isPreflight } from '../utils/deploy/preflight';
+
+const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+    console.log("\nFinalizing controller wiring...");
+
+    try {
+        const manifest = getManifest(hre);
+
+        // Preflight deployments have no code, so only real runs are checked,
+        // and before any transaction so a live network is left untouched
+        if (!isPreflight(hre)) {
+            const placeholders = await findPlaceholderAddresses(hre, await finalSystemAddresses(hre, manifest));
+            if (placeholders.length > 0) {
+                const message = `Controller system addresses still point at EOAs: ${placeholders.join(', ')}. Set them under systemAddresses in config/networks.ts`;
+                if (hre.network.live) {
+                    throw new Error(message);
+                }
+                console.log(`Warning: ${message}`);
+            }
+        }
+
+        await deployManifest(hre, manifest, FINALIZE_TAG);
+
+        console.log("\nFinalization completed successfully!");
+    } catch (error) {
+        console.error("Finalization failed:", error);
+        throw error;
+    }
+};
+
+func.tags = [FINALIZE_TAG];
+func.dependencies = ['core', 'dex', 'ens', 'prediction-market', 'modules'];
+func.runAtTheEnd = true;
+
+export default func;
@@ -0,0 +1,135 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { Provider } from 'ethers';
+import { BlockFinder } from '../indexer/blocks';
+import { SqlClient } from '../indexer/db';
+import { holderBalances } from '../indexer/holders';
+import { EventStore } from '../indexer/store';
+import { TokenMetrics, isMetricName, parseMetricValue } from './metrics';
+
+/**
+ * A source of token metrics. `read` returns the latest values it has for
+ * the given tokens, keyed by lowercase token address; tokens and metrics it
+ * knows nothing about are left out. A throw skips the adapter for the round.
+ */
+export interface MetricAdapter {
+    readonly name: string;
+    read(tokens: string[]): Promise<Map<string, TokenMetrics>>;
+}
+
+/** What an adapter plugin module exports, as `createAdapter` or its default export. */
+export type AdapterFactory = () => MetricAdapter | Promise<MetricAdapter>;
+
+/** Checks metric names and values from an untyped source. */
+function checkMetrics(source: string, token: string, values: Record<string, unknown>): TokenMetrics {
+    const checked: TokenMetrics = {};
+    for (const [name, value] of Object.entries(values)) {
+        if (!isMetricName(name)) {
+            throw new Error(`${source}: unknown metric ${name} for ${token}`);
+        }
+        checked[name] = parseMetricValue(name, value);
+    }
+    return checked;
+}
+
+/**
+ * volume24h and holderCount from the event indexer's database: holders are
+ * the addresses with a positive balance after every indexed Transfer, and
+ * volume is the token amount swapped on Degen4LifeDEX over `window` seconds.
+ * Both are only as complete as the index, so the adapter refuses to report
+ * while the indexer is more than `maxLag` blocks behind the chain, and
+ * leaves a metric out until the index holds any events it is read from.
+ */
+export class IndexedMetricsAdapter implements MetricAdapter {
+    readonly name = 'indexer';
+    private readonly blocks: BlockFinder;
+
+    constructor(
+        private readonly db: SqlClient,
+        private readonly provider: Provider,
+        private readonly window = 24 * 60 * 60,
+        private readonly maxLag = 50
+    ) {
+        this.blocks = new BlockFinder(provider);
+    }
+
+    async read(tokens: string[]): Promise<Map<string, TokenMetrics>> {
+        const cursor = await new EventStore(this.db).cursor();
+        const head = await this.provider.getBlockNumber();
+        if (cursor === undefined || head - cursor > this.maxLag) {
+            throw new Error(`The indexer is ${cursor === undefined ? 'empty' : `${head - cursor} blocks behind`}`);
+        }
+        const since = await this.blocks.blockAt((await this.provider.getBlock(cursor))!.timestamp - this.window);
+        // An empty swaps table means Degen4LifeDEX is not among the indexed sources
+        const swapsIndexed = (await this.db.query('SELECT 1 FROM swaps LIMIT 1')).length > 0;
+
+        const metrics = new Map<string, TokenMetrics>();
+        for (const token of tokens.map((token) => token.toLowerCase())) {
+            const values: TokenMetrics = {};
+            // Without indexed swaps or transfers the token is not tracked, which is not the same as zero
+            if (swapsIndexed) values.volume24h = await this.volume(token, since);
+            const holders = await holderBalances(this.db, token);
+            if (holders) values.holderCount = BigInt(holders.size);
+            metrics.set(token, values);
+        }
+        return metrics;
+    }
+
+    private async volume(token: string, since: number): Promise<bigint> {
+        const swaps = await this.db.query<{ token_in: string; amount_in: string; amount_out: string }>(
+            'SELECT token_in, amount_in, amount_out FROM swaps WHERE (token_in = ? OR token_out = ?) AND block_number >= ?',
+            [token, token, since]
+        );
+        return swaps.reduce((sum, swap) => sum + BigInt(swap.token_in === token ? swap.amount_in : swap.amount_out), 0n);
+    }
+}
+
+/**
+ * Reads metrics from a JSON file of the form
+ * `{ "<token>": { "price": "150000000", "cexListed": true } }`, re-read every
+ * round. A stand-in for real adapters when testing markets end to end.
+ */
+export class FileAdapter implements MetricAdapter {
+    readonly name: string;
+
+    constructor(private readonly file: string) {
+        this.name = `file:${path.basename(file)}`;
+    }
+
+    async read(tokens: string[]): Promise<Map<string, TokenMetrics>> {
+        const contents: Record<string, Record<string, unknown>> = JSON.parse(await fs.readFile(this.file, 'utf8'));
+        const byToken = new Map(Object.entries(contents).map(([token, values]) => [token.toLowerCase(), values]));
+
+        const metrics = new Map<string, TokenMetrics>();
+        for (const token of tokens.map((token) => token.toLowerCase())) {
+            const values = byToken.get(token);
+            if (values) metrics.set(token, checkMetrics(this.file, token, values));
+        }
+        return metrics;
+    }
+}
+
+/**
+ * Loads an adapter plugin: a module, resolved from the working directory,
+ * exporting an AdapterFactory as `createAdapter` or as its default export.
+ * Values a plugin returns are checked like the file adapter's.
+ */
+export async function loadAdapter(modulePath: string): Promise<MetricAdapter> {
+    const plugin: { createAdapter?: AdapterFactory; default?: AdapterFactory } = await import(path.resolve(modulePath));
+    const factory = plugin.createAdapter ?? plugin.default;
+    if (typeof factory !== 'function') {
+        throw new Error(`${modulePath} exports neither createAdapter nor a default adapter factory`);
+    }
+    const adapter = await factory();
+    return {
+        name: adapter.name,
+        async read(tokens) {
+            const metrics = await adapter.read(tokens);
+            const checked = new Map<string, TokenMetrics>();
+            for (const [token, values] of metrics) {
+                checked.set(token.toLowerCase(), checkMetrics(adapter.name, token, values));
+            }
+            return checked;
+        },
+    };
+}
@@ -0,0 +1,170 @@
+import { Interface } from 'ethers';
+import { BonkWars } from '../typechain-types';
+import { SqlClient } from '../indexer/db';
+import { MetricAdapter } from './adapters';
+import { METRICS, MetricName, MetricValue, TokenMetrics } from './metrics';
+
+const BPS = 10_000n;
+
+export type FeederOptions = {
+    /** Change of a numeric metric, in bps of the on-chain value, that is pushed right away */
+    deviationBps: bigint;
+    /** Seconds after which a smaller change is pushed anyway */
+    heartbeat: number;
+    /** Milliseconds between rounds */
+    pollInterval: number;
+    /** Check the updates with eth_call instead of sending them */
+    dryRun: boolean;
+};
+
+export const DEFAULT_FEEDER_OPTIONS: FeederOptions = {
+    deviationBps: 100n,
+    heartbeat: 60 * 60,
+    pollInterval: 60_000,
+    dryRun: false,
+};
+
+export type MetricUpdate = {
+    token: string;
+    metric: MetricName;
+    from: MetricValue;
+    to: MetricValue;
+    reason: 'changed' | 'deviation' | 'heartbeat';
+};
+
+export type FeedReport = {
+    tokens: number;
+    updates: MetricUpdate[];
+    transactions: string[];
+    /** Adapters or tokens that failed this round, with the error */
+    failures: string[];
+};
+
+export type FeederLogger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+/** Tokens with a BonkWars market that has not resolved yet, from the event indexer. */
+export async function tokensWithOpenMarkets(db: SqlClient): Promise<string[]> {
+    const rows = await db.query<{ token: string }>(
+        `SELECT DISTINCT token FROM markets_created WHERE contract = 'BonkWars'
+         AND market_id NOT IN (SELECT market_id FROM markets_resolved WHERE contract = 'BonkWars')`
+    );
+    return rows.map((row) => row.token);
+}
+
+/**
+ * Pushes token metrics into BonkWars as its oracle. Each round every adapter
+ * is read (later adapters win when two report the same metric), the values
+ * are compared with BonkWars.tokens, and a token's due updates are sent in
+ * one multicall. A numeric metric is due once it moved by `deviationBps`,
+ * or moved at all and was last pushed `heartbeat` seconds ago; a flag is
+ * due whenever it differs.
+ */
+export class MetricsFeeder {
+    private readonly options: FeederOptions;
+    /** Unix seconds each token:metric was last pushed by this process */
+    private readonly pushedAt = new Map<string, number>();
+    private stopped = false;
+
+    constructor(
+        private readonly bonkWars: BonkWars,
+        private readonly adapters: MetricAdapter[],
+        private readonly tokens: () => Promise<string[]>,
+        options: Partial<FeederOptions> = {},
+        private readonly logger: FeederLogger = console
+    ) {
+        this.options = { ...DEFAULT_FEEDER_OPTIONS, ...options };
+    }
+
+    async runOnce(): Promise<FeedReport> {
+        const tokens = (await this.tokens()).map((token) => token.toLowerCase());
+        const report: FeedReport = { tokens: tokens.length, updates: [], transactions: [], failures: [] };
+        const merged = await this.readAdapters(tokens, report);
+
+        const now = Math.floor(Date.now() / 1000);
+        for (const token of tokens) {
+            const values = merged.get(token);
+            if (!values) continue;
+            try {
+                const updates = this.due(token, values, await this.bonkWars.tokens(token), now);
+                if (updates.length === 0) continue;
+                await this.push(token, updates, report);
+                for (const update of updates) this.pushedAt.set(`${token}:${update.metric}`, now);
+                report.updates.push(...updates);
+            } catch (error) {
+                report.failures.push(`${token}: ${(error as Error).message}`);
+            }
+        }
+        return report;
+    }
+
+    /** Runs rounds until stop() is called. */
+    async run(): Promise<void> {
+        this.stopped = false;
+        while (!this.stopped) {
+            try {
+                const report = await this.runOnce();
+                for (const failure of report.failures) this.logger.warn(failure);
+                for (const update of report.updates) {
+                    this.logger.log(`${update.token} ${update.metric}: ${update.from} -> ${update.to} (${update.reason})`);
+                }
+            } catch (error) {
+                this.logger.error(`Feeder round failed, retrying: ${(error as Error).message}`);
+            }
+            if (!this.stopped) {
+                await new Promise((resolve) => setTimeout(resolve, this.options.pollInterval));
+            }
+        }
+    }
+
+    stop(): void {
+        this.stopped = true;
+    }
+
+    private async readAdapters(tokens: string[], report: FeedReport): Promise<Map<string, TokenMetrics>> {
+        const merged = new Map<string, TokenMetrics>();
+        for (const adapter of this.adapters) {
+            let metrics: Map<string, TokenMetrics>;
+            try {
+                metrics = await adapter.read(tokens);
+            } catch (error) {
+                report.failures.push(`Adapter ${adapter.name}: ${(error as Error).message}`);
+                continue;
+            }
+            for (const [token, values] of metrics) {
+                merged.set(token, { ...merged.get(token), ...values });
+            }
+        }
+        return merged;
+    }
+
+    private due(token: string, values: TokenMetrics, onChain: Record<MetricName, MetricValue>, now: number): MetricUpdate[] {
+        const updates: MetricUpdate[] = [];
+        for (const [metric, to] of Object.entries(values) as [MetricName, MetricValue][]) {
+            const from = onChain[metric];
+            if (from === to) continue;
+            if (typeof from === 'boolean' || typeof to === 'boolean') {
+                updates.push({ token, metric, from, to, reason: 'changed' });
+                continue;
+            }
+            const change = from > to ? from - to : to - from;
+            // Anything off a zero value is a full deviation
+            if (from === 0n || change * BPS >= from * this.options.deviationBps) {
+                updates.push({ token, metric, from, to, reason: 'deviation' });
+            } else if (now - (this.pushedAt.get(`${token}:${metric}`) ?? 0) >= this.options.heartbeat) {
+                updates.push({ token, metric, from, to, reason: 'heartbeat' });
+            }
+        }
+        return updates;
+    }
+
+    private async push(token: string, updates: MetricUpdate[], report: FeedReport): Promise<void> {
+        const iface: Interface = this.bonkWars.interface;
+        const calls = updates.map((update) => iface.encodeFunctionData(METRICS[update.metric].method, [token, update.to]));
+        if (this.options.dryRun) {
+            await this.bonkWars.multicall.staticCall(calls);
+            return;
+        }
+        const receipt = await (await this.bonkWars.multicall(calls)).wait();
+        report.transactions.push(receipt!.hash);
+    }
+}
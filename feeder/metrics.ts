@@ -0,0 +1,51 @@
+export type MetricName =
+    | 'volume24h'
+    | 'holderCount'
+    | 'price'
+    | 'cexListed'
+    | 'communitySize'
+    | 'influencerScore'
+    | 'developmentScore'
+    | 'crossChainEnabled';
+
+export type MetricValue = bigint | boolean;
+
+/** Values an adapter knows for one token; metrics it has nothing for are left out. */
+export type TokenMetrics = Partial<Record<MetricName, MetricValue>>;
+
+type MetricSpec = {
+    /** BonkWars function that writes the metric; every one takes (token, value) */
+    method: string;
+    kind: 'uint' | 'bool';
+};
+
+/** The TokenInfo fields BonkWars resolves markets from, keyed by their field name. */
+export const METRICS: Record<MetricName, MetricSpec> = {
+    volume24h: { method: 'updateVolume', kind: 'uint' },
+    holderCount: { method: 'updateHolderCount', kind: 'uint' },
+    price: { method: 'updatePrice', kind: 'uint' },
+    cexListed: { method: 'updateCEXListing', kind: 'bool' },
+    communitySize: { method: 'updateCommunitySize', kind: 'uint' },
+    influencerScore: { method: 'updateInfluencerScore', kind: 'uint' },
+    developmentScore: { method: 'updateDevelopmentScore', kind: 'uint' },
+    crossChainEnabled: { method: 'updateCrossChainStatus', kind: 'bool' },
+};
+
+export function isMetricName(name: string): name is MetricName {
+    return Object.prototype.hasOwnProperty.call(METRICS, name);
+}
+
+/** Checks a value from an untyped source (JSON, a plugin) against the metric's kind. */
+export function parseMetricValue(metric: MetricName, value: unknown): MetricValue {
+    if (METRICS[metric].kind === 'bool') {
+        if (typeof value !== 'boolean') {
+            throw new Error(`${metric} must be true or false, got ${JSON.stringify(value)}`);
+        }
+        return value;
+    }
+    if (typeof value === 'bigint' || (typeof value === 'number' && Number.isSafeInteger(value)) || (typeof value === 'string' && /^[0-9]+$/.test(value))) {
+        const parsed = BigInt(value);
+        if (parsed >= 0n) return parsed;
+    }
+    throw new Error(`${metric} must be a non-negative integer, got ${JSON.stringify(value, (_, v) => (typeof v === 'bigint' ? v.toString() : v))}`);
+}
@@ -0,0 +1,129 @@
+import { Interface, encodeBytes32String, getAddress, isAddress, parseUnits } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { ContractRegistry__factory, IParameterizable__factory } from '../typechain-types';
+import { RegistryKey, RegistryKeys, registryKeyId } from '../utils/registry';
+
+/**
+ * A change a proposal makes, as written in an actions file. Targets and
+ * addresses are deployment names or addresses.
+ *
+ * - `call`: any function of the target; `method` is a name from the
+ *   deployment's ABI or, for plain addresses, a signature like
+ *   `setFees(uint256,uint256,uint256)`
+ * - `registry`: points a ContractRegistry key at a new address
+ * - `parameter`: IParameterizable.updateParameter, the call
+ *   Degen4LifeDAO.proposeParameterChange makes; `value` is an integer or a
+ *   percentage of 1e18 such as `0.3%`
+ */
+export type ProposalAction =
+    | { kind: 'call'; target: string; method: string; args?: unknown[]; value?: string }
+    | { kind: 'registry'; key: string; address: string }
+    | { kind: 'parameter'; target: string; name: string; value: string };
+
+/** One encoded call of a proposal. */
+export type ProposalCall = {
+    target: string;
+    value: bigint;
+    calldata: string;
+    /** What the call does, for proposal descriptions and reports */
+    summary: string;
+};
+
+/** Where a target lives and, for deployments, its ABI. */
+export type ResolvedTarget = { address: string; name: string; abi?: Interface };
+
+export type TargetResolver = (target: string) => Promise<ResolvedTarget>;
+
+/** Resolves addresses as they are and names as deployments of the network, with their ABI. */
+export function deploymentTargets(hre: HardhatRuntimeEnvironment): TargetResolver {
+    return async (target) => {
+        if (isAddress(target)) return { address: getAddress(target), name: getAddress(target) };
+        const deployment = await hre.deployments.getOrNull(target);
+        if (!deployment) {
+            throw new Error(`${target} is neither an address nor a deployment on ${hre.network.name}`);
+        }
+        return { address: deployment.address, name: target, abi: new Interface(deployment.abi) };
+    };
+}
+
+/** Parses an integer, or a percentage scaled so that 100% is 1e18. */
+export function parseParameterValue(value: string): bigint {
+    const percent = /^([0-9]+(?:\.[0-9]+)?)%$/.exec(value.trim());
+    if (percent) return parseUnits(percent[1], 16);
+    if (/^[0-9]+$/.test(value.trim())) return BigInt(value.trim());
+    throw new Error(`Not an integer or percentage: ${value}`);
+}
+
+const describeArgs = (args: readonly unknown[]) => args.map((arg) => String(arg)).join(', ');
+
+/**
+ * Encodes actions into proposal calls. A failing action throws with its
+ * position, so a mistake in an actions file is caught before anything is
+ * simulated or sent.
+ */
+export async function encodeActions(
+    actions: ProposalAction[],
+    resolve: TargetResolver,
+    registry: string
+): Promise<ProposalCall[]> {
+    const calls: ProposalCall[] = [];
+    for (const [index, action] of actions.entries()) {
+        try {
+            calls.push(await encodeAction(action, resolve, registry));
+        } catch (error) {
+            throw new Error(`Action ${index + 1} (${action.kind}): ${(error as Error).message}`);
+        }
+    }
+    return calls;
+}
+
+async function encodeAction(action: ProposalAction, resolve: TargetResolver, registry: string): Promise<ProposalCall> {
+    switch (action.kind) {
+        case 'call': {
+            const target = await resolve(action.target);
+            const iface = action.method.includes('(') ? new Interface([`function ${action.method}`]) : target.abi;
+            if (!iface) {
+                throw new Error(`${target.name} has no known ABI; give the method as a full signature`);
+            }
+            const fragment = iface.getFunction(action.method);
+            if (!fragment) {
+                throw new Error(`${target.name} has no function ${action.method}`);
+            }
+            const args = action.args ?? [];
+            return {
+                target: target.address,
+                value: BigInt(action.value ?? 0),
+                calldata: iface.encodeFunctionData(fragment, args),
+                summary: `${target.name}.${fragment.name}(${describeArgs(args)})`,
+            };
+        }
+        case 'registry': {
+            if (!Object.prototype.hasOwnProperty.call(RegistryKeys, action.key)) {
+                throw new Error(`Unknown registry key ${action.key}`);
+            }
+            const address = await resolve(action.address);
+            const id = registryKeyId(action.key as RegistryKey);
+            return {
+                target: registry,
+                value: 0n,
+                calldata: ContractRegistry__factory.createInterface().encodeFunctionData('setContractAddress', [id, address.address]),
+                summary: `ContractRegistry: set ${action.key} to ${isAddress(action.address) ? address.address : `${address.name} (${address.address})`}`,
+            };
+        }
+        case 'parameter': {
+            const target = await resolve(action.target);
+            const value = parseParameterValue(action.value);
+            return {
+                target: target.address,
+                value: 0n,
+                calldata: IParameterizable__factory.createInterface().encodeFunctionData('updateParameter', [
+                    encodeBytes32String(action.name),
+                    value,
+                ]),
+                summary: `${target.name}.updateParameter(${action.name}, ${value})`,
+            };
+        }
+        default:
+            throw new Error(`Unknown action kind ${(action as { kind: string }).kind}`);
+    }
+}
@@ -0,0 +1,209 @@
+import { Interface, Signer } from 'ethers';
+import { D4LGovernor } from '../typechain-types';
+import { decodeError } from '../sdk';
+import { Proposal, descriptionHash } from './proposal';
+
+/** IGovernor.ProposalState, plus `Unproposed` before propose is sent. */
+export const PROPOSAL_STATES = ['Pending', 'Active', 'Canceled', 'Defeated', 'Succeeded', 'Queued', 'Expired', 'Executed'] as const;
+
+export type ProposalStateName = (typeof PROPOSAL_STATES)[number] | 'Unproposed';
+
+const FINAL_STATES: ProposalStateName[] = ['Canceled', 'Defeated', 'Expired', 'Executed'];
+
+export type VoteSupport = 'against' | 'for' | 'abstain';
+
+const SUPPORT: Record<VoteSupport, number> = { against: 0, for: 1, abstain: 2 };
+
+export type ProposalStatus = {
+    state: ProposalStateName;
+    /** Governor clock now, and the clock voting opens and closes at */
+    clock: bigint;
+    clockMode: string;
+    snapshot: bigint;
+    deadline: bigint;
+    /** Timestamp a queued proposal can be executed at; 0 when not queued */
+    eta: bigint;
+    votes: { against: bigint; for: bigint; abstain: bigint };
+    /** Votes needed at the snapshot; undefined before voting opens */
+    quorum?: bigint;
+    needsQueuing: boolean;
+};
+
+export type LifecycleOptions = {
+    /** Vote cast while the proposal is active; no vote when undefined */
+    support?: VoteSupport;
+    reason: string;
+    /** Milliseconds between rounds of run() */
+    pollInterval: number;
+};
+
+export const DEFAULT_LIFECYCLE_OPTIONS: LifecycleOptions = {
+    reason: '',
+    pollInterval: 60_000,
+};
+
+export type LifecycleStep = {
+    status: ProposalStatus;
+    /** What this round sent, if anything */
+    action?: 'proposed' | 'voted' | 'queued' | 'executed';
+    tx?: string;
+    /** Why nothing was sent */
+    waiting?: string;
+};
+
+export type LifecycleLogger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+/** Reads where a proposal stands on its governor. */
+export async function proposalStatus(governor: D4LGovernor, proposal: Proposal): Promise<ProposalStatus> {
+    const { id } = proposal;
+    const [clock, clockMode, snapshot] = await Promise.all([
+        governor.clock(),
+        governor.CLOCK_MODE(),
+        governor.proposalSnapshot(id),
+    ]);
+    const status: ProposalStatus = {
+        state: 'Unproposed',
+        clock,
+        clockMode,
+        snapshot,
+        deadline: 0n,
+        eta: 0n,
+        votes: { against: 0n, for: 0n, abstain: 0n },
+        needsQueuing: false,
+    };
+    // Unknown proposals have no snapshot; state() would revert
+    if (snapshot === 0n) return status;
+
+    const [state, deadline, eta, votes, needsQueuing] = await Promise.all([
+        governor.state(id),
+        governor.proposalDeadline(id),
+        governor.proposalEta(id),
+        governor.proposalVotes(id),
+        governor.proposalNeedsQueuing(id),
+    ]);
+    status.state = PROPOSAL_STATES[Number(state)];
+    status.deadline = deadline;
+    status.eta = eta;
+    status.votes = { against: votes.againstVotes, for: votes.forVotes, abstain: votes.abstainVotes };
+    status.needsQueuing = needsQueuing;
+    if (clock > snapshot) status.quorum = await governor.quorum(snapshot);
+    return status;
+}
+
+/**
+ * Drives a built proposal through propose, vote, queue and execute on a
+ * D4LGovernor or Degen4LifeDAO. Each round reads the proposal's state and
+ * sends the one transaction it is ready for from the connected signer:
+ * propose when the governor has not seen it, the configured vote while it
+ * is active, queue once it succeeded on a governor with a timelock, and
+ * execute when it succeeded without one or its timelock delay passed.
+ */
+export class ProposalLifecycle {
+    private readonly options: LifecycleOptions;
+    private readonly governor: D4LGovernor;
+    private readonly interfaces: Interface[];
+    private stopped = false;
+
+    constructor(
+        /** Degen4LifeDAO has the same IGovernor functions */
+        governor: D4LGovernor,
+        /** Account every transaction is sent from, and votes */
+        private readonly signer: Signer,
+        private readonly proposal: Proposal,
+        options: Partial<LifecycleOptions> = {},
+        private readonly logger: LifecycleLogger = console
+    ) {
+        this.options = { ...DEFAULT_LIFECYCLE_OPTIONS, ...options };
+        this.governor = governor.connect(signer);
+        this.interfaces = [governor.interface];
+    }
+
+    /** Sends the next transaction the proposal is ready for, if any. */
+    async runOnce(): Promise<LifecycleStep> {
+        const status = await proposalStatus(this.governor, this.proposal);
+        const { targets, values, calldatas, description } = this.proposal;
+        const value = values.reduce((sum, item) => sum + item, 0n);
+        switch (status.state) {
+            case 'Unproposed':
+                return this.send(status, 'proposed', () => this.governor.propose(targets, values, calldatas, description));
+            case 'Pending':
+                return { status, waiting: `voting opens after ${status.snapshot} (${status.clockMode})` };
+            case 'Active': {
+                if (!this.options.support) {
+                    return { status, waiting: `voting closes at ${status.deadline}; pass a vote to cast one` };
+                }
+                const voter = await this.signer.getAddress();
+                if (await this.governor.hasVoted(this.proposal.id, voter)) {
+                    return { status, waiting: `${voter} has voted; voting closes at ${status.deadline}` };
+                }
+                const support = SUPPORT[this.options.support];
+                return this.send(status, 'voted', () =>
+                    this.governor.castVoteWithReason(this.proposal.id, support, this.options.reason)
+                );
+            }
+            case 'Succeeded':
+                if (status.needsQueuing) {
+                    return this.send(status, 'queued', () =>
+                        this.governor.queue(targets, values, calldatas, descriptionHash(description))
+                    );
+                }
+                return this.send(status, 'executed', () =>
+                    this.governor.execute(targets, values, calldatas, descriptionHash(description), { value })
+                );
+            case 'Queued': {
+                const now = BigInt((await this.signer.provider!.getBlock('latest'))!.timestamp);
+                if (now < status.eta) {
+                    return { status, waiting: `executable at ${new Date(Number(status.eta) * 1000).toISOString()}` };
+                }
+                return this.send(status, 'executed', () =>
+                    this.governor.execute(targets, values, calldatas, descriptionHash(description), { value })
+                );
+            }
+            default:
+                return { status, waiting: `the proposal is ${status.state.toLowerCase()}` };
+        }
+    }
+
+    /** Runs rounds until the proposal is executed, canceled, defeated or expired, or stop() is called. */
+    async run(): Promise<ProposalStatus | undefined> {
+        this.stopped = false;
+        while (!this.stopped) {
+            try {
+                const step = await this.runOnce();
+                this.logger.log(describeStep(step));
+                if (FINAL_STATES.includes(step.status.state) && !step.action) return step.status;
+            } catch (error) {
+                this.logger.error(`Proposal round failed, retrying: ${(error as Error).message}`);
+            }
+            if (!this.stopped) {
+                await new Promise((resolve) => setTimeout(resolve, this.options.pollInterval));
+            }
+        }
+        return undefined;
+    }
+
+    stop(): void {
+        this.stopped = true;
+    }
+
+    private async send(
+        status: ProposalStatus,
+        action: NonNullable<LifecycleStep['action']>,
+        sendTx: () => Promise<{ wait(): Promise<{ hash: string } | null> }>
+    ): Promise<LifecycleStep> {
+        try {
+            const receipt = await (await sendTx()).wait();
+            return { status, action, tx: receipt!.hash };
+        } catch (error) {
+            throw decodeError(error, this.interfaces);
+        }
+    }
+}
+
+/** One line for a lifecycle round, with the state it started from. */
+export function describeStep(step: LifecycleStep): string {
+    const { state, votes } = step.status;
+    const tally = state === 'Unproposed' || state === 'Pending' ? '' : ` (for ${votes.for}, against ${votes.against}, abstain ${votes.abstain})`;
+    const outcome = step.action ? `${step.action} in ${step.tx}` : `waiting: ${step.waiting}`;
+    return `${state}${tally}: ${outcome}`;
+}
@@ -0,0 +1,108 @@
+import { promises as fs } from 'fs';
+import { AbiCoder, id, keccak256 } from 'ethers';
+import { ProposalCall } from './actions';
+
+/** Outcome of one call when a proposal's batch was run on a fork. */
+export type SimulatedCall = {
+    summary: string;
+    ok: boolean;
+    gasUsed?: bigint;
+    error?: string;
+};
+
+/** A passing or failing run of the batch, recorded in the proposal file. */
+export type Simulation = {
+    /** Network that was forked */
+    network: string;
+    block: number;
+    /** ISO time of the run */
+    at: string;
+    /** Proposal id the run was for; a proposal edited since no longer matches */
+    proposalId: bigint;
+    executor: string;
+    calls: SimulatedCall[];
+};
+
+/**
+ * A governor proposal as `gov:build` writes it. The arrays are what
+ * propose, queue and execute take; `summary` has one line per call.
+ */
+export type Proposal = {
+    governor: string;
+    chainId: bigint;
+    description: string;
+    targets: string[];
+    values: bigint[];
+    calldatas: string[];
+    summary: string[];
+    id: bigint;
+    simulation?: Simulation;
+};
+
+const BIGINT_FIELDS = new Set(['chainId', 'values', 'id', 'proposalId', 'gasUsed']);
+
+const replacer = (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value);
+const reviver = (key: string, value: unknown) => {
+    if (!BIGINT_FIELDS.has(key)) return value;
+    if (Array.isArray(value)) return value.map((item) => BigInt(item));
+    return typeof value === 'string' ? BigInt(value) : value;
+};
+
+export const descriptionHash = (description: string) => id(description);
+
+/** Governor.hashProposal: keccak256(abi.encode(targets, values, calldatas, descriptionHash)). */
+export function hashProposal(targets: string[], values: bigint[], calldatas: string[], description: string): bigint {
+    const encoded = AbiCoder.defaultAbiCoder().encode(
+        ['address[]', 'uint256[]', 'bytes[]', 'bytes32'],
+        [targets, values, calldatas, descriptionHash(description)]
+    );
+    return BigInt(keccak256(encoded));
+}
+
+/**
+ * Builds a proposal from encoded calls. The description is the title
+ * followed by the call summaries, so voters see what the calldata does.
+ */
+export function buildProposal(governor: string, chainId: bigint, title: string, calls: ProposalCall[]): Proposal {
+    if (calls.length === 0) {
+        throw new Error('A proposal needs at least one action');
+    }
+    const description = [`# ${title}`, '', ...calls.map((call) => `- ${call.summary}`)].join('\n');
+    const targets = calls.map((call) => call.target);
+    const values = calls.map((call) => call.value);
+    const calldatas = calls.map((call) => call.calldata);
+    return {
+        governor,
+        chainId,
+        description,
+        targets,
+        values,
+        calldatas,
+        summary: calls.map((call) => call.summary),
+        id: hashProposal(targets, values, calldatas, description),
+    };
+}
+
+export async function readProposal(file: string): Promise<Proposal> {
+    const proposal: Proposal = JSON.parse(await fs.readFile(file, 'utf8'), reviver);
+    const expected = hashProposal(proposal.targets, proposal.values, proposal.calldatas, proposal.description);
+    if (expected !== proposal.id) {
+        throw new Error(`${file}: the calls or description were edited after the proposal was built; rebuild it`);
+    }
+    return proposal;
+}
+
+export async function writeProposal(file: string, proposal: Proposal): Promise<void> {
+    await fs.writeFile(file, JSON.stringify(proposal, replacer, 2) + '\n');
+}
+
+/** Why a proposal may not be proposed yet, or undefined when its simulation on `network` passed. */
+export function simulationProblem(proposal: Proposal, network: string): string | undefined {
+    const { simulation } = proposal;
+    if (!simulation) return 'it was never simulated; run gov:simulate';
+    if (simulation.proposalId !== proposal.id) return 'it changed since it was simulated; run gov:simulate again';
+    if (simulation.network !== network) return `it was simulated on a fork of ${simulation.network}, not ${network}`;
+    const failed = simulation.calls.filter((call) => !call.ok).length;
+    if (failed > 0) return `${failed} call(s) failed in simulation`;
+    return undefined;
+}
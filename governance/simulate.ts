@@ -0,0 +1,74 @@
+import { ContractRunner, Interface, toBeHex } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { ContractRegistry__factory, D4LGovernor__factory, Degen4LifeDEX__factory } from '../typechain-types';
+import { decodeError } from '../sdk';
+import { Proposal, Simulation, SimulatedCall } from './proposal';
+
+// Between them these carry the AccessControl and Ownable errors most
+// governance calls fail with; `require` reasons decode without an ABI
+const DEFAULT_ERROR_INTERFACES = [ContractRegistry__factory.createInterface(), Degen4LifeDEX__factory.createInterface()];
+
+/**
+ * Address proposals execute from: the timelock of a D4LGovernor, or the
+ * governor itself for Degen4LifeDAO, which has no timelock.
+ */
+export async function proposalExecutor(governor: string, runner: ContractRunner): Promise<string> {
+    try {
+        return await D4LGovernor__factory.connect(governor, runner).timelock();
+    } catch {
+        return governor;
+    }
+}
+
+/**
+ * Runs a proposal's calls in order from its executor on a fork of
+ * `network`, the way execute would once the vote passed. Must run on the
+ * in-process hardhat network, which is reset to the fork; each call is
+ * mined so later calls see the state earlier ones left. `errorInterfaces`
+ * add to the ABIs the reverts of failing calls are decoded with.
+ */
+export async function simulateProposal(
+    hre: HardhatRuntimeEnvironment,
+    proposal: Proposal,
+    network: string,
+    errorInterfaces: Interface[] = []
+): Promise<Simulation> {
+    if (hre.network.name !== 'hardhat') {
+        throw new Error(`Simulations run on a fork in the hardhat network; run with --network hardhat, not ${hre.network.name}`);
+    }
+    const config = hre.config.networks[network];
+    if (!config || !('url' in config)) {
+        throw new Error(`Network ${network} has no RPC url to fork`);
+    }
+    await hre.network.provider.request({ method: 'hardhat_reset', params: [{ forking: { jsonRpcUrl: config.url } }] });
+    const provider = hre.ethers.provider;
+    const chainId = (await provider.getNetwork()).chainId;
+    if (chainId !== proposal.chainId) {
+        throw new Error(`The proposal is for chain ${proposal.chainId}, ${network} is chain ${chainId}`);
+    }
+
+    const executor = await proposalExecutor(proposal.governor, provider);
+    const block = await provider.getBlockNumber();
+    await hre.network.provider.request({ method: 'hardhat_impersonateAccount', params: [executor] });
+    const total = proposal.values.reduce((sum, value) => sum + value, 0n);
+    // Enough for every call's value and the gas; the fork is thrown away
+    await hre.network.provider.request({ method: 'hardhat_setBalance', params: [executor, toBeHex(total + 10n ** 20n)] });
+    const signer = await hre.ethers.getSigner(executor);
+
+    const interfaces = [...errorInterfaces, ...DEFAULT_ERROR_INTERFACES];
+    const calls: SimulatedCall[] = [];
+    for (const [index, target] of proposal.targets.entries()) {
+        const summary = proposal.summary[index];
+        try {
+            const tx = await signer.sendTransaction({ to: target, data: proposal.calldatas[index], value: proposal.values[index] });
+            const receipt = await tx.wait();
+            calls.push({ summary, ok: true, gasUsed: receipt!.gasUsed });
+        } catch (error) {
+            const decoded = decodeError(error, interfaces);
+            calls.push({ summary, ok: false, error: (decoded as Error)?.message ?? String(decoded) });
+        }
+    }
+    await hre.network.provider.request({ method: 'hardhat_stopImpersonatingAccount', params: [executor] });
+
+    return { network, block, at: new Date().toISOString(), proposalId: proposal.id, executor, calls };
+}
@@ -7,6 +7,24 @@ import "solidity-coverage";
 import "hardhat-deploy";
 import "@nomicfoundation/hardhat-foundry";
 
+// Tasks import typechain-types, and modules built on them, inside their actions: compiling generates them
+import "./tasks/preflight";
+import "./tasks/registry";
+import "./tasks/verify";
+import "./tasks/deploy";
+import "./tasks/handover";
+import "./tasks/indexer";
+import "./tasks/api";
+import "./tasks/keeper";
+import "./tasks/feeder";
+import "./tasks/resolver";
+import "./tasks/curve";
+import "./tasks/copytrade";
+import "./tasks/risk";
+import "./tasks/governance";
+import "./tasks/upgrade";
+import "./tasks/reconcile";
+
 import * as dotenv from "dotenv";
 
 dotenv.config();
@@ -49,6 +67,20 @@ const config: HardhatUserConfig = {
             11155111: process.env.FEE_COLLECTOR_ADDRESS || "",
             84532: process.env.FEE_COLLECTOR_ADDRESS || "",
             8453: process.env.FEE_COLLECTOR_ADDRESS || "",
+        },
+        multisig: {
+            default: 3,
+            1: process.env.MULTISIG_ADDRESS || "",
+            11155111: process.env.MULTISIG_ADDRESS || "",
+            84532: process.env.MULTISIG_ADDRESS || "",
+            8453: process.env.MULTISIG_ADDRESS || "",
+        },
+        timelock: {
+            default: 4,
+            1: process.env.TIMELOCK_ADDRESS || "",
+            11155111: process.env.TIMELOCK_ADDRESS || "",
+            84532: process.env.TIMELOCK_ADDRESS || "",
+            8453: process.env.TIMELOCK_ADDRESS || "",
         }
     },
     networks: {
@@ -157,7 +189,7 @@ const config: HardhatUserConfig = {
         maxMethodDiff: 10
     },
     typechain: {
-        outDir: "../typechain-types",
+        outDir: "typechain-types",
         target: "ethers-v6"
     },
     paths: {
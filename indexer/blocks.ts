@@ -0,0 +1,27 @@
+import { Provider } from 'ethers';
+
+/**
+ * Finds the first block at or after a timestamp by binary search. The last
+ * answer is kept, so searches for a moving window start only cover the
+ * blocks since.
+ */
+export class BlockFinder {
+    private last?: { timestamp: number; block: number };
+
+    constructor(private readonly provider: Provider) {}
+
+    async blockAt(timestamp: number): Promise<number> {
+        let low = this.last && this.last.timestamp <= timestamp ? this.last.block : 0;
+        let high = await this.provider.getBlockNumber();
+        while (low < high) {
+            const middle = Math.floor((low + high) / 2);
+            if ((await this.provider.getBlock(middle))!.timestamp < timestamp) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        this.last = { timestamp, block: low };
+        return low;
+    }
+}
@@ -0,0 +1,88 @@
+import Database from 'better-sqlite3';
+import { Client } from 'pg';
+
+export type SqlValue = string | number | null;
+
+/**
+ * The subset of SQL the indexer needs. Statements use `?` placeholders and
+ * only syntax shared by SQLite and Postgres (`ON CONFLICT ... DO UPDATE`,
+ * `excluded.*`), so one schema and one set of queries serves both.
+ */
+export interface SqlClient {
+    readonly dialect: 'sqlite' | 'postgres';
+    execute(sql: string, params?: SqlValue[]): Promise<void>;
+    query<T = Record<string, SqlValue>>(sql: string, params?: SqlValue[]): Promise<T[]>;
+    /** Runs `work` in a transaction, rolling back if it throws. */
+    transaction<T>(work: () => Promise<T>): Promise<T>;
+    close(): Promise<void>;
+}
+
+async function inTransaction<T>(client: SqlClient, work: () => Promise<T>): Promise<T> {
+    await client.execute('BEGIN');
+    try {
+        const result = await work();
+        await client.execute('COMMIT');
+        return result;
+    } catch (error) {
+        await client.execute('ROLLBACK');
+        throw error;
+    }
+}
+
+export function openSqlite(filename: string): SqlClient {
+    const db = new Database(filename);
+    db.pragma('journal_mode = WAL');
+
+    const client: SqlClient = {
+        dialect: 'sqlite',
+        async execute(sql, params = []) {
+            if (params.length === 0) {
+                db.exec(sql);
+            } else {
+                db.prepare(sql).run(...params);
+            }
+        },
+        async query<T>(sql: string, params: SqlValue[] = []) {
+            return db.prepare(sql).all(...params) as T[];
+        },
+        transaction: (work) => inTransaction(client, work),
+        async close() {
+            db.close();
+        },
+    };
+    return client;
+}
+
+export async function openPostgres(connectionString: string): Promise<SqlClient> {
+    // A single connection keeps BEGIN/COMMIT on the same session
+    const pg = new Client({ connectionString });
+    await pg.connect();
+
+    const numbered = (sql: string) => {
+        let index = 0;
+        return sql.replace(/\?/g, () => `$${++index}`);
+    };
+
+    const client: SqlClient = {
+        dialect: 'postgres',
+        async execute(sql, params = []) {
+            await pg.query(numbered(sql), params);
+        },
+        async query<T>(sql: string, params: SqlValue[] = []) {
+            return (await pg.query(numbered(sql), params)).rows as T[];
+        },
+        transaction: (work) => inTransaction(client, work),
+        async close() {
+            await pg.end();
+        },
+    };
+    return client;
+}
+
+/** Opens `postgres://` / `postgresql://` URLs with pg, anything else as a SQLite file. */
+export async function openDatabase(location: string): Promise<SqlClient> {
+    if (/^postgres(ql)?:\/\//.test(location)) {
+        return openPostgres(location);
+    }
+    return openSqlite(location.replace(/^sqlite:/, ''));
+}
@@ -0,0 +1,27 @@
+import { ZeroAddress } from 'ethers';
+import { SqlClient } from './db';
+
+/**
+ * Positive balances of a token's holders, keyed by lowercase address and
+ * replayed from every indexed Transfer of the token. The zero address,
+ * which mints and burns go through, is no holder. Undefined when the token
+ * has no indexed transfers: it is not tracked, which is not the same as
+ * having no holders.
+ */
+export async function holderBalances(db: SqlClient, token: string): Promise<Map<string, bigint> | undefined> {
+    const transfers = await db.query<{ from_address: string; to_address: string; value: string }>(
+        'SELECT from_address, to_address, value FROM transfers WHERE address = ?',
+        [token.toLowerCase()]
+    );
+    if (transfers.length === 0) return undefined;
+    const balances = new Map<string, bigint>();
+    for (const { from_address, to_address, value } of transfers) {
+        balances.set(from_address, (balances.get(from_address) ?? 0n) - BigInt(value));
+        balances.set(to_address, (balances.get(to_address) ?? 0n) + BigInt(value));
+    }
+    balances.delete(ZeroAddress);
+    for (const [holder, balance] of balances) {
+        if (balance <= 0n) balances.delete(holder);
+    }
+    return balances;
+}
@@ -0,0 +1,206 @@
+import { Log, Provider } from 'ethers';
+import { BoundSource, EventRow } from './sources';
+import { EventStore, IndexedBlock } from './store';
+
+export type IndexerOptions = {
+    /** First block to index when the store has no cursor yet */
+    startBlock: number;
+    /** Blocks kept between the chain head and the indexed range */
+    confirmations: number;
+    /** Most blocks fetched per getLogs call */
+    batchSize: number;
+    /** How far back a reorg is detected and rolled back */
+    reorgDepth: number;
+    /** Milliseconds between polls once caught up */
+    pollInterval: number;
+};
+
+export const DEFAULT_INDEXER_OPTIONS: IndexerOptions = {
+    startBlock: 0,
+    confirmations: 5,
+    batchSize: 2000,
+    reorgDepth: 64,
+    pollInterval: 5000,
+};
+
+export type BatchResult = {
+    fromBlock: number;
+    toBlock: number;
+    events: number;
+    /** First block rolled back by a reorg before this batch, if any */
+    reorgedFrom?: number;
+};
+
+export type IndexerLogger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+/** The chain reorganised further back than the indexer keeps block hashes. */
+export class ReorgTooDeepError extends Error {
+    constructor(readonly oldestChecked: number) {
+        super(`Every indexed block back to ${oldestChecked} was reorganised; re-index from an earlier block`);
+        this.name = 'ReorgTooDeepError';
+    }
+}
+
+/** The chain changed between fetching logs and their blocks; the batch is retried. */
+class InconsistentBatchError extends Error {}
+
+/**
+ * Copies the events of the bound sources into an EventStore, a batch of
+ * blocks at a time. The hash of every block that produced rows, and of the
+ * last block of each batch, is kept for `reorgDepth` blocks; when one no
+ * longer matches the chain, everything from the fork point on is deleted
+ * and indexed again.
+ */
+export class EventIndexer {
+    private readonly options: IndexerOptions;
+    private readonly byAddress: Map<string, BoundSource>;
+    private stopped = false;
+
+    constructor(
+        private readonly provider: Provider,
+        private readonly store: EventStore,
+        sources: BoundSource[],
+        options: Partial<IndexerOptions> = {},
+        private readonly logger: IndexerLogger = console
+    ) {
+        this.options = { ...DEFAULT_INDEXER_OPTIONS, ...options };
+        this.byAddress = new Map(sources.map((source) => [source.address, source]));
+    }
+
+    /** Indexes the next batch; returns undefined when already at the confirmed head. */
+    async runOnce(): Promise<BatchResult | undefined> {
+        const reorgedFrom = await this.handleReorg();
+        const head = await this.provider.getBlockNumber();
+        const safeHead = head - this.options.confirmations;
+        const cursor = (await this.store.cursor()) ?? this.options.startBlock - 1;
+        const fromBlock = cursor + 1;
+        const toBlock = Math.min(safeHead, fromBlock + this.options.batchSize - 1);
+        if (fromBlock > toBlock) {
+            return undefined;
+        }
+
+        const logs = await this.provider.getLogs({
+            address: [...this.byAddress.keys()],
+            topics: [[...new Set([...this.byAddress.values()].flatMap((source) => [...source.byTopic.keys()]))]],
+            fromBlock,
+            toBlock,
+        });
+        const blocks = await this.blockHashes(logs, toBlock);
+
+        let events = 0;
+        await this.store.db.transaction(async () => {
+            for (const log of logs) {
+                const decoded = this.decode(log);
+                if (!decoded) continue;
+                await this.store.insert(decoded.table, decoded.rows);
+                events++;
+            }
+            await this.store.recordBlocks(blocks);
+            await this.store.setCursor(toBlock);
+            await this.store.prune(toBlock - this.options.reorgDepth);
+        });
+        return { fromBlock, toBlock, events, reorgedFrom };
+    }
+
+    /** Polls until stop() is called. RPC errors are logged and retried. */
+    async run(): Promise<void> {
+        this.stopped = false;
+        while (!this.stopped) {
+            let caughtUp = true;
+            try {
+                const result = await this.runOnce();
+                if (result) {
+                    if (result.reorgedFrom !== undefined) {
+                        this.logger.warn(`Reorg detected; re-indexing from block ${result.reorgedFrom}`);
+                    }
+                    this.logger.log(`Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.events} event(s)`);
+                    caughtUp = result.toBlock - result.fromBlock + 1 < this.options.batchSize;
+                }
+            } catch (error) {
+                if (error instanceof ReorgTooDeepError) throw error;
+                if (!(error instanceof InconsistentBatchError)) {
+                    this.logger.error(`Indexing failed, retrying: ${(error as Error).message}`);
+                }
+            }
+            if (caughtUp && !this.stopped) {
+                await new Promise((resolve) => setTimeout(resolve, this.options.pollInterval));
+            }
+        }
+    }
+
+    stop(): void {
+        this.stopped = true;
+    }
+
+    /**
+     * Compares the stored block hashes with the chain, newest first, and
+     * rolls back to the newest block that still matches.
+     */
+    private async handleReorg(): Promise<number | undefined> {
+        const cursor = await this.store.cursor();
+        if (cursor === undefined) return undefined;
+        const windowStart = cursor - this.options.reorgDepth;
+        const recent = await this.store.recentBlocks(windowStart);
+        let firstMismatch: number | undefined;
+        for (const stored of recent) {
+            const block = await this.provider.getBlock(stored.number);
+            if (block?.hash === stored.hash) break;
+            firstMismatch = stored.number;
+        }
+        if (firstMismatch === undefined) return undefined;
+
+        // Blocks between the last match and the first mismatch had no rows but may have been replaced too
+        const lastMatch = recent.find((stored) => stored.number < firstMismatch!);
+        let rollbackFrom: number;
+        if (lastMatch) {
+            rollbackFrom = lastMatch.number + 1;
+        } else if (windowStart < this.options.startBlock) {
+            // The window reaches back to the start, so nothing older can be stale
+            rollbackFrom = this.options.startBlock;
+        } else {
+            throw new ReorgTooDeepError(firstMismatch);
+        }
+        await this.store.db.transaction(() => this.store.rollback(rollbackFrom));
+        return rollbackFrom;
+    }
+
+    /**
+     * Hashes of the blocks the logs came from plus `toBlock`. Throws when a
+     * log's block hash no longer matches, i.e. a reorg happened mid-batch.
+     */
+    private async blockHashes(logs: readonly Log[], toBlock: number): Promise<IndexedBlock[]> {
+        const expected = new Map<number, string>();
+        for (const log of logs) {
+            expected.set(log.blockNumber, log.blockHash);
+        }
+        const blocks: IndexedBlock[] = [];
+        for (const number of new Set([...expected.keys(), toBlock])) {
+            const block = await this.provider.getBlock(number);
+            const hash = expected.get(number);
+            if (!block?.hash || (hash !== undefined && hash !== block.hash)) {
+                throw new InconsistentBatchError(`Block ${number} changed while its logs were fetched`);
+            }
+            blocks.push({ number, hash: block.hash });
+        }
+        return blocks;
+    }
+
+    private decode(log: Log): { table: string; rows: EventRow[] } | undefined {
+        if (log.removed) return undefined;
+        const source = this.byAddress.get(log.address.toLowerCase());
+        const event = source?.byTopic.get(log.topics[0]);
+        if (!source || !event) return undefined;
+        const args = source.iface.decodeEventLog(event.fragment, log.data, log.topics);
+        const rows = event.spec.rows(args).map((row, item) => ({
+            contract: source.name,
+            address: source.address,
+            block_number: log.blockNumber,
+            block_hash: log.blockHash,
+            tx_hash: log.transactionHash,
+            log_index: log.index,
+            item_index: item,
+            ...row,
+        }));
+        return { table: event.spec.table, rows };
+    }
+}
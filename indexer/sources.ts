@@ -0,0 +1,315 @@
+import { EventFragment, Interface, Result } from 'ethers';
+import { RegistryKey, RegistryKeys } from '../utils/registry';
+import { SqlValue } from './db';
+
+export type ColumnType = 'TEXT' | 'INTEGER' | 'BIGINT';
+
+/** Event-specific columns; every table also gets the columns in LOG_COLUMNS. */
+export type TableSpec = {
+    name: string;
+    columns: Record<string, ColumnType>;
+};
+
+export type EventRow = Record<string, SqlValue>;
+
+export type EventSpec = {
+    table: string;
+    /** Human-readable ABI fragment */
+    signature: string;
+    /** One row per event, or one per array element for batch events */
+    rows(args: Result): EventRow[];
+};
+
+/**
+ * A contract whose events are indexed. The address comes from the registry
+ * when `registryKey` is set, otherwise from the hardhat-deploy deployment.
+ */
+export type EventSource = {
+    name: string;
+    registryKey?: RegistryKey;
+    deployment: string;
+    events: EventSpec[];
+};
+
+/** Columns shared by every event table; (tx_hash, log_index, item_index) is the key. */
+export const LOG_COLUMNS: Record<string, ColumnType> = {
+    contract: 'TEXT',
+    address: 'TEXT',
+    block_number: 'BIGINT',
+    block_hash: 'TEXT',
+    tx_hash: 'TEXT',
+    log_index: 'INTEGER',
+    item_index: 'INTEGER',
+};
+
+// uint256 values are stored as decimal TEXT: neither SQLite nor Postgres BIGINT holds them
+const uint = (value: bigint) => value.toString();
+const flag = (value: boolean) => (value ? 1 : 0);
+const address = (value: string) => value.toLowerCase();
+
+export const TABLES: TableSpec[] = [
+    {
+        name: 'order_created',
+        columns: { order_id: 'TEXT', maker: 'TEXT', token_in: 'TEXT', token_out: 'TEXT', amount_in: 'TEXT', amount_out: 'TEXT' },
+    },
+    { name: 'order_filled', columns: { order_id: 'TEXT', taker: 'TEXT', fill_amount: 'TEXT' } },
+    { name: 'order_cancelled', columns: { order_id: 'TEXT' } },
+    { name: 'order_expired', columns: { order_id: 'TEXT' } },
+    {
+        // PredictionMarket fills description; BonkWars fills the threshold and timing columns
+        name: 'markets_created',
+        columns: {
+            market_id: 'TEXT',
+            token: 'TEXT',
+            description: 'TEXT',
+            threshold: 'TEXT',
+            start_time: 'TEXT',
+            end_time: 'TEXT',
+            market_type: 'INTEGER',
+        },
+    },
+    { name: 'positions_taken', columns: { market_id: 'TEXT', account: 'TEXT', is_yes: 'INTEGER', amount: 'TEXT' } },
+    { name: 'markets_resolved', columns: { market_id: 'TEXT', outcome: 'INTEGER', total_yes: 'TEXT', total_no: 'TEXT' } },
+    { name: 'names_registered', columns: { name_hash: 'TEXT', owner: 'TEXT', expiry_time: 'TEXT' } },
+    { name: 'names_renewed', columns: { name_hash: 'TEXT', new_expiry_time: 'TEXT' } },
+    {
+        name: 'coverage_purchased',
+        columns: { coverage_id: 'TEXT', holder: 'TEXT', coverage_type: 'INTEGER', amount: 'TEXT' },
+    },
+    { name: 'claims_submitted', columns: { claim_id: 'TEXT', coverage_id: 'TEXT', amount: 'TEXT' } },
+    { name: 'launches_created', columns: { token: 'TEXT', creator: 'TEXT', price: 'TEXT' } },
+    // BatchPumpAction is split into one row per pumper, numbered by item_index
+    { name: 'batch_pumps', columns: { token: 'TEXT', pumper: 'TEXT', amount: 'TEXT' } },
+    {
+        name: 'swaps',
+        columns: { account: 'TEXT', token_in: 'TEXT', token_out: 'TEXT', amount_in: 'TEXT', amount_out: 'TEXT', fee: 'TEXT' },
+    },
+    // The token is the row's `address`
+    { name: 'transfers', columns: { from_address: 'TEXT', to_address: 'TEXT', value: 'TEXT' } },
+];
+
+export const SOURCES: EventSource[] = [
+    {
+        name: 'OrderBookModule',
+        registryKey: RegistryKeys.ORDER_BOOK_MODULE,
+        deployment: 'OrderBookModule',
+        events: [
+            {
+                table: 'order_created',
+                signature:
+                    'event OrderCreated(bytes32 indexed orderId, address indexed maker, address tokenIn, address tokenOut, uint256 amountIn, uint256 amountOut)',
+                rows: (args) => [
+                    {
+                        order_id: args.orderId,
+                        maker: address(args.maker),
+                        token_in: address(args.tokenIn),
+                        token_out: address(args.tokenOut),
+                        amount_in: uint(args.amountIn),
+                        amount_out: uint(args.amountOut),
+                    },
+                ],
+            },
+            {
+                table: 'order_filled',
+                signature: 'event OrderFilled(bytes32 indexed orderId, address indexed taker, uint256 fillAmount)',
+                rows: (args) => [
+                    { order_id: args.orderId, taker: address(args.taker), fill_amount: uint(args.fillAmount) },
+                ],
+            },
+            {
+                table: 'order_cancelled',
+                signature: 'event OrderCancelled(bytes32 indexed orderId)',
+                rows: (args) => [{ order_id: args.orderId }],
+            },
+            {
+                table: 'order_expired',
+                signature: 'event OrderExpired(bytes32 indexed orderId)',
+                rows: (args) => [{ order_id: args.orderId }],
+            },
+        ],
+    },
+    {
+        name: 'Degen4LifeDEX',
+        registryKey: RegistryKeys.DEX,
+        deployment: 'Degen4LifeDEX',
+        events: [
+            {
+                table: 'swaps',
+                signature:
+                    'event Swap(address indexed user, address indexed tokenIn, address indexed tokenOut, uint256 amountIn, uint256 amountOut, uint256 fee)',
+                rows: (args) => [
+                    {
+                        account: address(args.user),
+                        token_in: address(args.tokenIn),
+                        token_out: address(args.tokenOut),
+                        amount_in: uint(args.amountIn),
+                        amount_out: uint(args.amountOut),
+                        fee: uint(args.fee),
+                    },
+                ],
+            },
+        ],
+    },
+    {
+        name: 'PredictionMarket',
+        registryKey: RegistryKeys.PREDICTION_MARKET,
+        deployment: 'PredictionMarket',
+        events: [
+            {
+                table: 'markets_created',
+                signature: 'event MarketCreated(bytes32 indexed marketId, address indexed token, string description)',
+                rows: (args) => [{ market_id: args.marketId, token: address(args.token), description: args.description }],
+            },
+            {
+                table: 'positions_taken',
+                signature: 'event PositionTaken(bytes32 indexed marketId, address indexed user, bool isYes, uint256 amount)',
+                rows: (args) => [
+                    { market_id: args.marketId, account: address(args.user), is_yes: flag(args.isYes), amount: uint(args.amount) },
+                ],
+            },
+            {
+                table: 'markets_resolved',
+                signature: 'event MarketResolved(bytes32 indexed marketId, bool outcome)',
+                rows: (args) => [{ market_id: args.marketId, outcome: flag(args.outcome) }],
+            },
+        ],
+    },
+    {
+        name: 'BonkWars',
+        deployment: 'BonkWars',
+        events: [
+            {
+                table: 'markets_created',
+                signature:
+                    'event MarketCreated(bytes32 indexed marketId, address indexed token, uint256 threshold, uint256 startTime, uint256 endTime, uint8 marketType)',
+                rows: (args) => [
+                    {
+                        market_id: args.marketId,
+                        token: address(args.token),
+                        threshold: uint(args.threshold),
+                        start_time: uint(args.startTime),
+                        end_time: uint(args.endTime),
+                        market_type: Number(args.marketType),
+                    },
+                ],
+            },
+            {
+                table: 'positions_taken',
+                signature: 'event PositionTaken(bytes32 indexed marketId, address indexed user, uint256 amount, bool isYes)',
+                rows: (args) => [
+                    { market_id: args.marketId, account: address(args.user), is_yes: flag(args.isYes), amount: uint(args.amount) },
+                ],
+            },
+            {
+                table: 'markets_resolved',
+                // BonkWars encodes a YES outcome as bytes32(uint256(1))
+                signature: 'event MarketResolved(bytes32 indexed marketId, bytes32 outcome, uint256 totalYes, uint256 totalNo)',
+                rows: (args) => [
+                    {
+                        market_id: args.marketId,
+                        outcome: flag(BigInt(args.outcome) === 1n),
+                        total_yes: uint(args.totalYes),
+                        total_no: uint(args.totalNo),
+                    },
+                ],
+            },
+        ],
+    },
+    {
+        name: 'DegenENS',
+        registryKey: RegistryKeys.ENS,
+        deployment: 'DegenENS',
+        events: [
+            {
+                table: 'names_registered',
+                signature: 'event NameRegistered(bytes32 indexed nameHash, address indexed owner, uint256 expiryTime)',
+                rows: (args) => [{ name_hash: args.nameHash, owner: address(args.owner), expiry_time: uint(args.expiryTime) }],
+            },
+            {
+                table: 'names_renewed',
+                signature: 'event NameRenewed(bytes32 indexed nameHash, uint256 newExpiryTime)',
+                rows: (args) => [{ name_hash: args.nameHash, new_expiry_time: uint(args.newExpiryTime) }],
+            },
+        ],
+    },
+    {
+        name: 'InsuranceModule',
+        registryKey: RegistryKeys.INSURANCE_MODULE,
+        deployment: 'InsuranceModule',
+        events: [
+            {
+                table: 'coverage_purchased',
+                signature:
+                    'event CoveragePurchased(uint256 indexed coverageId, address indexed holder, uint8 coverageType, uint256 amount)',
+                rows: (args) => [
+                    {
+                        coverage_id: uint(args.coverageId),
+                        holder: address(args.holder),
+                        coverage_type: Number(args.coverageType),
+                        amount: uint(args.amount),
+                    },
+                ],
+            },
+            {
+                table: 'claims_submitted',
+                signature: 'event ClaimSubmitted(uint256 indexed claimId, uint256 indexed coverageId, uint256 amount)',
+                rows: (args) => [
+                    { claim_id: uint(args.claimId), coverage_id: uint(args.coverageId), amount: uint(args.amount) },
+                ],
+            },
+        ],
+    },
+    {
+        name: 'LaunchpadAPI',
+        deployment: 'LaunchpadAPI',
+        events: [
+            {
+                table: 'launches_created',
+                signature: 'event LaunchCreated(address indexed token, address indexed creator, uint96 price)',
+                rows: (args) => [{ token: address(args.token), creator: address(args.creator), price: uint(args.price) }],
+            },
+            {
+                table: 'batch_pumps',
+                signature: 'event BatchPumpAction(address indexed token, address[] pumpers, uint96[] amounts)',
+                rows: (args) =>
+                    (args.pumpers as string[]).map((pumper, index) => ({
+                        token: address(args.token),
+                        pumper: address(pumper),
+                        amount: uint(args.amounts[index]),
+                    })),
+            },
+        ],
+    },
+];
+
+/**
+ * Transfers of launched tokens. Tokens are not deployed by this repo, so the
+ * source is bound once per address passed to `indexer:run --tokens`.
+ */
+export const TOKEN_SOURCE: Pick<EventSource, 'name' | 'events'> = {
+    name: 'ERC20',
+    events: [
+        {
+            table: 'transfers',
+            signature: 'event Transfer(address indexed from, address indexed to, uint256 value)',
+            rows: (args) => [{ from_address: address(args.from), to_address: address(args.to), value: uint(args.value) }],
+        },
+    ],
+};
+
+/** A source bound to its deployed address, with every event keyed by topic0. */
+export type BoundSource = Pick<EventSource, 'name' | 'events'> & {
+    address: string;
+    iface: Interface;
+    byTopic: Map<string, { fragment: EventFragment; spec: EventSpec }>;
+};
+
+export function bindSource(source: Pick<EventSource, 'name' | 'events'>, deployedAt: string): BoundSource {
+    const iface = new Interface(source.events.map((event) => event.signature));
+    const byTopic = new Map<string, { fragment: EventFragment; spec: EventSpec }>();
+    for (const spec of source.events) {
+        const fragment = EventFragment.from(spec.signature);
+        byTopic.set(fragment.topicHash, { fragment, spec });
+    }
+    return { ...source, address: address(deployedAt), iface, byTopic };
+}
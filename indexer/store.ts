@@ -0,0 +1,93 @@
+import { SqlClient, SqlValue } from './db';
+import { EventRow, LOG_COLUMNS, TABLES } from './sources';
+
+export type IndexedBlock = { number: number; hash: string };
+
+const CURSOR_KEY = 'cursor';
+
+/**
+ * Persists decoded events, the hashes of indexed blocks (for reorg checks)
+ * and the last indexed block. Everything a batch writes goes through one
+ * transaction, so a crash never leaves the cursor ahead of the rows.
+ */
+export class EventStore {
+    constructor(readonly db: SqlClient) {}
+
+    async migrate(): Promise<void> {
+        await this.db.execute(
+            'CREATE TABLE IF NOT EXISTS indexer_state (key TEXT PRIMARY KEY, value TEXT NOT NULL)'
+        );
+        await this.db.execute(
+            'CREATE TABLE IF NOT EXISTS indexed_blocks (block_number BIGINT PRIMARY KEY, block_hash TEXT NOT NULL)'
+        );
+        for (const table of TABLES) {
+            const columns = Object.entries({ ...LOG_COLUMNS, ...table.columns })
+                .map(([name, type]) => `${name} ${type}`)
+                .join(', ');
+            await this.db.execute(
+                `CREATE TABLE IF NOT EXISTS ${table.name} (${columns}, PRIMARY KEY (tx_hash, log_index, item_index))`
+            );
+            await this.db.execute(
+                `CREATE INDEX IF NOT EXISTS ${table.name}_block_number ON ${table.name} (block_number)`
+            );
+        }
+    }
+
+    /** Last indexed block, or undefined before the first run. */
+    async cursor(): Promise<number | undefined> {
+        const [row] = await this.db.query<{ value: string }>('SELECT value FROM indexer_state WHERE key = ?', [
+            CURSOR_KEY,
+        ]);
+        return row ? Number(row.value) : undefined;
+    }
+
+    async setCursor(block: number): Promise<void> {
+        await this.db.execute(
+            'INSERT INTO indexer_state (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value',
+            [CURSOR_KEY, String(block)]
+        );
+    }
+
+    /** Inserts rows; replaying a range that was already written is a no-op. */
+    async insert(table: string, rows: EventRow[]): Promise<void> {
+        for (const row of rows) {
+            const columns = Object.keys(row);
+            await this.db.execute(
+                `INSERT INTO ${table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')}) ON CONFLICT DO NOTHING`,
+                columns.map((column) => row[column] as SqlValue)
+            );
+        }
+    }
+
+    async recordBlocks(blocks: IndexedBlock[]): Promise<void> {
+        for (const block of blocks) {
+            await this.db.execute(
+                'INSERT INTO indexed_blocks (block_number, block_hash) VALUES (?, ?) ON CONFLICT (block_number) DO UPDATE SET block_hash = excluded.block_hash',
+                [block.number, block.hash]
+            );
+        }
+    }
+
+    /** Indexed block hashes at or above `fromBlock`, newest first. */
+    async recentBlocks(fromBlock: number): Promise<IndexedBlock[]> {
+        const rows = await this.db.query<{ block_number: SqlValue; block_hash: string }>(
+            'SELECT block_number, block_hash FROM indexed_blocks WHERE block_number >= ? ORDER BY block_number DESC',
+            [fromBlock]
+        );
+        return rows.map((row) => ({ number: Number(row.block_number), hash: row.block_hash }));
+    }
+
+    /** Drops block hashes older than `beforeBlock`; they are past the reorg window. */
+    async prune(beforeBlock: number): Promise<void> {
+        await this.db.execute('DELETE FROM indexed_blocks WHERE block_number < ?', [beforeBlock]);
+    }
+
+    /** Removes everything indexed from `fromBlock` on and moves the cursor back before it. */
+    async rollback(fromBlock: number): Promise<void> {
+        for (const table of TABLES) {
+            await this.db.execute(`DELETE FROM ${table.name} WHERE block_number >= ?`, [fromBlock]);
+        }
+        await this.db.execute('DELETE FROM indexed_blocks WHERE block_number >= ?', [fromBlock]);
+        await this.setCursor(fromBlock - 1);
+    }
+}
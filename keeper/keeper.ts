@@ -0,0 +1,321 @@
+import { ContractRunner, MaxUint256, Provider, Signer } from 'ethers';
+import { Degen4LifeDEX, IERC20__factory, OrderBookModule } from '../typechain-types';
+import { decodeError } from '../sdk';
+import { OpenOrder, OrderTracker } from './orders';
+import { OrderPricer, Quote } from './pricing';
+
+const BPS = 10_000n;
+
+export type KeeperOptions = {
+    /** Most orders filled in one fillOrders transaction */
+    maxBatch: number;
+    /** Gas a fillOrders transaction needs besides its fills */
+    batchOverheadGas: bigint;
+    /** Below the DEX quote the swap back may execute, in bps */
+    swapSlippageBps: bigint;
+    /** Expire orders older than the OrderBookModule's orderExpiry */
+    expire: boolean;
+    /** Most expireOrder transactions sent per round */
+    maxExpiriesPerRound: number;
+    /** Blocks behind the head the order events are read up to */
+    confirmations: number;
+    /** Milliseconds between rounds */
+    pollInterval: number;
+    /** Dry-run fills and expiries with eth_call instead of sending them */
+    simulate: boolean;
+};
+
+export const DEFAULT_KEEPER_OPTIONS: KeeperOptions = {
+    maxBatch: 10,
+    batchOverheadGas: 50_000n,
+    swapSlippageBps: 50n,
+    expire: true,
+    maxExpiriesPerRound: 5,
+    confirmations: 2,
+    pollInterval: 15_000,
+    simulate: false,
+};
+
+export type RoundReport = {
+    block: number;
+    open: number;
+    quotes: Quote[];
+    /** Orders filled, or that would be filled when simulating */
+    filled: string[];
+    expired: string[];
+    transactions: string[];
+};
+
+export type KeeperLogger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+/** A node that takes JSON-RPC calls, for the snapshots a simulation approves on. */
+type DevNode = Provider & { send(method: string, params: unknown[]): Promise<unknown> };
+
+type Approval = { token: string; spender: string };
+
+/**
+ * Fills OrderBookModule limit orders that are profitable to take and sells
+ * what they pay out on Degen4LifeDEX. Each round syncs the order events,
+ * prices every open order, and fills the most profitable ones in a single
+ * fillOrders call, trimmed until its gas estimate fits the gas the quotes
+ * were priced with. Orders past the module's orderExpiry are expired.
+ *
+ * `account` is who the keeper acts as. Simulation only needs its address,
+ * so any funded account can be dry-run on a fork; sending needs a Signer.
+ * Fills pull tokenOut from the account, so its approvals are sent before
+ * the batch is estimated; a simulation sends the missing ones on a node
+ * snapshot that it reverts afterwards.
+ */
+export class LimitOrderKeeper {
+    private readonly approved = new Set<string>();
+    private stopped = false;
+
+    constructor(
+        private readonly provider: Provider,
+        private readonly account: ContractRunner & { getAddress(): Promise<string> },
+        private readonly orderBook: OrderBookModule,
+        private readonly dex: Degen4LifeDEX,
+        private readonly tracker: OrderTracker,
+        private readonly pricer: OrderPricer,
+        private readonly options: KeeperOptions = DEFAULT_KEEPER_OPTIONS,
+        private readonly logger: KeeperLogger = console
+    ) {}
+
+    async runOnce(): Promise<RoundReport> {
+        const block = await this.provider.getBlockNumber();
+        await this.tracker.sync(Math.max(0, block - this.options.confirmations));
+        const open = await this.tracker.refresh();
+        const report: RoundReport = { block, open: open.length, quotes: [], filled: [], expired: [], transactions: [] };
+
+        const stale = await this.staleOrders(open, block);
+        const staleIds = new Set(stale.map((order) => order.id));
+        const { gasPrice } = await this.provider.getFeeData();
+        for (const order of open.filter((order) => !staleIds.has(order.id))) {
+            try {
+                report.quotes.push(await this.pricer.quote(order, gasPrice ?? 0n));
+            } catch (error) {
+                this.logger.warn(`Cannot price order ${order.id}: ${this.describe(error)}`);
+            }
+        }
+
+        const candidates = report.quotes
+            .filter((quote) => !quote.skip)
+            .sort((a, b) => (b.netProfit > a.netProfit ? 1 : b.netProfit < a.netProfit ? -1 : 0))
+            .slice(0, this.options.maxBatch);
+        if (candidates.length > 0) {
+            await this.withApprovals(candidates, async () => {
+                const batch = await this.fitBatch(candidates);
+                if (batch.length > 0) await this.fill(batch, report);
+            });
+        }
+        if (this.options.expire) {
+            await this.expire(stale.slice(0, this.options.maxExpiriesPerRound), report);
+        }
+        return report;
+    }
+
+    /** Runs rounds until stop() is called. Failed rounds are logged and retried. */
+    async run(): Promise<void> {
+        this.stopped = false;
+        while (!this.stopped) {
+            try {
+                const report = await this.runOnce();
+                const profitable = report.quotes.filter((quote) => !quote.skip).length;
+                this.logger.log(
+                    `Block ${report.block}: ${report.open} open, ${profitable} profitable, ` +
+                        `${report.filled.length} ${this.options.simulate ? 'fillable' : 'filled'}, ${report.expired.length} expired`
+                );
+            } catch (error) {
+                this.logger.error(`Keeper round failed, retrying: ${this.describe(error)}`);
+            }
+            if (!this.stopped) {
+                await new Promise((resolve) => setTimeout(resolve, this.options.pollInterval));
+            }
+        }
+    }
+
+    stop(): void {
+        this.stopped = true;
+    }
+
+    private async staleOrders(open: OpenOrder[], block: number): Promise<OpenOrder[]> {
+        const expiry = await this.orderBook.orderExpiry();
+        if (expiry === 0n) return [];
+        const now = BigInt((await this.provider.getBlock(block))!.timestamp);
+        return open.filter((order) => order.timestamp + expiry < now);
+    }
+
+    /**
+     * Drops the least profitable orders until the batch's gas estimate is
+     * within what the quotes budgeted for it.
+     */
+    private async fitBatch(quotes: Quote[]): Promise<Quote[]> {
+        const from = await this.account.getAddress();
+        const gasPerFill = this.pricer.options.gasPerFill;
+        for (let batch = quotes; batch.length > 0; batch = batch.slice(0, -1)) {
+            const ids = batch.map((quote) => quote.order.id);
+            try {
+                const estimate = await this.orderBook.fillOrders.estimateGas(ids, { from });
+                const budget = this.options.batchOverheadGas + gasPerFill * BigInt(batch.length);
+                if (estimate <= budget) return batch;
+                this.logger.warn(`fillOrders of ${batch.length} order(s) needs ${estimate} gas, budgeted ${budget}`);
+            } catch (error) {
+                this.logger.warn(`fillOrders of ${batch.length} order(s) would revert: ${this.describe(error)}`);
+            }
+        }
+        return [];
+    }
+
+    private async fill(batch: Quote[], report: RoundReport): Promise<void> {
+        const ids = batch.map((quote) => quote.order.id);
+        const from = await this.account.getAddress();
+
+        if (this.options.simulate) {
+            const filled = await this.orderBook.fillOrders.staticCall(ids, { from });
+            report.filled.push(...ids.slice(0, Number(filled)));
+            for (const quote of batch) {
+                this.logger.log(
+                    `[simulate] fill ${quote.order.id}: pay ${quote.order.amountOut} ${quote.order.tokenOut}, ` +
+                        `sell ${quote.order.amountIn} ${quote.order.tokenIn} for ~${quote.proceeds}, net ${quote.netProfit}`
+                );
+            }
+            return;
+        }
+
+        const signer = this.signer();
+        const receipt = await (await this.orderBook.connect(signer).fillOrders(ids)).wait();
+        report.transactions.push(receipt!.hash);
+
+        const filledIds = new Set(
+            receipt!.logs
+                .map((log) => this.orderBook.interface.parseLog(log))
+                .filter((event) => event?.name === 'OrderFilled')
+                .map((event) => event!.args.orderId as string)
+        );
+        const filled = batch.filter((quote) => filledIds.has(quote.order.id));
+        report.filled.push(...filled.map((quote) => quote.order.id));
+        this.tracker.forget(ids);
+        await this.sellProceeds(filled, signer, report);
+    }
+
+    /** Swaps each pair's received tokenIn back into tokenOut, never below what the fills paid. */
+    private async sellProceeds(filled: Quote[], signer: Signer, report: RoundReport): Promise<void> {
+        const pairs = new Map<string, { tokenIn: string; tokenOut: string; amountIn: bigint; paid: bigint; quoted: bigint }>();
+        for (const { order, proceeds } of filled) {
+            const key = `${order.tokenIn}:${order.tokenOut}`;
+            const pair = pairs.get(key) ?? { tokenIn: order.tokenIn, tokenOut: order.tokenOut, amountIn: 0n, paid: 0n, quoted: 0n };
+            pair.amountIn += order.amountIn;
+            pair.paid += order.amountOut;
+            pair.quoted += proceeds;
+            pairs.set(key, pair);
+        }
+
+        const to = await signer.getAddress();
+        const deadline = BigInt((await this.provider.getBlock('latest'))!.timestamp) + 300n;
+        for (const pair of pairs.values()) {
+            const slipped = (pair.quoted * (BPS - this.options.swapSlippageBps)) / BPS;
+            const minAmountOut = slipped > pair.paid ? slipped : pair.paid;
+            try {
+                const tx = await this.dex.connect(signer).swapExactTokensForTokens(pair.tokenIn, pair.tokenOut, pair.amountIn, minAmountOut, to, deadline);
+                report.transactions.push((await tx.wait())!.hash);
+            } catch (error) {
+                // The tokens stay with the keeper; they are sold once a later swap succeeds
+                this.logger.error(`Selling ${pair.amountIn} ${pair.tokenIn} failed: ${this.describe(error)}`);
+            }
+        }
+    }
+
+    private async expire(stale: OpenOrder[], report: RoundReport): Promise<void> {
+        const from = await this.account.getAddress();
+        for (const order of stale) {
+            try {
+                if (this.options.simulate) {
+                    await this.orderBook.expireOrder.staticCall(order.id, { from });
+                    this.logger.log(`[simulate] expire ${order.id}`);
+                } else {
+                    const receipt = await (await this.orderBook.connect(this.signer()).expireOrder(order.id)).wait();
+                    report.transactions.push(receipt!.hash);
+                    this.tracker.forget([order.id]);
+                }
+                report.expired.push(order.id);
+            } catch (error) {
+                this.logger.warn(`Cannot expire ${order.id}: ${this.describe(error)}`);
+            }
+        }
+    }
+
+    /**
+     * Runs `work` once the account has approved what filling `quotes` pulls
+     * from it: tokenOut to the OrderBookModule, and tokenIn to the DEX that
+     * sells it. When simulating, missing approvals are sent as the account on
+     * an evm_snapshot of a hardhat or anvil node, reverted after `work`.
+     */
+    private async withApprovals(quotes: Quote[], work: () => Promise<void>): Promise<void> {
+        const [orderBook, dex] = await Promise.all([this.orderBook.getAddress(), this.dex.getAddress()]);
+        const needed = new Map<string, Approval>();
+        for (const { order } of quotes) {
+            for (const approval of [{ token: order.tokenOut, spender: orderBook }, { token: order.tokenIn, spender: dex }]) {
+                needed.set(`${approval.token}:${approval.spender}`.toLowerCase(), approval);
+            }
+        }
+
+        if (!this.options.simulate) {
+            const signer = this.signer();
+            for (const { token, spender } of needed.values()) await this.approve(token, spender, signer);
+            return work();
+        }
+
+        const from = await this.account.getAddress();
+        const missing: Approval[] = [];
+        for (const approval of needed.values()) {
+            if (!(await this.isApproved(approval.token, approval.spender, from))) missing.push(approval);
+        }
+        if (missing.length === 0) return work();
+
+        const node = this.provider as DevNode;
+        if (typeof node.send !== 'function') {
+            throw new Error(`${from} has not approved the tokens fills pull from it; simulate on a hardhat or anvil fork`);
+        }
+        const snapshot = await node.send('evm_snapshot', []);
+        try {
+            await node.send('hardhat_impersonateAccount', [from]);
+            for (const { token, spender } of missing) {
+                const data = IERC20__factory.createInterface().encodeFunctionData('approve', [spender, MaxUint256]);
+                const hash = (await node.send('eth_sendTransaction', [{ from, to: token, data }])) as string;
+                while (!(await this.provider.getTransactionReceipt(hash))) {
+                    await new Promise((resolve) => setTimeout(resolve, 500));
+                }
+            }
+            await work();
+        } finally {
+            await node.send('evm_revert', [snapshot]);
+            await node.send('hardhat_stopImpersonatingAccount', [from]);
+        }
+    }
+
+    private async approve(token: string, spender: string, signer: Signer): Promise<void> {
+        const key = `${token}:${spender}`.toLowerCase();
+        if (this.approved.has(key)) return;
+        // Unlimited, so each token and spender is approved once
+        if (!(await this.isApproved(token, spender, await signer.getAddress()))) {
+            await (await IERC20__factory.connect(token, signer).approve(spender, MaxUint256)).wait();
+        }
+        this.approved.add(key);
+    }
+
+    private async isApproved(token: string, spender: string, owner: string): Promise<boolean> {
+        return (await IERC20__factory.connect(token, this.provider).allowance(owner, spender)) >= MaxUint256 / 2n;
+    }
+
+    private signer(): Signer {
+        if (typeof (this.account as Signer).sendTransaction !== 'function') {
+            throw new Error('The keeper account cannot sign; run with --simulate or configure a signer');
+        }
+        return this.account as Signer;
+    }
+
+    private describe(error: unknown): string {
+        const decoded = decodeError(error, [this.orderBook.interface, this.dex.interface]);
+        return (decoded as Error)?.message ?? String(decoded);
+    }
+}
@@ -0,0 +1,81 @@
+import { ZeroAddress } from 'ethers';
+import { OrderBookModule } from '../typechain-types';
+
+export enum OrderStatus {
+    OPEN = 0,
+    FILLED = 1,
+    CANCELLED = 2,
+}
+
+export type OpenOrder = {
+    id: string;
+    maker: string;
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: bigint;
+    amountOut: bigint;
+    /** Creation time, unix seconds */
+    timestamp: bigint;
+};
+
+/**
+ * Follows OrderCreated/OrderFilled/OrderCancelled/OrderExpired to know which
+ * orders may still be open. Orders matched at creation emit no event of their
+ * own, and a reorg can undo any of these, so `refresh` re-reads every tracked
+ * order with getOrder before the keeper acts on it.
+ */
+export class OrderTracker {
+    private readonly orders = new Map<string, OpenOrder>();
+    private syncedTo: number;
+
+    constructor(private readonly orderBook: OrderBookModule, fromBlock: number, private readonly batchSize = 2000) {
+        this.syncedTo = fromBlock - 1;
+    }
+
+    get size(): number {
+        return this.orders.size;
+    }
+
+    /** Applies the order events up to `toBlock`. */
+    async sync(toBlock: number): Promise<void> {
+        const { filters } = this.orderBook;
+        while (this.syncedTo < toBlock) {
+            const from = this.syncedTo + 1;
+            const to = Math.min(toBlock, from + this.batchSize - 1);
+            const [created, filled, cancelled, expired] = await Promise.all([
+                this.orderBook.queryFilter(filters.OrderCreated(), from, to),
+                this.orderBook.queryFilter(filters.OrderFilled(), from, to),
+                this.orderBook.queryFilter(filters.OrderCancelled(), from, to),
+                this.orderBook.queryFilter(filters.OrderExpired(), from, to),
+            ]);
+            for (const event of created) {
+                const { orderId, maker, tokenIn, tokenOut, amountIn, amountOut } = event.args;
+                // The creation time is taken from getOrder in refresh
+                this.orders.set(orderId, { id: orderId, maker, tokenIn, tokenOut, amountIn, amountOut, timestamp: 0n });
+            }
+            for (const event of [...filled, ...cancelled, ...expired]) {
+                this.orders.delete(event.args.orderId);
+            }
+            this.syncedTo = to;
+        }
+    }
+
+    /** Re-reads the tracked orders and forgets those that are no longer open. */
+    async refresh(): Promise<OpenOrder[]> {
+        const open: OpenOrder[] = [];
+        for (const order of [...this.orders.values()]) {
+            const onChain = await this.orderBook.getOrder(order.id);
+            // A reorged-out order reads back as an empty struct, whose status is OPEN
+            if (onChain.maker === ZeroAddress || Number(onChain.status) !== OrderStatus.OPEN) {
+                this.orders.delete(order.id);
+                continue;
+            }
+            open.push({ ...order, timestamp: onChain.timestamp });
+        }
+        return open;
+    }
+
+    forget(orderIds: string[]): void {
+        for (const id of orderIds) this.orders.delete(id);
+    }
+}
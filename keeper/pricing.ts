@@ -0,0 +1,104 @@
+import { Contract, ContractRunner } from 'ethers';
+import { Degen4LifeDEX, IPriceOracle } from '../typechain-types';
+import { OpenOrder } from './orders';
+
+const BPS = 10_000n;
+
+export type PricingOptions = {
+    /** Gas one fill adds to a fillOrders batch */
+    gasPerFill: bigint;
+    /** Gas of the swap that sells the tokenIn a fill receives */
+    gasPerSwap: bigint;
+    /** Profit kept on top of gas, in bps of the amountOut paid */
+    minProfitBps: bigint;
+    /** Largest gap between the DEX quote and the PriceOracle value before an order is skipped */
+    maxOracleDeviationBps: bigint;
+};
+
+export const DEFAULT_PRICING_OPTIONS: PricingOptions = {
+    // A first fill writes the order, its book copy and four token balances
+    gasPerFill: 160_000n,
+    gasPerSwap: 160_000n,
+    minProfitBps: 20n,
+    maxOracleDeviationBps: 300n,
+};
+
+export type Quote = {
+    order: OpenOrder;
+    /** tokenOut the DEX pays for the order's amountIn */
+    proceeds: bigint;
+    /** proceeds minus amountOut, before gas */
+    grossProfit: bigint;
+    /** Gas of filling and swapping back, priced in tokenOut */
+    gasCost: bigint;
+    netProfit: bigint;
+    /** Why the order is not worth filling; undefined when it is */
+    skip?: string;
+};
+
+/**
+ * Values orders the way a taker sees them: the keeper pays amountOut of
+ * tokenOut and sells the amountIn of tokenIn it receives on Degen4LifeDEX.
+ * The DEX quote is checked against the PriceOracle so a manipulated pool
+ * cannot lure the keeper into a losing fill, and gas is converted into
+ * tokenOut through the oracle's USD prices.
+ */
+export class OrderPricer {
+    private readonly decimals = new Map<string, bigint>();
+
+    constructor(
+        private readonly dex: Degen4LifeDEX,
+        private readonly oracle: IPriceOracle,
+        private readonly weth: string,
+        private readonly runner: ContractRunner,
+        readonly options: PricingOptions = DEFAULT_PRICING_OPTIONS
+    ) {}
+
+    async quote(order: OpenOrder, gasPrice: bigint): Promise<Quote> {
+        const proceeds = await this.dex.getAmountOut(order.tokenIn, order.tokenOut, order.amountIn);
+        const grossProfit = proceeds - order.amountOut;
+        const gasCost = await this.gasCostIn(order.tokenOut, (this.options.gasPerFill + this.options.gasPerSwap) * gasPrice);
+        const netProfit = grossProfit - gasCost - (order.amountOut * this.options.minProfitBps) / BPS;
+        const quote: Quote = { order, proceeds, grossProfit, gasCost, netProfit };
+
+        const fair = await this.oracleValue(order.tokenIn, order.tokenOut, order.amountIn);
+        const deviation = fair === 0n ? BPS : ((proceeds > fair ? proceeds - fair : fair - proceeds) * BPS) / fair;
+        if (deviation > this.options.maxOracleDeviationBps) {
+            return { ...quote, skip: `DEX quote is ${deviation} bps away from the PriceOracle` };
+        }
+        if (netProfit <= 0n) {
+            return { ...quote, skip: 'not profitable after gas' };
+        }
+        return quote;
+    }
+
+    /** `weiAmount` of ETH expressed in `token`. */
+    async gasCostIn(token: string, weiAmount: bigint): Promise<bigint> {
+        if (token.toLowerCase() === this.weth.toLowerCase()) return weiAmount;
+        return this.oracleValue(this.weth, token, weiAmount);
+    }
+
+    /** `amount` of `from` in units of `to`, from the oracle's 1e18 USD prices. */
+    private async oracleValue(from: string, to: string, amount: bigint): Promise<bigint> {
+        const [fromPrice, toPrice, fromDecimals, toDecimals] = await Promise.all([
+            this.oracle.getPrice(from),
+            this.oracle.getPrice(to),
+            this.tokenDecimals(from),
+            this.tokenDecimals(to),
+        ]);
+        if (toPrice === 0n) return 0n;
+        // Prices are USD per whole token, scaled by 1e18, so the scale cancels out
+        return (amount * fromPrice * 10n ** toDecimals) / (toPrice * 10n ** fromDecimals);
+    }
+
+    private async tokenDecimals(token: string): Promise<bigint> {
+        const key = token.toLowerCase();
+        let decimals = this.decimals.get(key);
+        if (decimals === undefined) {
+            const erc20 = new Contract(token, ['function decimals() view returns (uint8)'], this.runner);
+            decimals = BigInt(await erc20.decimals());
+            this.decimals.set(key, decimals);
+        }
+        return decimals;
+    }
+}
@@ -0,0 +1,165 @@
+import { NetworkConfig } from '../config';
+import { DeploymentManifest, account, ref } from '../utils/deploy/manifest';
+import { RegistryKeys } from '../utils/registry';
+
+const deployer = account('deployer');
+const registry = ref('ContractRegistry');
+
+// dex, ens and predictionMarket are deployed by later tags and the rest of the
+// placeholders outside the manifest; the finalize tag replaces them
+export const coreSystemAddresses = {
+    tokenFactory: ref('TokenFactory'),
+    poolController: ref('Degen4LifeController'),
+    feeHandler: deployer,
+    userProfile: ref('NFTFeatures'),
+    antiBot: ref('AntiBot'),
+    antiRugPull: ref('AntiRugPull'),
+    governance: deployer,
+    hydraCurve: ref('HydraCurve'),
+    socialOracle: deployer,
+    dao: deployer,
+    dex: deployer,
+    ens: deployer,
+    predictionMarket: deployer
+};
+
+export function createCoreManifest(config: NetworkConfig): DeploymentManifest {
+    return [
+        {
+            name: 'WETH9',
+            contract: 'contracts/tokens/WETH9.sol:WETH9',
+            tag: 'core',
+            proxy: 'none',
+            registryKeys: [RegistryKeys.WETH],
+        },
+        {
+            name: 'ContractRegistry',
+            contract: 'contracts/registry/ContractRegistry.sol:ContractRegistry',
+            tag: 'core',
+            proxy: 'none',
+        },
+        {
+            name: 'HydraCurve',
+            contract: 'contracts/curve/HydraCurve.sol:HydraCurve',
+            tag: 'core',
+            proxy: 'transparent',
+            initializer: { method: 'initialize', args: [deployer] },
+            registryKeys: [RegistryKeys.HYDRA_CURVE],
+        },
+        {
+            name: 'TokenomicsRules',
+            contract: 'contracts/tokenomics/tokenomics.sol:TokenomicsRules',
+            tag: 'core',
+            proxy: 'transparent',
+            initializer: { method: 'initialize', args: [deployer] },
+            registryKeys: [RegistryKeys.TOKENOMICS],
+        },
+        {
+            name: 'TokenFactory',
+            contract: 'contracts/factory/TokenFactory.sol:TokenFactory',
+            tag: 'core',
+            proxy: 'transparent',
+            args: [ref('WETH9')],
+            initializer: { method: 'initialize', args: [deployer] },
+            registryKeys: [RegistryKeys.TOKEN_FACTORY],
+            calls: [
+                { method: 'setTokenImplementation', args: [ref('UserToken')] },
+                { method: 'setPoolController', args: [ref('Degen4LifeController')] },
+            ],
+        },
+        {
+            name: 'UserToken',
+            contract: 'contracts/tokens/UserToken.sol:UserToken',
+            tag: 'core',
+            proxy: 'none',
+            registryKeys: [RegistryKeys.USER_TOKEN_IMPL],
+        },
+        {
+            name: 'Degen4LifeController',
+            contract: 'contracts/Degen4LifeController.sol:Degen4LifeController',
+            tag: 'core',
+            proxy: 'transparent',
+            owner: 'core',
+            initializer: { method: 'initialize', args: [registry] },
+            registryKeys: [RegistryKeys.POOL_CONTROLLER, RegistryKeys.CONTROLLER],
+            calls: [
+                {
+                    method: 'setSystemAddresses',
+                    args: [coreSystemAddresses],
+                },
+            ],
+        },
+        {
+            name: 'LiquidityModule',
+            contract: 'contracts/modules/LiquidityModule.sol:LiquidityModule',
+            tag: 'core',
+            proxy: 'transparent',
+            owner: 'core',
+            initializer: { method: 'initialize', args: [registry, ref('WETH9')] },
+            registryKeys: [RegistryKeys.LIQUIDITY_MODULE],
+        },
+        {
+            name: 'D4LSocialModule',
+            contract: 'contracts/modules/D4LSocialModule.sol:D4LSocialModule',
+            tag: 'core',
+            proxy: 'transparent',
+            initializer: { method: 'initialize', args: [registry] },
+            registryKeys: [RegistryKeys.SOCIAL_MODULE],
+        },
+        {
+            name: 'SocialTradingModule',
+            contract: 'contracts/modules/SocialTradingModule.sol:SocialTradingModule',
+            tag: 'core',
+            proxy: 'transparent',
+            initializer: { method: 'initialize', args: [registry] },
+            registryKeys: [RegistryKeys.SOCIAL_TRADING_MODULE],
+        },
+        {
+            name: 'VersionController',
+            contract: 'contracts/VersionController.sol:VersionController',
+            tag: 'core',
+            proxy: 'none',
+            registryKeys: [RegistryKeys.VERSION_CONTROLLER],
+        },
+        {
+            name: 'AchievementNFT',
+            contract: 'contracts/social/AchievementNFT.sol:AchievementNFT',
+            tag: 'core',
+            proxy: 'none',
+            args: ['Degen4Life Achievement', 'D4LA', config.achievementBaseUri, deployer],
+        },
+        {
+            name: 'BadgeNFT',
+            contract: 'contracts/social/BadgeNFT.sol:BadgeNFT',
+            tag: 'core',
+            proxy: 'none',
+            args: [config.badgeBaseUri, deployer],
+        },
+        {
+            name: 'NFTFeatures',
+            contract: 'contracts/social/NFTFeatures.sol:NFTFeatures',
+            tag: 'core',
+            proxy: 'transparent',
+            initializer: { method: 'initialize', args: [ref('AchievementNFT'), ref('BadgeNFT')] },
+            registryKeys: [RegistryKeys.NFT_FEATURES, RegistryKeys.USER_PROFILE],
+        },
+        {
+            name: 'AntiBot',
+            contract: 'contracts/security/AntiBot.sol:AntiBot',
+            tag: 'core',
+            proxy: 'none',
+            owner: 'core',
+            registryKeys: [RegistryKeys.ANTI_BOT],
+            calls: [{ method: 'enableTrading', args: [] }],
+        },
+        {
+            name: 'AntiRugPull',
+            contract: 'contracts/security/AntiRugPull.sol:AntiRugPull',
+            tag: 'core',
+            proxy: 'none',
+            owner: 'core',
+            registryKeys: [RegistryKeys.ANTI_RUGPULL],
+            calls: [{ method: 'enableProtection', args: [ref('TokenFactory')] }],
+        },
+    ];
+}
@@ -0,0 +1,58 @@
+import { NetworkConfig } from '../config';
+import { DeploymentManifest, ref } from '../utils/deploy/manifest';
+import { RegistryKeys } from '../utils/registry';
+
+const registry = ref('ContractRegistry');
+const weth = ref('WETH9');
+
+export function createDexManifest(config: NetworkConfig): DeploymentManifest {
+    const { stablecoins } = config;
+
+    return [
+        {
+            name: 'PriceOracle',
+            contract: 'contracts/dex/PriceOracle.sol:PriceOracle',
+            tag: 'dex',
+            proxy: 'transparent',
+            initializer: {
+                method: 'initialize',
+                args: [
+                    registry,
+                    [weth, ...stablecoins.map((token) => token.address)],
+                    // WETH is priced with the ETH/USD feed
+                    [config.ethUsdFeed, ...stablecoins.map((token) => token.priceFeed)]
+                ],
+            },
+            registryKeys: [RegistryKeys.PRICE_ORACLE],
+        },
+        {
+            name: 'LiquidityPool',
+            contract: 'contracts/dex/LiquidityPool.sol:LiquidityPool',
+            tag: 'dex',
+            proxy: 'transparent',
+            initializer: { method: 'initialize', args: [registry, weth] },
+            registryKeys: [RegistryKeys.LIQUIDITY_POOL],
+        },
+        {
+            name: 'LiquidityModule',
+            contract: 'contracts/modules/LiquidityModule.sol:LiquidityModule',
+            tag: 'dex',
+            proxy: 'transparent',
+            owner: 'core',
+            initializer: { method: 'initialize', args: [registry, weth] },
+            registryKeys: [RegistryKeys.LIQUIDITY_MODULE],
+        },
+        {
+            name: 'Degen4LifeDEX',
+            contract: 'contracts/dex/Degen4LifeDEX.sol:Degen4LifeDEX',
+            tag: 'dex',
+            proxy: 'transparent',
+            initializer: { method: 'initialize', args: [registry, weth] },
+            registryKeys: [RegistryKeys.DEX],
+            calls: [
+                { method: 'setPriceOracle', args: [ref('PriceOracle')] },
+                ...stablecoins.map((token) => ({ method: 'setAcceptedToken', args: [token.address, true] })),
+            ],
+        },
+    ];
+}
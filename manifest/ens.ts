@@ -0,0 +1,18 @@
+import { NetworkConfig } from '../config';
+import { DeploymentManifest, ref } from '../utils/deploy/manifest';
+import { RegistryKeys } from '../utils/registry';
+
+const registry = ref('ContractRegistry');
+
+export function createEnsManifest(_config: NetworkConfig): DeploymentManifest {
+    return [
+        {
+            name: 'DegenENS',
+            contract: 'contracts/naming/DegenENS.sol:DegenENS',
+            tag: 'ens',
+            proxy: 'none',
+            args: [registry],
+            registryKeys: [RegistryKeys.ENS],
+        },
+    ];
+}
@@ -0,0 +1,51 @@
+import { NetworkConfig } from '../config';
+import { ContractEntry, DeploymentManifest, ref } from '../utils/deploy/manifest';
+import { RegistryKeys } from '../utils/registry';
+import { createCoreManifest, coreSystemAddresses } from './core';
+
+export function createFinalizeManifest(config: NetworkConfig): DeploymentManifest {
+    const controller = createCoreManifest(config)
+        .find((entry) => entry.name === 'Degen4LifeController') as ContractEntry;
+    const dex = ref('Degen4LifeDEX');
+    const ens = ref('DegenENS');
+    const predictionMarket = ref('PredictionMarket');
+    const systemAddresses = { ...coreSystemAddresses, ...config.systemAddresses, dex, ens, predictionMarket };
+
+    return [
+        {
+            name: controller.name,
+            contract: controller.contract,
+            tag: 'finalize',
+            proxy: controller.proxy,
+            owner: 'core',
+            initializer: controller.initializer,
+            // Contracts look these up in the registry; the rest of the system
+            // addresses are manifest entries registered under their own keys
+            registryAddresses: {
+                [RegistryKeys.FEE_HANDLER]: systemAddresses.feeHandler,
+                [RegistryKeys.DAO]: systemAddresses.dao,
+                [RegistryKeys.SOCIAL_ORACLE]: systemAddresses.socialOracle,
+            },
+            calls: [
+                // Outside chainId 31337 the controller accepts this call once, so it
+                // waits for the DEX, ENS and prediction market instead of placeholders
+                {
+                    method: 'initializeModules',
+                    args: [
+                        ref('AntiBot'),
+                        ref('LiquidityModule'),
+                        ref('D4LSocialModule'),
+                        ref('SocialTradingModule'),
+                        dex,
+                        ens,
+                        predictionMarket
+                    ],
+                },
+                {
+                    method: 'setSystemAddresses',
+                    args: [systemAddresses],
+                },
+            ],
+        },
+    ];
+}
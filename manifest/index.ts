@@ -0,0 +1,28 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { resolveNetworkConfig } from '../config';
+import { DeploymentManifest } from '../utils/deploy/manifest';
+import { createMocksManifest } from './mocks';
+import { createCoreManifest } from './core';
+import { createDexManifest } from './dex';
+import { createEnsManifest } from './ens';
+import { createPredictionManifest } from './prediction';
+import { createModulesManifest } from './modules';
+import { createFinalizeManifest } from './finalize';
+
+/**
+ * Builds the manifest for the network hardhat is connected to. Token
+ * addresses, price feeds and parameters come from config/networks.ts, which
+ * must have an entry for the network's chainId.
+ */
+export function getManifest(hre: HardhatRuntimeEnvironment): DeploymentManifest {
+    const config = resolveNetworkConfig(hre);
+    return [
+        ...createMocksManifest(config),
+        ...createCoreManifest(config),
+        ...createDexManifest(config),
+        ...createEnsManifest(config),
+        ...createPredictionManifest(config),
+        ...createModulesManifest(config),
+        ...createFinalizeManifest(config),
+    ];
+}
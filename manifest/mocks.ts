@@ -0,0 +1,46 @@
+import { ethers } from 'ethers';
+import { NetworkConfig } from '../config';
+import { ContractEntry, DeploymentManifest, account } from '../utils/deploy/manifest';
+
+const deployer = account('deployer');
+
+const FEED_DECIMALS = 8;
+const STABLECOIN_DECIMALS = 6;
+
+function mockFeed(name: string, description: string, answer: string): ContractEntry {
+    return {
+        name,
+        contract: 'contracts/mocks/MockAggregatorV3.sol:MockAggregatorV3',
+        tag: 'mocks',
+        proxy: 'none',
+        args: [FEED_DECIMALS, description, ethers.parseUnits(answer, FEED_DECIMALS)],
+    };
+}
+
+function mockStablecoin(name: string, tokenName: string, symbol: string): ContractEntry {
+    return {
+        name,
+        contract: 'contracts/test/mocks/MockERC20.sol:MockERC20',
+        tag: 'mocks',
+        proxy: 'none',
+        args: [tokenName, symbol, STABLECOIN_DECIMALS],
+        calls: [{ method: 'mint', args: [deployer, ethers.parseUnits('1000000', STABLECOIN_DECIMALS)] }],
+    };
+}
+
+/**
+ * Stand-ins for the Chainlink feeds and stablecoins referenced by the local
+ * network config. Answers can be changed with `setAnswer` on each feed.
+ */
+export function createMocksManifest(config: NetworkConfig): DeploymentManifest {
+    if (!config.mocks) {
+        return [];
+    }
+    return [
+        mockFeed('MockEthUsdFeed', 'ETH / USD', '3000'),
+        mockFeed('MockUsdtUsdFeed', 'USDT / USD', '1'),
+        mockFeed('MockUsdcUsdFeed', 'USDC / USD', '1'),
+        mockStablecoin('MockUSDT', 'Tether USD', 'USDT'),
+        mockStablecoin('MockUSDC', 'USD Coin', 'USDC'),
+    ];
+}
@@ -0,0 +1,27 @@
+import { NetworkConfig } from '../config';
+import { DeploymentManifest, ref } from '../utils/deploy/manifest';
+import { RegistryKeys } from '../utils/registry';
+
+const registry = ref('ContractRegistry');
+
+export function createModulesManifest(config: NetworkConfig): DeploymentManifest {
+    return [
+        {
+            name: 'OrderBookModule',
+            contract: 'contracts/modules/OrderBookModule.sol:OrderBookModule',
+            tag: 'modules',
+            proxy: 'transparent',
+            initializer: { method: 'initialize', args: [registry] },
+            registryKeys: [RegistryKeys.ORDER_BOOK_MODULE],
+            calls: [{ method: 'setOrderExpiry', args: [config.parameters.orderBook.orderExpiry] }],
+        },
+        {
+            name: 'InsuranceModule',
+            contract: 'contracts/modules/InsuranceModule.sol:InsuranceModule',
+            tag: 'modules',
+            proxy: 'transparent',
+            initializer: { method: 'initialize', args: [registry] },
+            registryKeys: [RegistryKeys.INSURANCE_MODULE],
+        },
+    ];
+}
@@ -0,0 +1,18 @@
+import { NetworkConfig } from '../config';
+import { DeploymentManifest, ref } from '../utils/deploy/manifest';
+import { RegistryKeys } from '../utils/registry';
+
+const registry = ref('ContractRegistry');
+
+export function createPredictionManifest(_config: NetworkConfig): DeploymentManifest {
+    return [
+        {
+            name: 'PredictionMarket',
+            contract: 'contracts/prediction/PredictionMarket.sol:PredictionMarket',
+            tag: 'prediction-market',
+            proxy: 'none',
+            args: [registry],
+            registryKeys: [RegistryKeys.PREDICTION_MARKET],
+        },
+    ];
+}
@@ -0,0 +1,202 @@
+import { ZeroAddress } from 'ethers';
+import { formatCsv } from '../utils/table';
+
+export type FeeSource = 'FeeHandler' | 'MultisigFeeHandler' | 'AutomatedDistributor' | 'TokenomicsRules';
+
+/** Shares of a tax amount, in the order TokenomicsRules calculates them. */
+export const TAX_SHARES = ['community', 'team', 'dexLiquidity', 'treasuryInitiative', 'marketing', 'cexLiquidity'] as const;
+
+export type TaxShare = (typeof TAX_SHARES)[number];
+
+/** Where a share of a flow should go and how much of it. */
+export type ExpectedLeg = {
+    /** A tax share, or `treasuryMultisig` for MultisigFeeHandler's single transfer */
+    share: TaxShare | 'treasuryMultisig';
+    /** Undefined when the contract has no wallet for the share */
+    recipient?: string;
+    amount: bigint;
+    /** What the flow's event says was paid for the share */
+    reported?: bigint;
+};
+
+/**
+ * One fee movement: an event of a fee contract with the split it should
+ * have had and, unless it only records a split, what moved in its call.
+ */
+export type FeeFlow = {
+    source: FeeSource;
+    /** Function that emitted the event */
+    method: string;
+    contract: string;
+    blockNumber: number;
+    txHash: string;
+    logIndex: number;
+    /** Token moved; the zero address for ETH, undefined for flows that only record a split */
+    asset?: string;
+    amount: bigint;
+    expected: ExpectedLeg[];
+    /** Value the contract took in for the flow; undefined when nothing moves */
+    received?: bigint;
+    /** Value paid out per recipient, lowercase */
+    paid?: Record<string, bigint>;
+};
+
+/**
+ * One recipient of a flow. Shares paid to the same wallet are compared
+ * together; `unexpected` is a payment to a wallet no share names and
+ * `retained` what stays in the contract.
+ */
+export type ReconciliationLine = {
+    source: FeeSource;
+    method: string;
+    contract: string;
+    blockNumber: number;
+    txHash: string;
+    logIndex: number;
+    asset?: string;
+    amount: bigint;
+    recipient?: string;
+    shares: string[];
+    expected: bigint;
+    reported?: bigint;
+    actual?: bigint;
+};
+
+export type SourceSummary = {
+    flows: number;
+    discrepancies: number;
+    /** Flow amounts per asset, `none` for record-only flows */
+    amounts: Record<string, bigint>;
+};
+
+export type ReconciliationReport = {
+    network: string;
+    chainId: bigint;
+    fromBlock: number;
+    toBlock: number;
+    generatedAt: string;
+    sources: Partial<Record<FeeSource, SourceSummary>>;
+    /** Discrepancies, or every line when the report was asked for all */
+    lines: ReconciliationLine[];
+};
+
+const sum = (values: bigint[]) => values.reduce((total, value) => total + value, 0n);
+
+/** True when the payment or the event's figure differs from the expected amount. */
+export const isDiscrepancy = (line: ReconciliationLine) =>
+    (line.actual !== undefined && line.actual !== line.expected) ||
+    (line.reported !== undefined && line.reported !== line.expected);
+
+/** Splits a flow into one line per recipient, plus unexpected payments and the retained remainder. */
+export function compareFlow(flow: FeeFlow): ReconciliationLine[] {
+    const { expected, paid, received } = flow;
+    const line = (fields: Pick<ReconciliationLine, 'recipient' | 'shares' | 'expected' | 'reported' | 'actual'>) => ({
+        source: flow.source,
+        method: flow.method,
+        contract: flow.contract,
+        blockNumber: flow.blockNumber,
+        txHash: flow.txHash,
+        logIndex: flow.logIndex,
+        asset: flow.asset,
+        amount: flow.amount,
+        ...fields,
+    });
+
+    const byRecipient = new Map<string, ExpectedLeg[]>();
+    for (const leg of expected) {
+        // Shares without a wallet are compared on their own, as nothing can match them
+        const key = leg.recipient?.toLowerCase() ?? `unassigned:${leg.share}`;
+        byRecipient.set(key, [...(byRecipient.get(key) ?? []), leg]);
+    }
+    const lines: ReconciliationLine[] = [...byRecipient.entries()].map(([key, legs]) => {
+        const reported = legs.every((leg) => leg.reported === undefined) ? undefined : sum(legs.map((leg) => leg.reported ?? 0n));
+        return line({
+            recipient: legs[0].recipient,
+            shares: legs.map((leg) => leg.share),
+            expected: sum(legs.map((leg) => leg.amount)),
+            reported,
+            actual: paid ? paid[key] ?? 0n : undefined,
+        });
+    });
+    if (!paid || received === undefined) return lines;
+
+    for (const [recipient, amount] of Object.entries(paid)) {
+        if (!byRecipient.has(recipient)) {
+            lines.push(line({ recipient, shares: ['unexpected'], expected: 0n, actual: amount }));
+        }
+    }
+    const expectedRetained = flow.amount - sum(expected.map((leg) => leg.amount));
+    const actualRetained = received - sum(Object.values(paid));
+    if (expectedRetained !== 0n || actualRetained !== 0n) {
+        lines.push(line({ recipient: flow.contract, shares: ['retained'], expected: expectedRetained, actual: actualRetained }));
+    }
+    return lines;
+}
+
+/** Compares every flow and counts them per source. */
+export function reconcileFlows(
+    flows: FeeFlow[],
+    range: Pick<ReconciliationReport, 'network' | 'chainId' | 'fromBlock' | 'toBlock'>,
+    includeMatches = false
+): ReconciliationReport {
+    const sources: ReconciliationReport['sources'] = {};
+    const lines: ReconciliationLine[] = [];
+    for (const flow of flows) {
+        const summary = (sources[flow.source] ??= { flows: 0, discrepancies: 0, amounts: {} });
+        summary.flows += 1;
+        const asset = flow.asset ?? 'none';
+        summary.amounts[asset] = (summary.amounts[asset] ?? 0n) + flow.amount;
+        for (const line of compareFlow(flow)) {
+            const discrepancy = isDiscrepancy(line);
+            if (discrepancy) summary.discrepancies += 1;
+            if (discrepancy || includeMatches) lines.push(line);
+        }
+    }
+    return { ...range, generatedAt: new Date().toISOString(), sources, lines };
+}
+
+// uint256 values are written as decimal strings, like the indexer stores them
+const replacer = (_key: string, value: unknown) => (typeof value === 'bigint' ? value.toString() : value);
+
+export const reportToJson = (report: ReconciliationReport) => JSON.stringify(report, replacer, 2) + '\n';
+
+const CSV_HEADERS = [
+    'block_number',
+    'tx_hash',
+    'log_index',
+    'source',
+    'method',
+    'contract',
+    'asset',
+    'amount',
+    'recipient',
+    'shares',
+    'expected',
+    'reported',
+    'actual',
+    'difference',
+];
+
+/** One row per line; `difference` is the payment, or the event's figure for record-only flows, minus the expected amount. */
+export function reportToCsv(report: ReconciliationReport): string {
+    const rows = report.lines.map((line) => {
+        const observed = line.actual ?? line.reported;
+        return [
+            String(line.blockNumber),
+            line.txHash,
+            String(line.logIndex),
+            line.source,
+            line.method,
+            line.contract,
+            line.asset === ZeroAddress ? 'ETH' : line.asset ?? '',
+            line.amount.toString(),
+            line.recipient ?? '',
+            line.shares.join('+'),
+            line.expected.toString(),
+            line.reported?.toString() ?? '',
+            line.actual?.toString() ?? '',
+            observed === undefined ? '' : (observed - line.expected).toString(),
+        ];
+    });
+    return formatCsv(CSV_HEADERS, rows);
+}
@@ -0,0 +1,318 @@
+import { Log, Provider, TransactionReceipt, ZeroAddress } from 'ethers';
+import { AutomatedDistributor, FeeHandler, IERC20__factory, MultisigFeeHandler, TokenomicsRules } from '../typechain-types';
+import { ExpectedLeg, FeeFlow, TAX_SHARES, TaxShare } from './flows';
+
+/** The contracts fees are reconciled across; TokenomicsRules is always needed for the expected splits. */
+export type FeeContracts = {
+    tokenomics: TokenomicsRules;
+    feeHandler?: FeeHandler;
+    multisigFeeHandler?: MultisigFeeHandler;
+    distributor?: AutomatedDistributor;
+};
+
+export type FeeReconcilerOptions = {
+    /** Most blocks fetched per getLogs call */
+    batchSize: number;
+    /** Where FeeHandler's DEX liquidity share should go; by default its treasury wallet, which FeeHandler pays it to */
+    dexLiquidityWallet?: string;
+};
+
+export const DEFAULT_FEE_RECONCILER_OPTIONS: FeeReconcilerOptions = {
+    batchSize: 2000,
+};
+
+/** Needs `debug_traceTransaction` with the callTracer for ETH flows, and archive state for wallet lookups. */
+export type TraceProvider = Provider & { send(method: string, params: any[]): Promise<any> };
+
+/** A frame of geth's callTracer output. */
+type CallFrame = {
+    type: string;
+    from: string;
+    to?: string;
+    value?: string;
+    input: string;
+    error?: string;
+    calls?: CallFrame[];
+};
+
+type Movement = Required<Pick<FeeFlow, 'received' | 'paid'>>;
+
+type Wallets = Partial<Record<TaxShare, string>>;
+
+const TRANSFER = IERC20__factory.createInterface();
+const TRANSFER_TOPIC = TRANSFER.getEvent('Transfer')!.topicHash;
+
+/**
+ * Replays the fee events of a block range into flows: the split each
+ * should have had according to TokenomicsRules' calculate functions at the
+ * event's block, to the wallets the emitting contract had configured then,
+ * and what was actually paid in the call that emitted it.
+ *
+ * ETH payments are read from a callTracer trace of the transaction, from
+ * the calls the fee contract made inside the call that emitted the event.
+ * Token payments are the Transfer logs of the token between the event and
+ * the contract's previous fee event in the transaction.
+ */
+export class FeeReconciler {
+    private readonly options: FeeReconcilerOptions;
+    private readonly receipts = new Map<string, Promise<TransactionReceipt>>();
+    private readonly traces = new Map<string, Promise<CallFrame>>();
+    private readonly wallets = new Map<string, Promise<Wallets>>();
+
+    constructor(
+        private readonly contracts: FeeContracts,
+        private readonly provider: TraceProvider,
+        options: Partial<FeeReconcilerOptions> = {}
+    ) {
+        this.options = { ...DEFAULT_FEE_RECONCILER_OPTIONS, ...options };
+    }
+
+    /** Every fee flow between the two blocks, inclusive, in chain order. */
+    async flows(fromBlock: number, toBlock: number): Promise<FeeFlow[]> {
+        const { tokenomics, feeHandler, multisigFeeHandler, distributor } = this.contracts;
+        const flows: FeeFlow[] = [];
+        // Calls of the same function in one transaction are matched to its events in order
+        const occurrences = new Map<string, number>();
+        const occurrence = (log: Log, method: string) => {
+            const key = `${log.transactionHash}:${log.address}:${method}`;
+            const index = occurrences.get(key) ?? 0;
+            occurrences.set(key, index + 1);
+            return index;
+        };
+        const events = async <T extends Log>(query: (from: number, to: number) => Promise<T[]>) => {
+            const logs: T[] = [];
+            for (let from = fromBlock; from <= toBlock; from += this.options.batchSize) {
+                logs.push(...(await query(from, Math.min(toBlock, from + this.options.batchSize - 1))));
+            }
+            return logs.sort((a, b) => a.blockNumber - b.blockNumber || a.index - b.index);
+        };
+
+        for (const event of await events((from, to) => tokenomics.queryFilter(tokenomics.filters.TaxDistributed(), from, to))) {
+            const [amount, ...reported] = event.args;
+            flows.push({
+                ...this.flowBase(event, 'TokenomicsRules', 'distributeFees'),
+                amount,
+                // Only records the split; nothing moves
+                expected: await this.taxLegs(amount, event.blockNumber, {}, reported),
+            });
+        }
+
+        if (feeHandler) {
+            for (const event of await events((from, to) => feeHandler.queryFilter(feeHandler.filters.TaxDistributed(), from, to))) {
+                const { amount, communityShare, teamShare, liquidityShare, treasuryShare, marketingShare, cexLiquidityShare } = event.args;
+                const wallets = await this.feeHandlerWallets(feeHandler, event.blockNumber);
+                const reported = [communityShare, teamShare, liquidityShare, treasuryShare, marketingShare, cexLiquidityShare];
+                const selector = feeHandler.interface.getFunction('distributeTax').selector;
+                flows.push({
+                    ...this.flowBase(event, 'FeeHandler', 'distributeTax'),
+                    // The tax is paid in ETH whichever token it was levied on
+                    asset: ZeroAddress,
+                    amount,
+                    expected: await this.taxLegs(amount, event.blockNumber, wallets, reported),
+                    ...(await this.traceMovement(event, selector, occurrence(event, 'distributeTax'))),
+                });
+            }
+            for (const event of await events((from, to) => feeHandler.queryFilter(feeHandler.filters.FeeCollected(), from, to))) {
+                const selector = feeHandler.interface.getFunction('collectBaseFee').selector;
+                flows.push({
+                    ...this.flowBase(event, 'FeeHandler', 'collectBaseFee'),
+                    asset: ZeroAddress,
+                    amount: event.args.amount,
+                    // The base fee stays in the FeeHandler
+                    expected: [],
+                    ...(await this.traceMovement(event, selector, occurrence(event, 'collectBaseFee'))),
+                });
+            }
+        }
+
+        if (multisigFeeHandler) {
+            const { chainId } = await this.provider.getNetwork();
+            for (const event of await events((from, to) =>
+                multisigFeeHandler.queryFilter(multisigFeeHandler.filters.FeesDistributed(), from, to)
+            )) {
+                const { token, amount } = event.args;
+                const treasury = await multisigFeeHandler.chainTreasury(chainId, { blockTag: event.blockNumber });
+                const selector = multisigFeeHandler.interface.getFunction('distributeFees').selector;
+                flows.push({
+                    ...this.flowBase(event, 'MultisigFeeHandler', 'distributeFees'),
+                    asset: token,
+                    amount,
+                    expected: [{ share: 'treasuryMultisig', recipient: treasury, amount }],
+                    ...(token === ZeroAddress
+                        ? await this.traceMovement(event, selector, occurrence(event, 'distributeFees'))
+                        : await this.transferMovement(event, token, multisigFeeHandler.interface.getEvent('FeesDistributed').topicHash)),
+                });
+            }
+        }
+
+        if (distributor) {
+            for (const event of await events((from, to) =>
+                distributor.queryFilter(distributor.filters.DistributionProcessed(), from, to)
+            )) {
+                const { token, totalAmount, communityAmount, teamAmount, dexLiquidityAmount, marketingAmount, cexLiquidityAmount } = event.args;
+                const wallets = await this.distributorWallets(distributor, event.blockNumber);
+                // The distributor has no treasury initiative share; the treasury is where it draws from
+                const reported = [communityAmount, teamAmount, dexLiquidityAmount, 0n, marketingAmount, cexLiquidityAmount];
+                let movement: Movement;
+                if (token === ZeroAddress) {
+                    const selector = distributor.interface.getFunction('distribute').selector;
+                    // ETH is paid from the distributor's balance rather than sent with the call
+                    movement = { ...(await this.traceMovement(event, selector, occurrence(event, 'distribute'))), received: totalAmount };
+                } else {
+                    movement = await this.transferMovement(event, token, distributor.interface.getEvent('DistributionProcessed').topicHash);
+                }
+                flows.push({
+                    ...this.flowBase(event, 'AutomatedDistributor', 'distribute'),
+                    asset: token,
+                    amount: totalAmount,
+                    expected: await this.taxLegs(totalAmount, event.blockNumber, wallets, reported),
+                    ...movement,
+                });
+            }
+        }
+
+        return flows.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+    }
+
+    private flowBase(log: Log, source: FeeFlow['source'], method: string) {
+        return { source, method, contract: log.address, blockNumber: log.blockNumber, txHash: log.transactionHash, logIndex: log.index };
+    }
+
+    /** The TokenomicsRules split of `amount` at `blockTag`, paid to `wallets`. */
+    private async taxLegs(amount: bigint, blockTag: number, wallets: Wallets, reported: bigint[]): Promise<ExpectedLeg[]> {
+        const { tokenomics } = this.contracts;
+        const overrides = { blockTag };
+        const amounts = await Promise.all([
+            tokenomics.calculateCommunityWallet(amount, overrides),
+            tokenomics.calculateTeamWallet(amount, overrides),
+            tokenomics.calculateDEXLiquidity(amount, overrides),
+            tokenomics.calculateTreasuryInitiative(amount, overrides),
+            tokenomics.calculateMarketingWallet(amount, overrides),
+            tokenomics.calculateCEXLiquidity(amount, overrides),
+        ]);
+        return TAX_SHARES.map((share, index) => ({
+            share,
+            recipient: wallets[share],
+            amount: amounts[index],
+            reported: reported[index],
+        }));
+    }
+
+    private feeHandlerWallets(feeHandler: FeeHandler, blockTag: number): Promise<Wallets> {
+        return this.cachedWallets(feeHandler, blockTag, async () => {
+            const overrides = { blockTag };
+            const [community, team, treasuryInitiative, marketing, cexLiquidity] = await Promise.all([
+                feeHandler.communityWallet(overrides),
+                feeHandler.teamWallet(overrides),
+                feeHandler.treasuryWallet(overrides),
+                feeHandler.marketingWallet(overrides),
+                feeHandler.cexLiquidityWallet(overrides),
+            ]);
+            const dexLiquidity = this.options.dexLiquidityWallet ?? treasuryInitiative;
+            return { community, team, dexLiquidity, treasuryInitiative, marketing, cexLiquidity };
+        });
+    }
+
+    private distributorWallets(distributor: AutomatedDistributor, blockTag: number): Promise<Wallets> {
+        return this.cachedWallets(distributor, blockTag, async () => {
+            const overrides = { blockTag };
+            const [community, team, dexLiquidity, treasuryInitiative, marketing, cexLiquidity] = await Promise.all([
+                distributor.communityPool(overrides),
+                distributor.teamPool(overrides),
+                distributor.dexLiquidityPool(overrides),
+                distributor.treasury(overrides),
+                distributor.marketingPool(overrides),
+                distributor.cexLiquidityPool(overrides),
+            ]);
+            return { community, team, dexLiquidity, treasuryInitiative, marketing, cexLiquidity };
+        });
+    }
+
+    private cachedWallets(contract: { target: unknown }, blockTag: number, read: () => Promise<Wallets>): Promise<Wallets> {
+        const key = `${contract.target}:${blockTag}`;
+        if (!this.wallets.has(key)) this.wallets.set(key, read());
+        return this.wallets.get(key)!;
+    }
+
+    /**
+     * ETH the contract received in its `occurrence`-th successful call with
+     * `selector` in the event's transaction, and the ETH it sent from there.
+     */
+    private async traceMovement(event: Log, selector: string, occurrence: number): Promise<Movement> {
+        const contract = event.address.toLowerCase();
+        const frames: CallFrame[] = [];
+        const visit = (frame: CallFrame) => {
+            // A reverted frame's events are gone, and so are those of its subcalls
+            if (frame.error) return;
+            if (frame.type === 'CALL' && frame.to?.toLowerCase() === contract && frame.input.startsWith(selector)) {
+                frames.push(frame);
+            }
+            frame.calls?.forEach(visit);
+        };
+        visit(await this.trace(event.transactionHash));
+
+        const frame = frames[occurrence];
+        if (!frame) {
+            throw new Error(`No call to ${event.address} with selector ${selector} found for the event at ${event.transactionHash}#${event.index}`);
+        }
+        const paid: Record<string, bigint> = {};
+        for (const call of frame.calls ?? []) {
+            const value = BigInt(call.value ?? 0);
+            if (call.error || value === 0n || call.from.toLowerCase() !== contract || !call.to) continue;
+            const recipient = call.to.toLowerCase();
+            paid[recipient] = (paid[recipient] ?? 0n) + value;
+        }
+        return { received: BigInt(frame.value ?? 0), paid };
+    }
+
+    /**
+     * Transfers of `token` logged after the contract's previous fee event
+     * in the transaction and before this one. Transfers to the contract are
+     * what it received; any other transfer is a payment, and one not sent
+     * by the contract itself (a transferFrom it made) also counts as received.
+     */
+    private async transferMovement(event: Log, token: string, feeTopic: string): Promise<Movement> {
+        const receipt = await this.receipt(event.transactionHash);
+        const contract = event.address.toLowerCase();
+        const previous = Math.max(
+            -1,
+            ...receipt.logs
+                .filter((log) => log.index < event.index && log.address.toLowerCase() === contract && log.topics[0] === feeTopic)
+                .map((log) => log.index)
+        );
+        let received = 0n;
+        const paid: Record<string, bigint> = {};
+        for (const log of receipt.logs) {
+            if (log.index <= previous || log.index >= event.index) continue;
+            if (log.address.toLowerCase() !== token.toLowerCase() || log.topics[0] !== TRANSFER_TOPIC) continue;
+            const { from, to, value } = TRANSFER.decodeEventLog('Transfer', log.data, log.topics);
+            const recipient = (to as string).toLowerCase();
+            if (recipient === contract) {
+                received += value;
+                continue;
+            }
+            paid[recipient] = (paid[recipient] ?? 0n) + value;
+            if ((from as string).toLowerCase() !== contract) received += value;
+        }
+        return { received, paid };
+    }
+
+    private receipt(hash: string): Promise<TransactionReceipt> {
+        if (!this.receipts.has(hash)) {
+            this.receipts.set(hash, this.provider.getTransactionReceipt(hash).then((receipt) => receipt!));
+        }
+        return this.receipts.get(hash)!;
+    }
+
+    private trace(hash: string): Promise<CallFrame> {
+        if (!this.traces.has(hash)) {
+            this.traces.set(
+                hash,
+                this.provider.send('debug_traceTransaction', [hash, { tracer: 'callTracer' }]).catch((error: Error) => {
+                    throw new Error(`ETH flows are read from debug_traceTransaction with the callTracer, which failed: ${error.message}`);
+                })
+            );
+        }
+        return this.traces.get(hash)!;
+    }
+}
@@ -0,0 +1,139 @@
+import { BonkWars, PredictionMarket } from '../typechain-types';
+
+export type MarketKind = 'PredictionMarket' | 'BonkWars';
+
+export type TrackedMarket = {
+    kind: MarketKind;
+    id: string;
+    token: string;
+    /** Accounts that took a position and have not claimed yet */
+    holders: Set<string>;
+};
+
+/** On-chain state of a market, read fresh every round. */
+export type MarketState = {
+    endTime: bigint;
+    resolved: boolean;
+    /** Meaningful once resolved */
+    outcome: boolean;
+    totalYes: bigint;
+    totalNo: bigint;
+};
+
+/**
+ * Follows MarketCreated/PositionTaken/RewardsClaimed on PredictionMarket and
+ * BonkWars to know every market and who holds positions in it. Resolution
+ * itself is read from the contracts, so a reorged MarketResolved cannot make
+ * the resolver skip a market.
+ */
+export class MarketTracker {
+    private readonly markets = new Map<string, TrackedMarket>();
+    private syncedTo: number;
+
+    constructor(
+        private readonly predictionMarket: PredictionMarket | undefined,
+        private readonly bonkWars: BonkWars | undefined,
+        fromBlock: number,
+        private readonly batchSize = 2000
+    ) {
+        this.syncedTo = fromBlock - 1;
+    }
+
+    get size(): number {
+        return this.markets.size;
+    }
+
+    all(): TrackedMarket[] {
+        return [...this.markets.values()];
+    }
+
+    async sync(toBlock: number): Promise<void> {
+        while (this.syncedTo < toBlock) {
+            const from = this.syncedTo + 1;
+            const to = Math.min(toBlock, from + this.batchSize - 1);
+            await Promise.all([this.syncPredictionMarket(from, to), this.syncBonkWars(from, to)]);
+            this.syncedTo = to;
+        }
+    }
+
+    async state(market: TrackedMarket): Promise<MarketState> {
+        if (market.kind === 'PredictionMarket') {
+            const onChain = await this.predictionMarket!.getMarket(market.id);
+            return {
+                endTime: onChain.endTime,
+                resolved: onChain.resolved,
+                outcome: onChain.outcome,
+                totalYes: onChain.totalYesAmount,
+                totalNo: onChain.totalNoAmount,
+            };
+        }
+        const onChain = await this.bonkWars!.markets(market.id);
+        return {
+            endTime: onChain.endTime,
+            resolved: onChain.resolved,
+            // BonkWars encodes a YES outcome as bytes32(uint256(1))
+            outcome: BigInt(onChain.outcome) === 1n,
+            totalYes: onChain.totalYes,
+            totalNo: onChain.totalNo,
+        };
+    }
+
+    /** What `account` would receive from claimRewards; 0 when it lost or already claimed. */
+    async claimable(market: TrackedMarket, state: MarketState, account: string): Promise<bigint> {
+        if (market.kind === 'PredictionMarket') {
+            const position = await this.predictionMarket!.getPosition(market.id, account);
+            if (position.claimed) return 0n;
+            if (state.outcome) {
+                return position.yesAmount > 0n ? position.yesAmount + (position.yesAmount * state.totalNo) / state.totalYes : 0n;
+            }
+            return position.noAmount > 0n ? position.noAmount + (position.noAmount * state.totalYes) / state.totalNo : 0n;
+        }
+        const position = await this.bonkWars!.positions(market.id, account);
+        if (position.claimed || position.amount === 0n || position.isYes !== state.outcome) return 0n;
+        const winningPool = position.isYes ? state.totalYes : state.totalNo;
+        return (position.amount * (state.totalYes + state.totalNo)) / winningPool;
+    }
+
+    forget(market: TrackedMarket): void {
+        this.markets.delete(`${market.kind}:${market.id}`);
+    }
+
+    private async syncPredictionMarket(from: number, to: number): Promise<void> {
+        const contract = this.predictionMarket;
+        if (!contract) return;
+        const [created, taken, claimed] = await Promise.all([
+            contract.queryFilter(contract.filters.MarketCreated(), from, to),
+            contract.queryFilter(contract.filters.PositionTaken(), from, to),
+            contract.queryFilter(contract.filters.RewardsClaimed(), from, to),
+        ]);
+        this.apply('PredictionMarket', created.map((event) => event.args), taken.map((event) => event.args), claimed.map((event) => event.args));
+    }
+
+    private async syncBonkWars(from: number, to: number): Promise<void> {
+        const contract = this.bonkWars;
+        if (!contract) return;
+        const [created, taken, claimed] = await Promise.all([
+            contract.queryFilter(contract.filters.MarketCreated(), from, to),
+            contract.queryFilter(contract.filters.PositionTaken(), from, to),
+            contract.queryFilter(contract.filters.RewardsClaimed(), from, to),
+        ]);
+        this.apply('BonkWars', created.map((event) => event.args), taken.map((event) => event.args), claimed.map((event) => event.args));
+    }
+
+    private apply(
+        kind: MarketKind,
+        created: { marketId: string; token: string }[],
+        taken: { marketId: string; user: string }[],
+        claimed: { marketId: string; user: string }[]
+    ): void {
+        for (const { marketId, token } of created) {
+            this.markets.set(`${kind}:${marketId}`, { kind, id: marketId, token, holders: new Set() });
+        }
+        for (const { marketId, user } of taken) {
+            this.markets.get(`${kind}:${marketId}`)?.holders.add(user);
+        }
+        for (const { marketId, user } of claimed) {
+            this.markets.get(`${kind}:${marketId}`)?.holders.delete(user);
+        }
+    }
+}
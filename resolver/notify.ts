@@ -0,0 +1,62 @@
+import { createHmac } from 'crypto';
+import { MarketKind } from './markets';
+
+export type ClaimableNotification = {
+    type: 'market.claimable';
+    chainId: string;
+    contract: MarketKind;
+    address: string;
+    marketId: string;
+    outcome: boolean;
+    /** Winners that have not claimed, with what claimRewards pays them; uints are decimal strings */
+    claims: { account: string; amount: string }[];
+};
+
+/** A market left unresolved past its resolution window, or held back by disagreeing sources. */
+export type AttentionNotification = {
+    type: 'market.overdue' | 'market.disputed';
+    chainId: string;
+    contract: MarketKind;
+    address: string;
+    marketId: string;
+    detail: string;
+};
+
+export type ResolverNotification = ClaimableNotification | AttentionNotification;
+
+/** Delivers notifications; throwing makes the resolver retry the same notification next round. */
+export interface Notifier {
+    notify(notification: ResolverNotification): Promise<void>;
+}
+
+export const SIGNATURE_HEADER = 'X-D4L-Signature';
+
+/**
+ * POSTs each notification as JSON. With a secret, the body's HMAC-SHA256 is
+ * sent in `X-D4L-Signature` so the receiver can check where it came from.
+ * Non-2xx answers are failures.
+ */
+export class WebhookNotifier implements Notifier {
+    constructor(private readonly url: string, private readonly secret?: string, private readonly timeout = 10_000) {}
+
+    async notify(notification: ResolverNotification): Promise<void> {
+        const body = JSON.stringify(notification);
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (this.secret) {
+            headers[SIGNATURE_HEADER] = `sha256=${createHmac('sha256', this.secret).update(body).digest('hex')}`;
+        }
+        const response = await fetch(this.url, { method: 'POST', headers, body, signal: AbortSignal.timeout(this.timeout) });
+        if (!response.ok) {
+            throw new Error(`Webhook answered ${response.status} ${response.statusText}`);
+        }
+    }
+}
+
+/** Logs notifications instead of delivering them. */
+export class LogNotifier implements Notifier {
+    constructor(private readonly logger: Pick<Console, 'log'> = console) {}
+
+    async notify(notification: ResolverNotification): Promise<void> {
+        this.logger.log(`[notify] ${JSON.stringify(notification)}`);
+    }
+}
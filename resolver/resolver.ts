@@ -0,0 +1,247 @@
+import { Interface, Provider } from 'ethers';
+import { BonkWars, PredictionMarket } from '../typechain-types';
+import { ContractRevertError, StorageLike, decodeError } from '../sdk';
+import { MarketState, MarketTracker, TrackedMarket } from './markets';
+import { Notifier } from './notify';
+import { OutcomeSource, decide } from './sources';
+
+export type ResolverOptions = {
+    /** Seconds after endTime to wait before resolving, so late data and disputes can land */
+    settleDelay: number;
+    /** Seconds after endTime a market must be resolved in; later ones are flagged, not resolved */
+    resolutionWindow: number;
+    /** Sources that must agree before a market is resolved */
+    quorum: number;
+    /** Blocks behind the head the market events are read up to */
+    confirmations: number;
+    /** Milliseconds between rounds */
+    pollInterval: number;
+    /** Longest wait between retries of a failed resolution or checks of an overdue market, in milliseconds */
+    maxRetryDelay: number;
+    /** Check resolutions with eth_call and log notifications instead of sending anything */
+    dryRun: boolean;
+};
+
+export const DEFAULT_RESOLVER_OPTIONS: ResolverOptions = {
+    settleDelay: 10 * 60,
+    resolutionWindow: 24 * 60 * 60,
+    quorum: 1,
+    confirmations: 2,
+    pollInterval: 30_000,
+    maxRetryDelay: 30 * 60_000,
+    dryRun: false,
+};
+
+export type ResolverReport = {
+    block: number;
+    tracked: number;
+    /** Markets resolved this round, as kind:marketId */
+    resolved: string[];
+    notified: string[];
+    failures: string[];
+};
+
+export type ResolverLogger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+type Retry = { attempts: number; notBefore: number };
+
+const STATE_PREFIX = 'd4l:resolver:';
+
+/**
+ * Resolves PredictionMarket and BonkWars markets once they end and tells the
+ * winners they can claim. A market is resolved between `settleDelay` and
+ * `resolutionWindow` seconds after its endTime, with the outcome its sources
+ * agree on; disputed and overdue markets are left to a human and flagged
+ * through the notifier.
+ *
+ * Every round starts from the on-chain state, so a failed or duplicated
+ * transaction is harmless: a market that got resolved is simply seen as
+ * resolved. Failures, and overdue markets waiting for a human, back off
+ * exponentially per market. Which notifications
+ * were delivered is kept in `state`, so restarts do not repeat them.
+ */
+export class MarketResolver {
+    private readonly options: ResolverOptions;
+    private readonly retries = new Map<string, Retry>();
+    private stopped = false;
+
+    constructor(
+        private readonly provider: Provider,
+        private readonly chainId: bigint,
+        private readonly tracker: MarketTracker,
+        private readonly contracts: { predictionMarket?: PredictionMarket; bonkWars?: BonkWars },
+        private readonly sources: OutcomeSource[],
+        private readonly notifier: Notifier,
+        private readonly state: StorageLike,
+        options: Partial<ResolverOptions> = {},
+        private readonly logger: ResolverLogger = console
+    ) {
+        this.options = { ...DEFAULT_RESOLVER_OPTIONS, ...options };
+    }
+
+    async runOnce(): Promise<ResolverReport> {
+        const block = await this.provider.getBlockNumber();
+        await this.tracker.sync(Math.max(0, block - this.options.confirmations));
+        const now = BigInt((await this.provider.getBlock(block))!.timestamp);
+        const report: ResolverReport = { block, tracked: this.tracker.size, resolved: [], notified: [], failures: [] };
+
+        for (const market of this.tracker.all()) {
+            const key = `${market.kind}:${market.id}`;
+            const retry = this.retries.get(key);
+            if (retry && Date.now() < retry.notBefore) continue;
+            try {
+                const state = await this.tracker.state(market);
+                if (state.resolved) {
+                    await this.notifyClaimable(market, state, report);
+                    continue;
+                }
+                if (now < state.endTime + BigInt(this.options.settleDelay)) continue;
+                if (now > state.endTime + BigInt(this.options.resolutionWindow)) {
+                    await this.flag(market, 'market.overdue', `Not resolved within ${this.options.resolutionWindow}s of its end`);
+                    // Only a human resolves it now; check back ever less often so their claims still get notified
+                    this.backOff(key);
+                    continue;
+                }
+                if (await this.resolve(market)) report.resolved.push(key);
+            } catch (error) {
+                report.failures.push(`${key}: ${this.describe(error)}`);
+                this.backOff(key);
+            }
+        }
+        return report;
+    }
+
+    /** Runs rounds until stop() is called. */
+    async run(): Promise<void> {
+        this.stopped = false;
+        while (!this.stopped) {
+            try {
+                const report = await this.runOnce();
+                for (const failure of report.failures) this.logger.warn(failure);
+                for (const key of report.resolved) this.logger.log(`Resolved ${key}`);
+                for (const key of report.notified) this.logger.log(`Notified holders of ${key}`);
+            } catch (error) {
+                this.logger.error(`Resolver round failed, retrying: ${this.describe(error)}`);
+            }
+            if (!this.stopped) {
+                await new Promise((resolve) => setTimeout(resolve, this.options.pollInterval));
+            }
+        }
+    }
+
+    stop(): void {
+        this.stopped = true;
+    }
+
+    /** Asks the sources and, when they agree, resolves the market. Returns whether it did. */
+    private async resolve(market: TrackedMarket): Promise<boolean> {
+        const answers = new Map<string, boolean | undefined>();
+        for (const source of this.sources) {
+            try {
+                answers.set(source.name, await source.outcome(market));
+            } catch (error) {
+                this.logger.warn(`Source ${source.name} failed for ${market.id}: ${(error as Error).message}`);
+            }
+        }
+        const decision = decide(answers, this.options.quorum);
+        if (decision.kind === 'disputed') {
+            await this.flag(market, 'market.disputed', `Sources disagree: ${JSON.stringify(decision.answers)}`);
+            return false;
+        }
+        if (decision.kind === 'pending') return false;
+
+        const send = async () => {
+            if (market.kind === 'PredictionMarket') {
+                const contract = this.contracts.predictionMarket!;
+                await contract.resolveMarket.staticCall(market.id, decision.outcome);
+                return this.options.dryRun ? undefined : contract.resolveMarket(market.id, decision.outcome);
+            }
+            const contract = this.contracts.bonkWars!;
+            await contract.resolveMarket.staticCall(market.id);
+            return this.options.dryRun ? undefined : contract.resolveMarket(market.id);
+        };
+        try {
+            const tx = await send();
+            await tx?.wait();
+        } catch (error) {
+            const decoded = decodeError(error, this.interfaces());
+            // Someone else resolved it first; the next round reads the result
+            if (decoded instanceof ContractRevertError && decoded.reason === 'Already resolved') return false;
+            throw decoded;
+        }
+        this.retries.delete(`${market.kind}:${market.id}`);
+        this.logger.log(
+            `${this.options.dryRun ? '[dry run] would resolve' : 'Resolved'} ${market.kind} ${market.id} as ` +
+                `${decision.outcome ? 'YES' : 'NO'} (${decision.sources.join(', ')})`
+        );
+        return !this.options.dryRun;
+    }
+
+    private async notifyClaimable(market: TrackedMarket, state: MarketState, report: ResolverReport): Promise<void> {
+        const key = `${market.kind}:${market.id}`;
+        if (this.options.dryRun || (await this.state.getItem(`${STATE_PREFIX}notified:${key}`)) !== null) {
+            this.tracker.forget(market);
+            return;
+        }
+        const claims: { account: string; amount: string }[] = [];
+        for (const account of market.holders) {
+            const amount = await this.tracker.claimable(market, state, account);
+            if (amount > 0n) claims.push({ account, amount: amount.toString() });
+        }
+        if (claims.length > 0) {
+            await this.notifier.notify({
+                type: 'market.claimable',
+                chainId: this.chainId.toString(),
+                contract: market.kind,
+                address: await this.contractAddress(market),
+                marketId: market.id,
+                outcome: state.outcome,
+                claims,
+            });
+            report.notified.push(key);
+        }
+        await this.state.setItem(`${STATE_PREFIX}notified:${key}`, new Date().toISOString());
+        this.tracker.forget(market);
+    }
+
+    /** Sends an overdue/disputed notification once per market and kind. */
+    private async flag(market: TrackedMarket, type: 'market.overdue' | 'market.disputed', detail: string): Promise<void> {
+        const stateKey = `${STATE_PREFIX}${type}:${market.kind}:${market.id}`;
+        if ((await this.state.getItem(stateKey)) !== null) return;
+        this.logger.warn(`${market.kind} ${market.id}: ${detail}`);
+        if (this.options.dryRun) return;
+        await this.notifier.notify({
+            type,
+            chainId: this.chainId.toString(),
+            contract: market.kind,
+            address: await this.contractAddress(market),
+            marketId: market.id,
+            detail,
+        });
+        await this.state.setItem(stateKey, new Date().toISOString());
+    }
+
+    private backOff(key: string): void {
+        const attempts = (this.retries.get(key)?.attempts ?? 0) + 1;
+        const delay = Math.min(this.options.pollInterval * 2 ** attempts, this.options.maxRetryDelay);
+        this.retries.set(key, { attempts, notBefore: Date.now() + delay });
+    }
+
+    private contractAddress(market: TrackedMarket): Promise<string> {
+        return market.kind === 'PredictionMarket'
+            ? this.contracts.predictionMarket!.getAddress()
+            : this.contracts.bonkWars!.getAddress();
+    }
+
+    private interfaces(): Interface[] {
+        const interfaces: Interface[] = [];
+        if (this.contracts.predictionMarket) interfaces.push(this.contracts.predictionMarket.interface);
+        if (this.contracts.bonkWars) interfaces.push(this.contracts.bonkWars.interface);
+        return interfaces;
+    }
+
+    private describe(error: unknown): string {
+        const decoded = decodeError(error, this.interfaces());
+        return (decoded as Error)?.message ?? String(decoded);
+    }
+}
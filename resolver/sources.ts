@@ -0,0 +1,124 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { BonkWars } from '../typechain-types';
+import { TrackedMarket } from './markets';
+
+/** BonkWars.MarketType */
+export enum BonkWarsMarketType {
+    MARKET_CAP,
+    SOCIAL_ENGAGEMENT,
+    VOLUME_MILESTONE,
+    HOLDER_COUNT,
+    PRICE_TARGET,
+    CEX_LISTING,
+    COMMUNITY_GROWTH,
+    INFLUENCER_ADOPTION,
+    DEVELOPMENT_MILESTONE,
+    CROSS_CHAIN_EXPANSION,
+}
+
+/**
+ * Knows how some markets should resolve. `outcome` returns undefined for
+ * markets it has no answer for (yet); a throw counts as no answer.
+ */
+export interface OutcomeSource {
+    readonly name: string;
+    outcome(market: TrackedMarket): Promise<boolean | undefined>;
+}
+
+/** What an outcome source plugin module exports, as `createSource` or its default export. */
+export type OutcomeSourceFactory = () => OutcomeSource | Promise<OutcomeSource>;
+
+export type Decision =
+    | { kind: 'resolve'; outcome: boolean; sources: string[] }
+    | { kind: 'pending'; reason: string }
+    | { kind: 'disputed'; answers: Record<string, boolean> };
+
+/**
+ * Combines the answers for a market: it resolves once `quorum` sources agree
+ * and none disagrees. A single dissenting source holds the market back.
+ */
+export function decide(answers: Map<string, boolean | undefined>, quorum: number): Decision {
+    const given = [...answers].filter((answer): answer is [string, boolean] => answer[1] !== undefined);
+    if (given.some(([, outcome]) => outcome !== given[0][1])) {
+        return { kind: 'disputed', answers: Object.fromEntries(given) };
+    }
+    if (given.length < quorum) {
+        return { kind: 'pending', reason: `${given.length} of ${quorum} source(s) answered` };
+    }
+    return { kind: 'resolve', outcome: given[0][1], sources: given.map(([name]) => name) };
+}
+
+/**
+ * Outcomes from a JSON file of the form `{ "<marketId>": true }`, re-read on
+ * every call. Lets an operator resolve PredictionMarket markets by hand, and
+ * stands in for real sources when testing.
+ */
+export class FileOutcomeSource implements OutcomeSource {
+    readonly name: string;
+
+    constructor(private readonly file: string) {
+        this.name = `file:${path.basename(file)}`;
+    }
+
+    async outcome(market: TrackedMarket): Promise<boolean | undefined> {
+        const outcomes: Record<string, unknown> = JSON.parse(await fs.readFile(this.file, 'utf8'));
+        const entry = Object.entries(outcomes).find(([id]) => id.toLowerCase() === market.id.toLowerCase());
+        if (!entry) return undefined;
+        if (typeof entry[1] !== 'boolean') {
+            throw new Error(`${this.file}: the outcome of ${market.id} must be true or false`);
+        }
+        return entry[1];
+    }
+}
+
+/** Loads an outcome source plugin, resolved from the working directory. */
+export async function loadOutcomeSource(modulePath: string): Promise<OutcomeSource> {
+    const plugin: { createSource?: OutcomeSourceFactory; default?: OutcomeSourceFactory } = await import(path.resolve(modulePath));
+    const factory = plugin.createSource ?? plugin.default;
+    if (typeof factory !== 'function') {
+        throw new Error(`${modulePath} exports neither createSource nor a default source factory`);
+    }
+    return factory();
+}
+
+/**
+ * The outcome BonkWars.resolveMarket will record, computed the way
+ * `_resolveMarket` does from the TokenInfo the metrics feeder keeps current.
+ * Other sources answering for a BonkWars market act as a cross-check.
+ */
+export class BonkWarsMetricsSource implements OutcomeSource {
+    readonly name = 'bonkwars-metrics';
+
+    constructor(private readonly bonkWars: BonkWars) {}
+
+    async outcome(market: TrackedMarket): Promise<boolean | undefined> {
+        if (market.kind !== 'BonkWars') return undefined;
+        const { token, threshold, marketType } = await this.bonkWars.markets(market.id);
+        const info = await this.bonkWars.tokens(token);
+        switch (Number(marketType)) {
+            case BonkWarsMarketType.MARKET_CAP:
+                return info.marketCap >= threshold;
+            case BonkWarsMarketType.SOCIAL_ENGAGEMENT:
+                return (await this.bonkWars.socialActionCount(token)) >= threshold;
+            case BonkWarsMarketType.VOLUME_MILESTONE:
+                return info.volume24h >= threshold;
+            case BonkWarsMarketType.HOLDER_COUNT:
+                return info.holderCount >= threshold;
+            case BonkWarsMarketType.PRICE_TARGET:
+                return info.price >= threshold;
+            case BonkWarsMarketType.CEX_LISTING:
+                return info.cexListed;
+            case BonkWarsMarketType.COMMUNITY_GROWTH:
+                return info.communitySize >= threshold;
+            case BonkWarsMarketType.INFLUENCER_ADOPTION:
+                return info.influencerScore >= threshold;
+            case BonkWarsMarketType.DEVELOPMENT_MILESTONE:
+                return info.developmentScore >= threshold;
+            case BonkWarsMarketType.CROSS_CHAIN_EXPANSION:
+                return info.crossChainEnabled;
+            default:
+                return false;
+        }
+    }
+}
@@ -0,0 +1,133 @@
+import { CurveParams, HydraCurveMath } from '../sdk';
+
+const WAD = 10n ** 18n;
+const BPS = 10_000n;
+
+/** A Degen4LifeDEX Swap from the indexer's swaps table, addresses lower-cased. */
+export type IndexedSwap = {
+    account: string;
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: bigint;
+    amountOut: bigint;
+};
+
+/** What the publisher pushes for a token, besides the curve's spot price. */
+export type RiskIndicators = {
+    /** Token amount swapped in the window */
+    volume: bigint;
+    /** Wei a buy can spend before it moves the price by the depth limit */
+    liquidity: bigint;
+    realizedVolatility: bigint;
+    /** Undefined when the token has no indexed transfers */
+    holderConcentration?: bigint;
+    washTradeRatio: bigint;
+};
+
+function sqrt(value: bigint): bigint {
+    if (value < 2n) return value;
+    let x = value;
+    let y = (x + 1n) / 2n;
+    while (y < x) {
+        x = y;
+        y = (x + value / x) / 2n;
+    }
+    return x;
+}
+
+/** Token amount of the swaps that bought or sold `token`. */
+export function swapVolume(swaps: IndexedSwap[], token: string): bigint {
+    return swaps.reduce(
+        (sum, swap) => sum + (swap.tokenIn === token ? swap.amountIn : swap.tokenOut === token ? swap.amountOut : 0n),
+        0n
+    );
+}
+
+/**
+ * Prices, in wei per whole token, of the swaps between `token` and WETH in
+ * the order given. Swaps against other tokens carry no ETH price and are
+ * left out.
+ */
+export function swapPrices(swaps: IndexedSwap[], token: string, weth: string): bigint[] {
+    const prices: bigint[] = [];
+    for (const swap of swaps) {
+        if (swap.tokenIn === weth && swap.tokenOut === token && swap.amountOut > 0n) {
+            prices.push((swap.amountIn * WAD) / swap.amountOut);
+        } else if (swap.tokenIn === token && swap.tokenOut === weth && swap.amountIn > 0n) {
+            prices.push((swap.amountOut * WAD) / swap.amountIn);
+        }
+    }
+    return prices;
+}
+
+/** Root mean square of the changes between consecutive prices, in bps; 0 with fewer than two prices. */
+export function realizedVolatility(prices: bigint[]): bigint {
+    let sumOfSquares = 0n;
+    let changes = 0n;
+    for (let i = 1; i < prices.length; i++) {
+        if (prices[i - 1] === 0n) continue;
+        const change = ((prices[i] - prices[i - 1]) * BPS) / prices[i - 1];
+        sumOfSquares += change * change;
+        changes++;
+    }
+    return changes === 0n ? 0n : sqrt(sumOfSquares / changes);
+}
+
+/**
+ * Share of the supply held by the `top` largest holders, in bps, from the
+ * balances holderBalances replays. `excluded` addresses, such as the DEX or
+ * a vesting contract, count neither as holders nor towards the supply.
+ */
+export function holderConcentration(balances: Map<string, bigint>, top: number, excluded: string[] = []): bigint {
+    const skipped = new Set(excluded.map((address) => address.toLowerCase()));
+    const holdings = [...balances]
+        .filter(([holder]) => !skipped.has(holder))
+        .map(([, balance]) => balance)
+        .sort((a, b) => (a > b ? -1 : a < b ? 1 : 0));
+    const supply = holdings.reduce((sum, balance) => sum + balance, 0n);
+    if (supply === 0n) return 0n;
+    const held = holdings.slice(0, top).reduce((sum, balance) => sum + balance, 0n);
+    return (held * BPS) / supply;
+}
+
+/**
+ * Share of the window's volume, in bps, that accounts traded back and forth:
+ * an account that bought and sold `token` contributes twice the smaller of
+ * the two amounts, as that much of its volume left it where it started.
+ */
+export function washTradeRatio(swaps: IndexedSwap[], token: string): bigint {
+    const flows = new Map<string, { bought: bigint; sold: bigint }>();
+    for (const swap of swaps) {
+        const flow = flows.get(swap.account) ?? { bought: 0n, sold: 0n };
+        if (swap.tokenOut === token) flow.bought += swap.amountOut;
+        if (swap.tokenIn === token) flow.sold += swap.amountIn;
+        flows.set(swap.account, flow);
+    }
+    let wash = 0n;
+    let total = 0n;
+    for (const { bought, sold } of flows.values()) {
+        wash += 2n * (bought < sold ? bought : sold);
+        total += bought + sold;
+    }
+    return total === 0n ? 0n : (wash * BPS) / total;
+}
+
+/**
+ * Wei worth of tokens, at the spot price, that the largest buy moving the
+ * price by at most `maxImpactBps` takes off the curve. Found by binary
+ * search on HydraCurveMath.calculatePriceImpact, which grows with the amount.
+ */
+export function liquidityDepth(params: CurveParams, maxImpactBps: bigint): bigint {
+    // calculatePrice reverts at maxSupply, so a buy can take at most one token-wei less
+    let low = 0n;
+    let high = params.maxSupply > params.initialSupply ? params.maxSupply - params.initialSupply - 1n : 0n;
+    while (low < high) {
+        const middle = (low + high + 1n) / 2n;
+        if (HydraCurveMath.calculatePriceImpact(params, middle, true) <= maxImpactBps) {
+            low = middle;
+        } else {
+            high = middle - 1n;
+        }
+    }
+    return HydraCurveMath.calculateSellAmount(params, low);
+}
@@ -0,0 +1,216 @@
+import { Provider } from 'ethers';
+import { IHydraCurve, RiskManagementModule } from '../typechain-types';
+import { BlockFinder } from '../indexer/blocks';
+import { SqlClient } from '../indexer/db';
+import { holderBalances } from '../indexer/holders';
+import { EventStore } from '../indexer/store';
+import { CurveParams, HydraCurveMath } from '../sdk';
+import {
+    IndexedSwap,
+    RiskIndicators,
+    holderConcentration,
+    liquidityDepth,
+    realizedVolatility,
+    swapPrices,
+    swapVolume,
+    washTradeRatio,
+} from './indicators';
+
+export type RiskPublisherOptions = {
+    /** Seconds of swaps the indicators are computed over */
+    window: number;
+    /** Milliseconds between rounds; RiskManagementModule treats scores older than an hour as outdated */
+    pollInterval: number;
+    /** Holders counted into holderConcentration */
+    topHolders: number;
+    /** Price impact, in bps, liquidity depth is measured up to */
+    depthImpactBps: bigint;
+    /** Addresses left out of holderConcentration, such as the DEX */
+    excludedHolders: string[];
+    /** Blocks the indexer may be behind before the round is skipped */
+    maxLag: number;
+    /** Check the updates with eth_call instead of sending them */
+    dryRun: boolean;
+};
+
+export const DEFAULT_RISK_PUBLISHER_OPTIONS: RiskPublisherOptions = {
+    window: 24 * 60 * 60,
+    pollInterval: 30 * 60_000,
+    topHolders: 10,
+    depthImpactBps: 200n,
+    excludedHolders: [],
+    maxLag: 50,
+    dryRun: false,
+};
+
+export type PublishedRisk = RiskIndicators & { token: string; price: bigint };
+
+export type RiskPublishReport = {
+    /** Block the window ends at, the indexer's cursor */
+    block: number;
+    published: PublishedRisk[];
+    transactions: string[];
+    /** Tokens that failed this round, with the error */
+    failures: string[];
+};
+
+export type RiskPublisherLogger = Pick<Console, 'log' | 'warn' | 'error'>;
+
+/**
+ * Keeps RiskManagementModule's market data and indicators current from the
+ * event indexer. Each round, for every token, it computes over the last
+ * `window` seconds of indexed swaps and all indexed transfers:
+ *
+ * - price: HydraCurve's spot price, which the DEX fills at
+ * - volume: the token amount swapped
+ * - liquidity: the wei a buy can spend within `depthImpactBps` of impact
+ * - realized volatility, holder concentration and wash-trade ratio
+ *
+ * and sends updateMarketData and updateMarketIndicators from the module's
+ * owner. updateMarketData also refreshes the risk score checkRiskLimits
+ * requires to be under an hour old, so every token is pushed every round.
+ */
+export class RiskPublisher {
+    private readonly options: RiskPublisherOptions;
+    private readonly blocks: BlockFinder;
+    private stopped = false;
+
+    constructor(
+        private readonly risk: RiskManagementModule,
+        private readonly curve: IHydraCurve,
+        private readonly db: SqlClient,
+        private readonly provider: Provider,
+        private readonly weth: string,
+        /** Tokens to publish; undefined for every token swapped in the window */
+        private readonly tokens?: string[],
+        options: Partial<RiskPublisherOptions> = {},
+        private readonly logger: RiskPublisherLogger = console
+    ) {
+        this.options = { ...DEFAULT_RISK_PUBLISHER_OPTIONS, ...options };
+        this.blocks = new BlockFinder(provider);
+    }
+
+    async runOnce(): Promise<RiskPublishReport> {
+        const cursor = await new EventStore(this.db).cursor();
+        const head = await this.provider.getBlockNumber();
+        // The indicators are only as complete as the index
+        if (cursor === undefined || head - cursor > this.options.maxLag) {
+            throw new Error(`The indexer is ${cursor === undefined ? 'empty' : `${head - cursor} blocks behind`}`);
+        }
+        const since = await this.blocks.blockAt((await this.provider.getBlock(cursor))!.timestamp - this.options.window);
+        const swaps = await this.swapsSince(since);
+        const weth = this.weth.toLowerCase();
+
+        const report: RiskPublishReport = { block: cursor, published: [], transactions: [], failures: [] };
+        for (const token of this.tokensToPublish(swaps, weth)) {
+            try {
+                const tokenSwaps = swaps.filter((swap) => swap.tokenIn === token || swap.tokenOut === token);
+                const published = await this.compute(token, tokenSwaps, weth);
+                await this.push(published, report);
+                report.published.push(published);
+            } catch (error) {
+                report.failures.push(`${token}: ${(error as Error).message}`);
+            }
+        }
+        return report;
+    }
+
+    /** Runs rounds until stop() is called. */
+    async run(): Promise<void> {
+        this.stopped = false;
+        while (!this.stopped) {
+            try {
+                const report = await this.runOnce();
+                for (const failure of report.failures) this.logger.warn(failure);
+                for (const published of report.published) this.logger.log(describeRisk(published));
+            } catch (error) {
+                this.logger.error(`Risk round failed, retrying: ${(error as Error).message}`);
+            }
+            if (!this.stopped) {
+                await new Promise((resolve) => setTimeout(resolve, this.options.pollInterval));
+            }
+        }
+    }
+
+    stop(): void {
+        this.stopped = true;
+    }
+
+    private tokensToPublish(swaps: IndexedSwap[], weth: string): string[] {
+        if (this.tokens) return this.tokens.map((token) => token.toLowerCase());
+        const swapped = new Set(swaps.flatMap((swap) => [swap.tokenIn, swap.tokenOut]));
+        swapped.delete(weth);
+        return [...swapped];
+    }
+
+    private async compute(token: string, swaps: IndexedSwap[], weth: string): Promise<PublishedRisk> {
+        // Reverts for tokens without an initialized curve
+        const onChain = await this.curve.getCurveParams(token);
+        const params: CurveParams = {
+            initialPrice: onChain.initialPrice,
+            initialSupply: onChain.initialSupply,
+            maxSupply: onChain.maxSupply,
+            baseWeight: onChain.baseWeight,
+            priceMultiplier: onChain.priceMultiplier,
+        };
+        const balances = await holderBalances(this.db, token);
+        return {
+            token,
+            price: HydraCurveMath.calculatePrice(params, params.initialSupply),
+            volume: swapVolume(swaps, token),
+            liquidity: liquidityDepth(params, this.options.depthImpactBps),
+            realizedVolatility: realizedVolatility(swapPrices(swaps, token, weth)),
+            holderConcentration: balances && holderConcentration(balances, this.options.topHolders, this.options.excludedHolders),
+            washTradeRatio: washTradeRatio(swaps, token),
+        };
+    }
+
+    /**
+     * Sends the market data, and the indicators unless holder concentration
+     * is unknown: the module takes the three together, and publishing 0 would
+     * read as a perfectly spread supply.
+     */
+    private async push(published: PublishedRisk, report: RiskPublishReport): Promise<void> {
+        const { token, price, volume, liquidity, holderConcentration } = published;
+        const indicators =
+            holderConcentration === undefined
+                ? undefined
+                : ([token, published.realizedVolatility, holderConcentration, published.washTradeRatio] as const);
+        if (this.options.dryRun) {
+            await this.risk.updateMarketData.staticCall(token, price, volume, liquidity);
+            if (indicators) await this.risk.updateMarketIndicators.staticCall(...indicators);
+            return;
+        }
+        const dataReceipt = await (await this.risk.updateMarketData(token, price, volume, liquidity)).wait();
+        report.transactions.push(dataReceipt!.hash);
+        if (!indicators) return;
+        const indicatorsReceipt = await (await this.risk.updateMarketIndicators(...indicators)).wait();
+        report.transactions.push(indicatorsReceipt!.hash);
+    }
+
+    private async swapsSince(block: number): Promise<IndexedSwap[]> {
+        const rows = await this.db.query<{ account: string; token_in: string; token_out: string; amount_in: string; amount_out: string }>(
+            'SELECT account, token_in, token_out, amount_in, amount_out FROM swaps WHERE block_number >= ? ORDER BY block_number, log_index',
+            [block]
+        );
+        return rows.map((row) => ({
+            account: row.account,
+            tokenIn: row.token_in,
+            tokenOut: row.token_out,
+            amountIn: BigInt(row.amount_in),
+            amountOut: BigInt(row.amount_out),
+        }));
+    }
+}
+
+/** One line describing what was published for a token. */
+export function describeRisk(published: PublishedRisk): string {
+    const data = `${published.token}: price ${published.price}, volume ${published.volume}, liquidity ${published.liquidity}`;
+    if (published.holderConcentration === undefined) {
+        return `${data}, indicators not sent without indexed transfers`;
+    }
+    return (
+        `${data}, volatility ${published.realizedVolatility} bps, top holders ${published.holderConcentration} bps, ` +
+        `wash trading ${published.washTradeRatio} bps`
+    );
+}
@@ -0,0 +1,300 @@
+import { ContractRunner, ContractTransactionReceipt, ContractTransactionResponse, Interface, Signer, ethers } from 'ethers';
+import {
+    ContractRegistry,
+    ContractRegistry__factory,
+    Degen4LifeController,
+    Degen4LifeController__factory,
+    Degen4LifeDEX,
+    Degen4LifeDEX__factory,
+    DegenENS,
+    DegenENS__factory,
+    IERC20__factory,
+    ITokenFactory__factory,
+    OrderBookModule,
+    OrderBookModule__factory,
+    PredictionMarket,
+    PredictionMarket__factory,
+    SocialTradingModule,
+    SocialTradingModule__factory,
+} from '../typechain-types';
+import { RegistryKey, RegistryKeys, registryKeyId } from '../utils/registry';
+import { ContractNotRegisteredError, ContractRevertError, Degen4LifeError, SignerRequiredError, decodeError } from './errors';
+
+export type SecurityConfig = {
+    maxTransactionAmount: bigint;
+    timeWindow: bigint;
+    maxTransactionsPerWindow: bigint;
+    lockDuration: bigint;
+    minLiquidityPercentage: bigint;
+    maxSellPercentage: bigint;
+};
+
+export type PoolParameters = {
+    initialLiquidity: bigint;
+    minLiquidity: bigint;
+    maxLiquidity: bigint;
+    lockDuration: bigint;
+    swapFee: number;
+    autoLiquidity: boolean;
+};
+
+export type TokenGateConfig = {
+    minHoldAmount: bigint;
+    minHoldDuration: bigint;
+    requiredLevel: bigint;
+    requireVerification: boolean;
+    enableTrading: boolean;
+    enableStaking: boolean;
+};
+
+export type LaunchTokenParams = {
+    name: string;
+    symbol: string;
+    initialSupply: bigint;
+    security: SecurityConfig;
+    /** `initialLiquidity` wei is sent with the launch */
+    pool: PoolParameters;
+    gate: TokenGateConfig;
+};
+
+export type SwapParams = {
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: bigint;
+    minAmountOut: bigint;
+    /** Defaults to the signer */
+    to?: string;
+    /** Unix seconds; defaults to 20 minutes from now */
+    deadline?: bigint;
+};
+
+export type CreateMarketParams = {
+    /** Token positions are staked in */
+    token: string;
+    /** Seconds until the market stops taking positions */
+    duration: bigint;
+    description: string;
+};
+
+export type TakePositionParams = {
+    marketId: string;
+    isYes: boolean;
+    amount: bigint;
+};
+
+export type RegisterNameParams = {
+    name: string;
+    /** Defaults to the signer */
+    owner?: string;
+    /** Registration length in seconds */
+    duration: bigint;
+};
+
+export type LimitOrderParams = {
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: bigint;
+    amountOut: bigint;
+    isBuyOrder: boolean;
+};
+
+export type TransactionResult = { receipt: ContractTransactionReceipt };
+
+const DEFAULT_DEADLINE_SECONDS = 20n * 60n;
+
+// Every ABI the client talks to, so reverts from nested calls decode too
+const ERROR_INTERFACES: Interface[] = [
+    ContractRegistry__factory.createInterface(),
+    Degen4LifeController__factory.createInterface(),
+    Degen4LifeDEX__factory.createInterface(),
+    DegenENS__factory.createInterface(),
+    OrderBookModule__factory.createInterface(),
+    PredictionMarket__factory.createInterface(),
+    SocialTradingModule__factory.createInterface(),
+    IERC20__factory.createInterface(),
+];
+
+/**
+ * Entry point to a Degen4Life deployment on any network. Only the
+ * ContractRegistry address is needed; every other contract is looked up
+ * under its registry key and cached.
+ *
+ * Failed calls throw the typed errors from `./errors`.
+ */
+export class Degen4LifeClient {
+    private readonly addresses = new Map<RegistryKey, string>();
+
+    private constructor(
+        readonly chainId: bigint,
+        readonly registry: ContractRegistry,
+        readonly runner: ContractRunner
+    ) {}
+
+    static async connect(registryAddress: string, runner: ContractRunner): Promise<Degen4LifeClient> {
+        const provider = runner.provider;
+        if (!provider) {
+            throw new Degen4LifeError('The runner passed to Degen4LifeClient.connect has no provider');
+        }
+        const { chainId } = await provider.getNetwork();
+        if ((await provider.getCode(registryAddress)) === '0x') {
+            throw new Degen4LifeError(`No ContractRegistry deployed at ${registryAddress} on chain ${chainId}`);
+        }
+        return new Degen4LifeClient(chainId, ContractRegistry__factory.connect(registryAddress, runner), runner);
+    }
+
+    /** Address registered under `key`. */
+    async resolve(key: RegistryKey): Promise<string> {
+        const cached = this.addresses.get(key);
+        if (cached) return cached;
+        let address: string;
+        try {
+            address = await this.registry.getContractAddress(registryKeyId(key));
+        } catch (error) {
+            const decoded = decodeError(error, ERROR_INTERFACES);
+            if (decoded instanceof ContractRevertError && decoded.reason === 'Contract not registered') {
+                throw new ContractNotRegisteredError(key, error);
+            }
+            throw decoded;
+        }
+        this.addresses.set(key, address);
+        return address;
+    }
+
+    async controller(): Promise<Degen4LifeController> {
+        return Degen4LifeController__factory.connect(await this.resolve(RegistryKeys.CONTROLLER), this.runner);
+    }
+
+    async dex(): Promise<Degen4LifeDEX> {
+        return Degen4LifeDEX__factory.connect(await this.resolve(RegistryKeys.DEX), this.runner);
+    }
+
+    async ens(): Promise<DegenENS> {
+        return DegenENS__factory.connect(await this.resolve(RegistryKeys.ENS), this.runner);
+    }
+
+    async predictionMarket(): Promise<PredictionMarket> {
+        return PredictionMarket__factory.connect(await this.resolve(RegistryKeys.PREDICTION_MARKET), this.runner);
+    }
+
+    async orderBook(): Promise<OrderBookModule> {
+        return OrderBookModule__factory.connect(await this.resolve(RegistryKeys.ORDER_BOOK_MODULE), this.runner);
+    }
+
+    async socialTrading(): Promise<SocialTradingModule> {
+        return SocialTradingModule__factory.connect(await this.resolve(RegistryKeys.SOCIAL_TRADING_MODULE), this.runner);
+    }
+
+    /** Launches a token through the controller and returns its address. */
+    async launchToken(params: LaunchTokenParams): Promise<TransactionResult & { token: string }> {
+        const controller = await this.controller();
+        const receipt = await this.send('launchToken', () =>
+            controller.launchToken(params.name, params.symbol, params.initialSupply, params.security, params.pool, params.gate, {
+                value: params.pool.initialLiquidity,
+            })
+        );
+        const created = this.findEvent(receipt, ITokenFactory__factory.createInterface(), 'TokenCreated');
+        return { receipt, token: created.args.token };
+    }
+
+    /**
+     * Swaps on Degen4LifeDEX, approving `amountIn` first when the current
+     * allowance is lower.
+     */
+    async swap(params: SwapParams): Promise<TransactionResult & { amountOut: bigint }> {
+        const signer = await this.signerAddress('swap');
+        const dex = await this.dex();
+        await this.approve(params.tokenIn, await dex.getAddress(), params.amountIn);
+        const deadline = params.deadline ?? BigInt(Math.floor(Date.now() / 1000)) + DEFAULT_DEADLINE_SECONDS;
+        const receipt = await this.send('swap', () =>
+            dex.swapExactTokensForTokens(params.tokenIn, params.tokenOut, params.amountIn, params.minAmountOut, params.to ?? signer, deadline)
+        );
+        const swapped = this.findEvent(receipt, dex.interface, 'Swap');
+        return { receipt, amountOut: swapped.args.amountOut };
+    }
+
+    async createMarket(params: CreateMarketParams): Promise<TransactionResult & { marketId: string }> {
+        const market = await this.predictionMarket();
+        const receipt = await this.send('createMarket', () =>
+            market.createMarket(params.token, params.duration, params.description)
+        );
+        const created = this.findEvent(receipt, market.interface, 'MarketCreated');
+        return { receipt, marketId: created.args.marketId };
+    }
+
+    /** Stakes on a market, approving its token first when needed. */
+    async takePosition(params: TakePositionParams): Promise<TransactionResult> {
+        const market = await this.predictionMarket();
+        const { token } = await this.call(() => market.getMarket(params.marketId));
+        await this.approve(token, await market.getAddress(), params.amount);
+        const receipt = await this.send('takePosition', () =>
+            market.takePosition(params.marketId, params.isYes, params.amount)
+        );
+        return { receipt };
+    }
+
+    /** Registers a name through the controller, which holds the ENS registrar role. */
+    async registerName(params: RegisterNameParams): Promise<TransactionResult & { nameHash: string }> {
+        const owner = params.owner ?? (await this.signerAddress('registerName'));
+        const controller = await this.controller();
+        const receipt = await this.send('registerName', () =>
+            controller.registerName(params.name, owner, params.duration)
+        );
+        return { receipt, nameHash: ethers.id(params.name) };
+    }
+
+    /** Places an order, approving the book to pull `amountIn` of `tokenIn` when it is filled. */
+    async createLimitOrder(params: LimitOrderParams): Promise<TransactionResult & { orderId: string }> {
+        const orderBook = await this.orderBook();
+        await this.approve(params.tokenIn, await orderBook.getAddress(), params.amountIn);
+        const receipt = await this.send('createLimitOrder', () =>
+            orderBook.createLimitOrder(params.tokenIn, params.tokenOut, params.amountIn, params.amountOut, params.isBuyOrder)
+        );
+        const created = this.findEvent(receipt, orderBook.interface, 'OrderCreated');
+        return { receipt, orderId: created.args.orderId };
+    }
+
+    private async signerAddress(action: string): Promise<string> {
+        if (typeof (this.runner as Signer).getAddress !== 'function') {
+            throw new SignerRequiredError(action);
+        }
+        return (this.runner as Signer).getAddress();
+    }
+
+    private async approve(token: string, spender: string, amount: bigint) {
+        const owner = await this.signerAddress('approve');
+        const erc20 = IERC20__factory.connect(token, this.runner);
+        if ((await this.call(() => erc20.allowance(owner, spender))) < amount) {
+            await this.send('approve', () => erc20.approve(spender, amount));
+        }
+    }
+
+    private async call<T>(read: () => Promise<T>): Promise<T> {
+        try {
+            return await read();
+        } catch (error) {
+            throw decodeError(error, ERROR_INTERFACES);
+        }
+    }
+
+    private async send(
+        action: string,
+        submit: () => Promise<ContractTransactionResponse>
+    ): Promise<ContractTransactionReceipt> {
+        await this.signerAddress(action);
+        return this.call(async () => {
+            const receipt = await (await submit()).wait();
+            if (!receipt) {
+                throw new Degen4LifeError(`${action} was not mined`);
+            }
+            return receipt;
+        });
+    }
+
+    private findEvent(receipt: ContractTransactionReceipt, iface: Interface, name: string) {
+        const event = iface.getEvent(name)!;
+        for (const log of receipt.logs) {
+            if (log.topics[0] === event.topicHash) return iface.parseLog(log)!;
+        }
+        throw new Degen4LifeError(`Transaction ${receipt.hash} did not emit ${name}`);
+    }
+}
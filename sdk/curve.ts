@@ -0,0 +1,159 @@
+import { ContractRevertError, CurveSimulationError, PanicError } from './errors';
+
+/** IHydraCurve.CurveParams; every field is 18-decimal fixed point. */
+export type CurveParams = {
+    /** Price at zero supply, in wei per token */
+    initialPrice: bigint;
+    /** Supply the contract prices trades at */
+    initialSupply: bigint;
+    maxSupply: bigint;
+    baseWeight: bigint;
+    /** 1e18 is 1x */
+    priceMultiplier: bigint;
+};
+
+const WAD = 10n ** 18n;
+const BPS = 10_000n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+// Solidity 0.8 checked arithmetic, so overflows and divisions by zero fail
+// here with the same panic codes the contract reverts with.
+const add = (a: bigint, b: bigint) => (a + b > MAX_UINT256 ? panic(0x11n) : a + b);
+const sub = (a: bigint, b: bigint) => (a < b ? panic(0x11n) : a - b);
+const mul = (a: bigint, b: bigint) => (a * b > MAX_UINT256 ? panic(0x11n) : a * b);
+const div = (a: bigint, b: bigint) => (b === 0n ? panic(0x12n) : a / b);
+
+function panic(code: bigint): never {
+    throw new PanicError(code);
+}
+
+function requireThat(condition: boolean, reason: string): void {
+    if (!condition) throw new ContractRevertError(reason);
+}
+
+/** The checks HydraCurve.initializeCurve and updateCurveParams apply, with the same revert reasons. */
+export function validateCurveParams(params: CurveParams): void {
+    requireThat(params.initialPrice > 0n, 'Invalid initial price');
+    requireThat(params.initialSupply > 0n, 'Invalid initial supply');
+    requireThat(params.maxSupply >= params.initialSupply, 'Invalid max supply');
+    requireThat(params.baseWeight > 0n, 'Invalid base weight');
+    requireThat(params.priceMultiplier > 0n, 'Invalid price multiplier');
+}
+
+/**
+ * HydraCurve's fixed-point math in bigint, rounding and failing exactly like
+ * the contract: reverts throw ContractRevertError with the contract's reason
+ * and arithmetic errors throw PanicError. `test/HydraCurve.parity.ts` checks
+ * it against a deployed HydraCurve.
+ */
+export const HydraCurveMath = {
+    calculatePrice(params: CurveParams, supply: bigint): bigint {
+        if (supply === 0n) return params.initialPrice;
+        if (supply >= params.maxSupply) throw new ContractRevertError('Supply exceeds max');
+
+        let price = div(mul(params.initialPrice, add(supply, params.baseWeight)), params.baseWeight);
+        const supplyRatio = div(mul(supply, WAD), params.maxSupply);
+        price = div(mul(price, add(WAD, supplyRatio)), WAD);
+        return div(mul(price, params.priceMultiplier), WAD);
+    },
+
+    /** Price move of a trade of `amount` tokens at initialSupply, in basis points. */
+    calculatePriceImpact(params: CurveParams, amount: bigint, isBuy: boolean): bigint {
+        const currentSupply = params.initialSupply;
+        const currentPrice = this.calculatePrice(params, currentSupply);
+        const newSupply = isBuy ? add(currentSupply, amount) : currentSupply > amount ? currentSupply - amount : 0n;
+        const newPrice = this.calculatePrice(params, newSupply);
+        const change = isBuy ? sub(newPrice, currentPrice) : sub(currentPrice, newPrice);
+        return div(mul(change, BPS), currentPrice);
+    },
+
+    /** Tokens `ethAmount` buys at the price at initialSupply. */
+    calculateBuyAmount(params: CurveParams, ethAmount: bigint): bigint {
+        return div(mul(ethAmount, WAD), this.calculatePrice(params, params.initialSupply));
+    },
+
+    /** Wei `tokenAmount` sells for at the price at initialSupply. */
+    calculateSellAmount(params: CurveParams, tokenAmount: bigint): bigint {
+        return div(mul(tokenAmount, this.calculatePrice(params, params.initialSupply)), WAD);
+    },
+};
+
+export type CurveTrade = { side: 'buy' | 'sell'; amount: bigint };
+
+/** One simulated trade; amounts, prices and the reserve are in wei. */
+export type CurveStep = {
+    step: number;
+    side: 'buy' | 'sell';
+    /** Wei in for a buy, tokens in for a sell */
+    amountIn: bigint;
+    /** Tokens out for a buy, wei out for a sell */
+    amountOut: bigint;
+    supplyBefore: bigint;
+    supplyAfter: bigint;
+    priceBefore: bigint;
+    priceAfter: bigint;
+    /** Wei per token the trade filled at */
+    executionPrice: bigint;
+    /** calculatePriceImpact for the trade: how far it moves the price, in basis points */
+    slippageBps: bigint;
+    /** Wei the curve holds after the trade */
+    reserve: bigint;
+};
+
+/**
+ * Replays trades against a curve. HydraCurve prices every trade at the spot
+ * price of `initialSupply`, so after each trade the simulation moves
+ * `initialSupply` to the new supply, the way a token contract updating its
+ * curve would. The reserve starts at `initialReserve` and a sell it cannot
+ * pay fails with "Insufficient reserve". A failing trade throws
+ * CurveSimulationError with the steps simulated up to it.
+ *
+ * Since a whole trade fills at the spot price, executionPrice only differs
+ * from priceBefore by rounding; the cost of size shows up as slippage, how
+ * far the trade moves the price the next trade fills at.
+ */
+export function simulateCurve(params: CurveParams, trades: CurveTrade[], initialReserve = 0n): CurveStep[] {
+    validateCurveParams(params);
+    const steps: CurveStep[] = [];
+    let curve = { ...params };
+    let reserve = initialReserve;
+
+    for (const [index, trade] of trades.entries()) {
+        try {
+            const supplyBefore = curve.initialSupply;
+            const priceBefore = HydraCurveMath.calculatePrice(curve, supplyBefore);
+            let amountOut: bigint;
+            let supplyAfter: bigint;
+            if (trade.side === 'buy') {
+                amountOut = HydraCurveMath.calculateBuyAmount(curve, trade.amount);
+                supplyAfter = supplyBefore + amountOut;
+                reserve += trade.amount;
+            } else {
+                amountOut = HydraCurveMath.calculateSellAmount(curve, trade.amount);
+                requireThat(trade.amount <= supplyBefore, 'Insufficient supply');
+                requireThat(amountOut <= reserve, 'Insufficient reserve');
+                supplyAfter = supplyBefore - trade.amount;
+                reserve -= amountOut;
+            }
+            const [tokens, wei] = trade.side === 'buy' ? [amountOut, trade.amount] : [trade.amount, amountOut];
+
+            steps.push({
+                step: index + 1,
+                side: trade.side,
+                amountIn: trade.amount,
+                amountOut,
+                supplyBefore,
+                supplyAfter,
+                priceBefore,
+                priceAfter: HydraCurveMath.calculatePrice(curve, supplyAfter),
+                executionPrice: tokens === 0n ? 0n : (wei * WAD) / tokens,
+                slippageBps: HydraCurveMath.calculatePriceImpact(curve, tokens, trade.side === 'buy'),
+                reserve,
+            });
+            curve = { ...curve, initialSupply: supplyAfter };
+        } catch (error) {
+            throw new CurveSimulationError(index + 1, steps, error as Error);
+        }
+    }
+    return steps;
+}
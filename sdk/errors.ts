@@ -0,0 +1,136 @@
+import { AbiCoder, Interface, dataSlice, isError } from 'ethers';
+import type { CurveStep } from './curve';
+
+const ERROR_STRING_SELECTOR = '0x08c379a0'; // Error(string)
+const PANIC_SELECTOR = '0x4e487b71'; // Panic(uint256)
+
+/** Base class of every error thrown by the SDK. */
+export class Degen4LifeError extends Error {
+    constructor(message: string, readonly cause?: unknown) {
+        super(message);
+        this.name = new.target.name;
+    }
+}
+
+export class ContractNotRegisteredError extends Degen4LifeError {
+    constructor(readonly key: string, cause?: unknown) {
+        super(`No contract is registered under ${key}`, cause);
+    }
+}
+
+export class SignerRequiredError extends Degen4LifeError {
+    constructor(action: string) {
+        super(`${action} sends a transaction; connect the client with a signer`);
+    }
+}
+
+/** A `require`/`revert` with a reason string, or a revert without data. */
+export class ContractRevertError extends Degen4LifeError {
+    constructor(readonly reason: string, cause?: unknown) {
+        super(reason ? `Transaction reverted: ${reason}` : 'Transaction reverted without a reason', cause);
+    }
+}
+
+export class PanicError extends Degen4LifeError {
+    constructor(readonly code: bigint, cause?: unknown) {
+        super(`Transaction panicked with code 0x${code.toString(16)}`, cause);
+    }
+}
+
+/** A custom Solidity error decoded from one of the protocol ABIs. */
+export class ContractCustomError extends Degen4LifeError {
+    constructor(readonly errorName: string, readonly args: any[], cause?: unknown) {
+        super(`Transaction reverted with ${errorName}(${args.join(', ')})`, cause);
+    }
+}
+
+/** AccessControlUnauthorizedAccount or OwnableUnauthorizedAccount. */
+export class UnauthorizedError extends ContractCustomError {
+    readonly account: string;
+    /** Missing role id; undefined for owner-only functions */
+    readonly role?: string;
+
+    constructor(errorName: string, args: any[], cause?: unknown) {
+        super(errorName, args, cause);
+        [this.account, this.role] = args;
+    }
+}
+
+/** EnforcedPause: the contract is paused. */
+export class PausedError extends ContractCustomError {}
+
+/** Custom error whose selector matches none of the known ABIs. */
+export class UnknownContractError extends Degen4LifeError {
+    constructor(readonly data: string, cause?: unknown) {
+        super(`Transaction reverted with unknown error ${dataSlice(data, 0, 4)}`, cause);
+    }
+}
+
+/** A simulated curve trade failed; `steps` holds the trades before it. */
+export class CurveSimulationError extends Degen4LifeError {
+    constructor(readonly step: number, readonly steps: CurveStep[], cause: Error) {
+        super(`Trade ${step} failed: ${cause.message}`, cause);
+    }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null;
+
+/**
+ * Finds the revert data in an error thrown by ethers or by the node, which
+ * nest it differently depending on whether the call was estimated, sent or
+ * simulated.
+ */
+function findRevertData(error: unknown): string | undefined {
+    let current = error;
+    for (let depth = 0; isRecord(current) && depth < 5; depth++) {
+        const { data } = current;
+        if (typeof data === 'string' && data.startsWith('0x')) return data;
+        if (isRecord(data) && typeof data.data === 'string') return data.data;
+        current = current.error ?? (isRecord(current.info) ? current.info.error : undefined) ?? current.cause;
+    }
+    return undefined;
+}
+
+/**
+ * Converts a failed call into a typed SDK error. Errors that carry no revert
+ * data (network failures, user rejections) are returned unchanged.
+ */
+export function decodeError(error: unknown, interfaces: Interface[]): unknown {
+    if (error instanceof Degen4LifeError) {
+        return error;
+    }
+    const data = findRevertData(error);
+    if (data === undefined) {
+        return isError(error, 'CALL_EXCEPTION') ? new ContractRevertError('', error) : error;
+    }
+    if (data.length < 10) {
+        return new ContractRevertError('', error);
+    }
+
+    const selector = dataSlice(data, 0, 4);
+    if (selector === ERROR_STRING_SELECTOR) {
+        const [reason] = AbiCoder.defaultAbiCoder().decode(['string'], dataSlice(data, 4));
+        return new ContractRevertError(reason, error);
+    }
+    if (selector === PANIC_SELECTOR) {
+        const [code] = AbiCoder.defaultAbiCoder().decode(['uint256'], dataSlice(data, 4));
+        return new PanicError(code, error);
+    }
+
+    for (const iface of interfaces) {
+        const parsed = iface.parseError(data);
+        if (!parsed) continue;
+        const args = [...parsed.args];
+        switch (parsed.name) {
+            case 'AccessControlUnauthorizedAccount':
+            case 'OwnableUnauthorizedAccount':
+                return new UnauthorizedError(parsed.name, args, error);
+            case 'EnforcedPause':
+                return new PausedError(parsed.name, args, error);
+            default:
+                return new ContractCustomError(parsed.name, args, error);
+        }
+    }
+    return new UnknownContractError(data, error);
+}
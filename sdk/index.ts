@@ -0,0 +1,7 @@
+export * from './client';
+export * from './curve';
+export * from './errors';
+export * from './privacy';
+export * from './saltStore';
+export { RegistryKeys } from '../utils/registry';
+export type { RegistryKey } from '../utils/registry';
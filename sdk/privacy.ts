@@ -0,0 +1,272 @@
+import { ContractTransactionReceipt, ContractTransactionResponse, Interface, Signer, hexlify, randomBytes, solidityPackedKeccak256 } from 'ethers';
+import { IERC20__factory, PrivacyModule, PrivacyModule__factory } from '../typechain-types';
+import { Degen4LifeError, SignerRequiredError, decodeError } from './errors';
+import { SaltStore, StoredCommitment } from './saltStore';
+
+export type PrivateOrderParams = {
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: bigint;
+    minAmountOut: bigint;
+};
+
+export type PrivateOrder = PrivateOrderParams & {
+    maker: string;
+    /** 32 random bytes; without them the commitment cannot be revealed */
+    salt: string;
+};
+
+export enum CommitmentState {
+    /** Not on chain: the commitOrder transaction is pending or was never mined */
+    UNKNOWN = 'unknown',
+    /** Committed, but MIN_DELAY has not passed */
+    WAITING = 'waiting',
+    REVEALABLE = 'revealable',
+    EXECUTED = 'executed',
+    CANCELLED = 'cancelled',
+    /** Past expiryTime; it can only be cancelled */
+    EXPIRED = 'expired',
+}
+
+export type CommitmentStatus = {
+    state: CommitmentState;
+    /** Unix seconds revealAndExecute first accepts the order; 0 when unknown */
+    revealAt: bigint;
+    /** Unix seconds after which it no longer does; 0 when unknown */
+    expiresAt: bigint;
+};
+
+export type ScheduledReveal = {
+    /** Resolves with the amountOut of the executed order */
+    done: Promise<bigint>;
+    cancel(): void;
+};
+
+const ERROR_INTERFACES: Interface[] = [PrivacyModule__factory.createInterface(), IERC20__factory.createInterface()];
+
+/**
+ * The commitment PrivacyModule._hashOrder computes:
+ * keccak256(abi.encodePacked(maker, tokenIn, tokenOut, amountIn, minAmountOut, salt)).
+ */
+export function hashPrivateOrder(order: PrivateOrder): string {
+    return solidityPackedKeccak256(
+        ['address', 'address', 'address', 'uint256', 'uint256', 'bytes32'],
+        [order.maker, order.tokenIn, order.tokenOut, order.amountIn, order.minAmountOut, order.salt]
+    );
+}
+
+export function randomSalt(): string {
+    return hexlify(randomBytes(32));
+}
+
+/**
+ * Commits, reveals and tracks PrivacyModule orders for one signer. The order
+ * and its salt are saved in the SaltStore before commitOrder is sent, so a
+ * crash between the two cannot lose them, and are removed once the order is
+ * executed or cancelled.
+ */
+export class PrivateOrderClient {
+    private minDelay?: bigint;
+
+    private constructor(
+        readonly chainId: bigint,
+        readonly module: PrivacyModule,
+        readonly signer: Signer,
+        readonly store: SaltStore
+    ) {}
+
+    static async connect(moduleAddress: string, signer: Signer, store: SaltStore): Promise<PrivateOrderClient> {
+        if (typeof signer.getAddress !== 'function') {
+            throw new SignerRequiredError('PrivateOrderClient.connect');
+        }
+        const provider = signer.provider;
+        if (!provider) {
+            throw new Degen4LifeError('The signer passed to PrivateOrderClient.connect has no provider');
+        }
+        const { chainId } = await provider.getNetwork();
+        if ((await provider.getCode(moduleAddress)) === '0x') {
+            throw new Degen4LifeError(`No PrivacyModule deployed at ${moduleAddress} on chain ${chainId}`);
+        }
+        return new PrivateOrderClient(chainId, PrivacyModule__factory.connect(moduleAddress, signer), signer, store);
+    }
+
+    /** Commits to an order with a fresh salt. `delay` only widens the reveal window. */
+    async commit(params: PrivateOrderParams, delay: bigint): Promise<{ receipt: ContractTransactionReceipt; commitment: string }> {
+        const order: PrivateOrder = { ...params, maker: await this.signer.getAddress(), salt: randomSalt() };
+        const commitment = hashPrivateOrder(order);
+        // A mismatch would commit to something that can never be revealed
+        const onChain = await this.call(() => this.module.hashOrder({ ...order, signature: '0x' }));
+        if (onChain !== commitment) {
+            throw new Degen4LifeError(`PrivacyModule hashes the order to ${onChain}, expected ${commitment}`);
+        }
+
+        const record: StoredCommitment = {
+            commitment,
+            chainId: this.chainId.toString(),
+            module: await this.module.getAddress(),
+            maker: order.maker,
+            tokenIn: order.tokenIn,
+            tokenOut: order.tokenOut,
+            amountIn: order.amountIn.toString(),
+            minAmountOut: order.minAmountOut.toString(),
+            salt: order.salt,
+            delay: delay.toString(),
+        };
+        await this.store.put(record);
+        const receipt = await this.send(() => this.module.commitOrder(commitment, delay));
+        await this.store.put({ ...record, txHash: receipt.hash });
+        return { receipt, commitment };
+    }
+
+    async status(commitment: string): Promise<CommitmentStatus> {
+        const [order, minDelay, latest] = await Promise.all([
+            this.call(() => this.module.getOrder(commitment)),
+            this.revealDelay(),
+            this.signer.provider!.getBlock('latest'),
+        ]);
+        if (order.timestamp === 0n) {
+            return { state: CommitmentState.UNKNOWN, revealAt: 0n, expiresAt: 0n };
+        }
+        const now = BigInt(latest!.timestamp);
+        const revealAt = order.timestamp + minDelay;
+        const expiresAt = order.expiryTime;
+        let state: CommitmentState;
+        if (order.executed) state = CommitmentState.EXECUTED;
+        else if (order.cancelled) state = CommitmentState.CANCELLED;
+        else if (now > expiresAt) state = CommitmentState.EXPIRED;
+        // The next block is the earliest the reveal can be mined in
+        else if (now + 1n < revealAt) state = CommitmentState.WAITING;
+        else state = CommitmentState.REVEALABLE;
+        return { state, revealAt, expiresAt };
+    }
+
+    /** Approves tokenIn and reveals the order, returning the amount received. */
+    async reveal(commitment: string): Promise<{ receipt: ContractTransactionReceipt; amountOut: bigint }> {
+        const record = await this.record(commitment);
+        const amountIn = BigInt(record.amountIn);
+        const erc20 = IERC20__factory.connect(record.tokenIn, this.signer);
+        const spender = await this.module.getAddress();
+        if ((await this.call(() => erc20.allowance(record.maker, spender))) < amountIn) {
+            await this.send(() => erc20.approve(spender, amountIn));
+        }
+
+        const receipt = await this.send(() =>
+            this.module.revealAndExecute({
+                maker: record.maker,
+                tokenIn: record.tokenIn,
+                tokenOut: record.tokenOut,
+                amountIn,
+                minAmountOut: BigInt(record.minAmountOut),
+                salt: record.salt,
+                signature: '0x',
+            })
+        );
+        await this.store.delete(commitment);
+        const executed = receipt.logs
+            .map((log) => this.module.interface.parseLog(log))
+            .find((event) => event?.name === 'OrderExecuted');
+        return { receipt, amountOut: executed ? (executed.args.amountOut as bigint) : 0n };
+    }
+
+    /**
+     * Reveals the commitment as soon as MIN_DELAY has passed on chain. Waits
+     * up to `commitTimeout` ms for commitOrder to be mined first; rejects if
+     * it isn't by then, or if the commitment expired, was cancelled or the
+     * reveal reverts.
+     */
+    scheduleReveal(commitment: string, pollInterval = 5_000, commitTimeout = 30 * 60_000): ScheduledReveal {
+        let timer: ReturnType<typeof setTimeout> | undefined;
+        let cancelled = false;
+        const sleep = (ms: number) =>
+            new Promise<void>((resolve) => {
+                timer = setTimeout(resolve, ms);
+            });
+
+        const done = (async () => {
+            const commitDeadline = Date.now() + commitTimeout;
+            while (!cancelled) {
+                const { state, revealAt } = await this.status(commitment);
+                if (state === CommitmentState.REVEALABLE) {
+                    return (await this.reveal(commitment)).amountOut;
+                }
+                if (state !== CommitmentState.WAITING && state !== CommitmentState.UNKNOWN) {
+                    throw new Degen4LifeError(`Commitment ${commitment} is ${state} and cannot be revealed`);
+                }
+                if (state === CommitmentState.UNKNOWN && Date.now() >= commitDeadline) {
+                    throw new Degen4LifeError(`Commitment ${commitment} is not on chain after ${commitTimeout} ms; was commitOrder mined?`);
+                }
+                const latest = await this.signer.provider!.getBlock('latest');
+                const wait = state === CommitmentState.WAITING ? Number(revealAt - BigInt(latest!.timestamp)) * 1000 : 0;
+                await sleep(Math.max(wait, pollInterval));
+            }
+            throw new Degen4LifeError(`Reveal of ${commitment} was cancelled`);
+        })();
+
+        return {
+            done,
+            cancel: () => {
+                cancelled = true;
+                clearTimeout(timer);
+            },
+        };
+    }
+
+    /**
+     * Stored commitments of this signer on this module that can no longer be
+     * revealed. Expired ones still need cancelOrder; the others are already
+     * settled on chain and only linger in the store.
+     */
+    async unrevealable(): Promise<(StoredCommitment & { state: CommitmentState })[]> {
+        const maker = (await this.signer.getAddress()).toLowerCase();
+        const module = (await this.module.getAddress()).toLowerCase();
+        const stranded: (StoredCommitment & { state: CommitmentState })[] = [];
+        for (const record of await this.store.list()) {
+            if (record.chainId !== this.chainId.toString() || record.module.toLowerCase() !== module) continue;
+            if (record.maker.toLowerCase() !== maker) continue;
+            const { state } = await this.status(record.commitment);
+            if (state === CommitmentState.EXPIRED || state === CommitmentState.CANCELLED || state === CommitmentState.EXECUTED) {
+                stranded.push({ ...record, state });
+            }
+        }
+        return stranded;
+    }
+
+    /** Cancels the commitment and forgets its salt. */
+    async cancel(commitment: string): Promise<ContractTransactionReceipt> {
+        const receipt = await this.send(() => this.module.cancelOrder(commitment));
+        await this.store.delete(commitment);
+        return receipt;
+    }
+
+    private async record(commitment: string): Promise<StoredCommitment> {
+        const record = await this.store.get(commitment);
+        if (!record) {
+            throw new Degen4LifeError(`No salt stored for commitment ${commitment}`);
+        }
+        return record;
+    }
+
+    private async revealDelay(): Promise<bigint> {
+        this.minDelay ??= await this.call(() => this.module.MIN_DELAY());
+        return this.minDelay;
+    }
+
+    private async call<T>(read: () => Promise<T>): Promise<T> {
+        try {
+            return await read();
+        } catch (error) {
+            throw decodeError(error, ERROR_INTERFACES);
+        }
+    }
+
+    private async send(submit: () => Promise<ContractTransactionResponse>): Promise<ContractTransactionReceipt> {
+        return this.call(async () => {
+            const response = await submit();
+            const receipt = await response.wait();
+            if (!receipt) {
+                throw new Degen4LifeError(`Transaction ${response.hash} was not mined`);
+            }
+            return receipt;
+        });
+    }
+}
@@ -0,0 +1,162 @@
+import { promises as fs } from 'fs';
+import { getBytes, hexlify, randomBytes, toUtf8Bytes, toUtf8String } from 'ethers';
+import { Degen4LifeError } from './errors';
+
+const KEY_PREFIX = 'd4l:privacy:';
+const KDF_KEY = `${KEY_PREFIX}kdf`;
+const INDEX_KEY = `${KEY_PREFIX}index`;
+const PBKDF2_ITERATIONS = 600_000;
+
+// WebCrypto only takes ArrayBuffer-backed views; ethers' byte arrays may sit on any ArrayBufferLike
+const buffer = (bytes: Uint8Array) => new Uint8Array(bytes);
+
+/** The subset of the Web Storage API the store needs; `window.localStorage` satisfies it. */
+export interface StorageLike {
+    getItem(key: string): string | null | Promise<string | null>;
+    setItem(key: string, value: string): void | Promise<void>;
+    removeItem(key: string): void | Promise<void>;
+}
+
+/** Everything needed to reveal a PrivacyModule commitment. uints are decimal strings. */
+export type StoredCommitment = {
+    commitment: string;
+    chainId: string;
+    module: string;
+    maker: string;
+    tokenIn: string;
+    tokenOut: string;
+    amountIn: string;
+    minAmountOut: string;
+    salt: string;
+    /** Seconds passed to commitOrder */
+    delay: string;
+    /** Hash of the commitOrder transaction, once sent */
+    txHash?: string;
+};
+
+export interface SaltStore {
+    put(record: StoredCommitment): Promise<void>;
+    get(commitment: string): Promise<StoredCommitment | undefined>;
+    delete(commitment: string): Promise<void>;
+    list(): Promise<StoredCommitment[]>;
+}
+
+/**
+ * Keeps commitment records in a StorageLike, each encrypted with AES-256-GCM
+ * under a key derived from a passphrase (PBKDF2-SHA256). Uses WebCrypto, so
+ * it runs in browsers and Node alike. The commitment list is stored in the
+ * clear; commitments are public on chain anyway.
+ */
+export class EncryptedSaltStore implements SaltStore {
+    private key?: Promise<CryptoKey>;
+
+    constructor(private readonly storage: StorageLike, private readonly passphrase: string) {}
+
+    async put(record: StoredCommitment): Promise<void> {
+        const iv = randomBytes(12);
+        const ciphertext = await crypto.subtle.encrypt(
+            { name: 'AES-GCM', iv: buffer(iv) },
+            await this.cryptoKey(),
+            buffer(toUtf8Bytes(JSON.stringify(record)))
+        );
+        await this.storage.setItem(`${KEY_PREFIX}${record.commitment}`, `${hexlify(iv)}:${hexlify(new Uint8Array(ciphertext))}`);
+        const index = await this.index();
+        if (!index.includes(record.commitment)) {
+            await this.storage.setItem(INDEX_KEY, JSON.stringify([...index, record.commitment]));
+        }
+    }
+
+    async get(commitment: string): Promise<StoredCommitment | undefined> {
+        const stored = await this.storage.getItem(`${KEY_PREFIX}${commitment}`);
+        if (stored === null) return undefined;
+        const [iv, ciphertext] = stored.split(':');
+        try {
+            const plaintext = await crypto.subtle.decrypt(
+                { name: 'AES-GCM', iv: buffer(getBytes(iv)) },
+                await this.cryptoKey(),
+                buffer(getBytes(ciphertext))
+            );
+            return JSON.parse(toUtf8String(new Uint8Array(plaintext)));
+        } catch (error) {
+            throw new Degen4LifeError(`Cannot decrypt the record of ${commitment}; is the passphrase right?`, error);
+        }
+    }
+
+    async delete(commitment: string): Promise<void> {
+        await this.storage.removeItem(`${KEY_PREFIX}${commitment}`);
+        const index = await this.index();
+        await this.storage.setItem(INDEX_KEY, JSON.stringify(index.filter((stored) => stored !== commitment)));
+    }
+
+    async list(): Promise<StoredCommitment[]> {
+        const records: StoredCommitment[] = [];
+        for (const commitment of await this.index()) {
+            const record = await this.get(commitment);
+            if (record) records.push(record);
+        }
+        return records;
+    }
+
+    private async index(): Promise<string[]> {
+        return JSON.parse((await this.storage.getItem(INDEX_KEY)) ?? '[]');
+    }
+
+    private cryptoKey(): Promise<CryptoKey> {
+        this.key ??= (async () => {
+            // The KDF salt is created with the store and kept next to the records
+            let salt = await this.storage.getItem(KDF_KEY);
+            if (salt === null) {
+                salt = hexlify(randomBytes(16));
+                await this.storage.setItem(KDF_KEY, salt);
+            }
+            const material = await crypto.subtle.importKey('raw', buffer(toUtf8Bytes(this.passphrase)), 'PBKDF2', false, ['deriveKey']);
+            return crypto.subtle.deriveKey(
+                { name: 'PBKDF2', hash: 'SHA-256', salt: buffer(getBytes(salt)), iterations: PBKDF2_ITERATIONS },
+                material,
+                { name: 'AES-GCM', length: 256 },
+                false,
+                ['encrypt', 'decrypt']
+            );
+        })();
+        return this.key;
+    }
+}
+
+/** StorageLike backed by a JSON file, for Node. Writes replace the file atomically. */
+export class FileStorage implements StorageLike {
+    private items?: Record<string, string>;
+
+    constructor(private readonly path: string) {}
+
+    async getItem(key: string): Promise<string | null> {
+        return (await this.load())[key] ?? null;
+    }
+
+    async setItem(key: string, value: string): Promise<void> {
+        (await this.load())[key] = value;
+        await this.save();
+    }
+
+    async removeItem(key: string): Promise<void> {
+        delete (await this.load())[key];
+        await this.save();
+    }
+
+    private async load(): Promise<Record<string, string>> {
+        if (!this.items) {
+            try {
+                this.items = JSON.parse(await fs.readFile(this.path, 'utf8'));
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+                this.items = {};
+            }
+        }
+        return this.items!;
+    }
+
+    private async save(): Promise<void> {
+        const tmp = `${this.path}.tmp`;
+        await fs.writeFile(tmp, JSON.stringify(this.items, null, 2), { mode: 0o600 });
+        await fs.rename(tmp, this.path);
+    }
+}
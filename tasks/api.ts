@@ -0,0 +1,82 @@
+import { randomBytes } from "crypto";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { task, types } from "hardhat/config";
+import { DEFAULT_AUTH_OPTIONS } from "../api/auth";
+
+type ApiArgs = {
+    port: number;
+    registry?: string;
+    view?: string;
+    launchpad?: string;
+    risk?: string;
+    domain?: string;
+    operator?: string;
+    sessionTtl: number;
+    origins?: string;
+    publicUrl?: string;
+};
+
+task("api:serve", "Serves the protocol read paths over HTTP with OpenAPI docs at /docs")
+    .addOptionalParam("port", "Port to listen on", 3000, types.int)
+    .addOptionalParam("registry", "ContractRegistry address; defaults to the ContractRegistry deployment", undefined, types.string)
+    .addOptionalParam("view", "Degen4LifeView address; defaults to its deployment", undefined, types.string)
+    .addOptionalParam("launchpad", "LaunchpadAPI address; defaults to its deployment", undefined, types.string)
+    .addOptionalParam("risk", "RiskManagementModule address; defaults to its deployment", undefined, types.string)
+    .addOptionalParam("domain", "Domain SIWE messages must be issued for; defaults to localhost:<port>", undefined, types.string)
+    .addOptionalParam("operator", "Named account admin endpoints send transactions from; admin endpoints are disabled without it", undefined, types.string)
+    .addOptionalParam("origins", "Comma-separated origins allowed to make credentialed requests", undefined, types.string)
+    .addOptionalParam("publicUrl", "URL clients reach the server at, for metadata image links; defaults to the domain", undefined, types.string)
+    .addOptionalParam("sessionTtl", "Seconds a sign-in stays valid", DEFAULT_AUTH_OPTIONS.sessionTtl, types.int)
+    .setAction(async (args: ApiArgs, hre) => {
+        const { createApp } = await import("../api/app");
+        const { connectApiContracts } = await import("../api/contracts");
+
+        const registry = args.registry ?? (await hre.deployments.get("ContractRegistry")).address;
+        const view = args.view ?? (await hre.deployments.getOrNull("Degen4LifeView"))?.address;
+        const launchpad = args.launchpad ?? (await hre.deployments.getOrNull("LaunchpadAPI"))?.address;
+        const risk = args.risk ?? (await hre.deployments.getOrNull("RiskManagementModule"))?.address;
+        if (!view) console.warn(`Degen4LifeView is not deployed on ${hre.network.name}; /users routes answer 503`);
+        if (!launchpad) console.warn(`LaunchpadAPI is not deployed on ${hre.network.name}; /launches routes answer 503`);
+        if (!risk) console.warn(`RiskManagementModule is not deployed on ${hre.network.name}; /risk routes answer 503`);
+
+        let operator: HardhatEthersSigner | undefined;
+        if (args.operator) {
+            const accounts = await hre.getNamedAccounts();
+            if (!accounts[args.operator]) {
+                throw new Error(`Named account ${args.operator} is not configured for ${hre.network.name}`);
+            }
+            operator = await hre.ethers.getSigner(accounts[args.operator]);
+        }
+
+        const domain = args.domain ?? `localhost:${args.port}`;
+        // The SIWE domain is an authority, host and optional port
+        const local = new URL(`http://${domain}`).hostname === "localhost";
+        let jwtSecret = process.env.API_JWT_SECRET;
+        if (!jwtSecret) {
+            if (!local) {
+                throw new Error("Set API_JWT_SECRET to serve a non-local domain");
+            }
+            console.warn("API_JWT_SECRET is not set; using a random secret, sessions end when the server stops");
+            jwtSecret = randomBytes(32).toString("hex");
+        }
+
+        const contracts = await connectApiContracts(registry, hre.ethers.provider, { view, launchpad, risk }, operator);
+        const app = createApp(hre.ethers.provider, contracts, {
+            ...DEFAULT_AUTH_OPTIONS,
+            jwtSecret,
+            domain,
+            chainId: contracts.client.chainId,
+            sessionTtl: args.sessionTtl,
+            // Browsers only send Secure cookies over https, which local servers don't have
+            secureCookie: !local,
+        }, args.origins?.split(",").map((origin) => origin.trim()), args.publicUrl);
+
+        await new Promise<void>((resolve, reject) => {
+            const server = app.listen(args.port, () => {
+                console.log(`Serving ${hre.network.name} (registry ${registry}) on http://localhost:${args.port}, docs at /docs`);
+                if (operator) console.log(`Admin endpoints send from ${operator.address}`);
+            });
+            server.on("error", reject);
+            process.once("SIGINT", () => server.close(() => resolve()));
+        });
+    });
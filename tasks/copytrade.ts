@@ -0,0 +1,144 @@
+import { promises as fs } from "fs";
+import { isAddress, parseEther } from "ethers";
+import { task, types } from "hardhat/config";
+import { AuditLog, replayAuditLog } from "../copytrade/audit";
+import type { FollowerAccount } from "../copytrade/engine";
+import { DEFAULT_RISK_SETTINGS, RiskSettings } from "../copytrade/sizing";
+import { formatTable } from "../utils/table";
+
+type CopyTradeArgs = {
+    registry?: string;
+    account: string;
+    followers: string;
+    log: string;
+    fromBlock?: number;
+    confirmations?: number;
+    pollInterval?: number;
+    maxTradeAge?: number;
+    gasReserve: string;
+    dryRun: boolean;
+    once: boolean;
+};
+
+/** A follower entry of the --followers file; omitted limits take the defaults. */
+type FollowerConfig = {
+    /** Named account or address of a signer configured for the network */
+    account: string;
+    maxSlippageBps?: number;
+    maxTradeBps?: number;
+    /** tokenIn base units, as a decimal string */
+    minTradeAmount?: string;
+    tokens?: string[];
+};
+
+task("copytrade:run", "Mirrors followed traders' Degen4LifeDEX swaps for followers and records them on SocialTradingModule")
+    .addOptionalParam("registry", "ContractRegistry address; defaults to the ContractRegistry deployment", undefined, types.string)
+    .addOptionalParam("account", "Named account recordTrade is sent from; needs COPY_TRADER_ROLE", "deployer", types.string)
+    .addParam("followers", "JSON file of the followers to trade for and their risk settings", undefined, types.string)
+    .addOptionalParam("log", "JSON Lines audit log of every copy decision", "copytrade-audit.jsonl", types.string)
+    .addOptionalParam("fromBlock", "First block to copy trades from; defaults to the current head", undefined, types.int)
+    .addOptionalParam("confirmations", "Blocks to stay behind the head", undefined, types.int)
+    .addOptionalParam("pollInterval", "Milliseconds between rounds", undefined, types.int)
+    .addOptionalParam("maxTradeAge", "Seconds after which a leader trade is no longer copied", undefined, types.int)
+    .addOptionalParam("gasReserve", "ETH each follower keeps for gas when copying ETH trades", "0.01", types.string)
+    .addFlag("dryRun", "Plan copies and print them; nothing is sent or logged")
+    .addFlag("once", "Run a single round and exit")
+    .setAction(async (args: CopyTradeArgs, hre) => {
+        const { CopyTradeEngine, DEFAULT_COPY_TRADE_OPTIONS } = await import("../copytrade/engine");
+        const { FollowTracker } = await import("../copytrade/follows");
+        const { Degen4LifeClient } = await import("../sdk");
+        const accounts = await hre.getNamedAccounts();
+        const resolveAccount = (account: string) => {
+            if (isAddress(account)) return account;
+            if (!accounts[account]) {
+                throw new Error(`Named account ${account} is not configured for ${hre.network.name}`);
+            }
+            return accounts[account];
+        };
+        const signer = await hre.ethers.getSigner(resolveAccount(args.account));
+
+        const registry = args.registry ?? (await hre.deployments.get("ContractRegistry")).address;
+        const client = await Degen4LifeClient.connect(registry, signer);
+        const [socialTrading, dex] = await Promise.all([client.socialTrading(), client.dex()]);
+        if (!args.dryRun && !(await socialTrading.hasRole(await socialTrading.COPY_TRADER_ROLE(), signer.address))) {
+            throw new Error(`${args.account} (${signer.address}) does not hold COPY_TRADER_ROLE on SocialTradingModule`);
+        }
+
+        const configs: FollowerConfig[] = JSON.parse(await fs.readFile(args.followers, "utf8"));
+        const followers = new Map<string, FollowerAccount>();
+        for (const config of configs) {
+            const follower = await hre.ethers.getSigner(resolveAccount(config.account));
+            const risk: RiskSettings = {
+                maxSlippageBps: BigInt(config.maxSlippageBps ?? DEFAULT_RISK_SETTINGS.maxSlippageBps),
+                maxTradeBps: BigInt(config.maxTradeBps ?? DEFAULT_RISK_SETTINGS.maxTradeBps),
+                minTradeAmount: BigInt(config.minTradeAmount ?? DEFAULT_RISK_SETTINGS.minTradeAmount),
+                tokens: config.tokens,
+            };
+            if (risk.maxSlippageBps > 10_000n || risk.maxTradeBps > 10_000n) {
+                throw new Error(`${args.followers}: limits for ${config.account} must be at most 10000 bps`);
+            }
+            followers.set(follower.address.toLowerCase(), { signer: follower, risk });
+        }
+
+        // Follows are read from the module's deployment so that existing ones are known
+        const socialDeployment = await hre.deployments.getOrNull("SocialTradingModule");
+        const fromBlock = args.fromBlock ?? (await hre.ethers.provider.getBlockNumber());
+        const engine = new CopyTradeEngine(
+            hre.ethers.provider,
+            socialTrading,
+            dex,
+            new FollowTracker(socialTrading, socialDeployment?.receipt?.blockNumber ?? 0),
+            followers,
+            new AuditLog(args.log),
+            fromBlock,
+            {
+                confirmations: args.confirmations ?? DEFAULT_COPY_TRADE_OPTIONS.confirmations,
+                pollInterval: args.pollInterval ?? DEFAULT_COPY_TRADE_OPTIONS.pollInterval,
+                maxTradeAge: args.maxTradeAge ?? DEFAULT_COPY_TRADE_OPTIONS.maxTradeAge,
+                gasReserve: parseEther(args.gasReserve),
+                dryRun: args.dryRun,
+            }
+        );
+        console.log(
+            `Copying trades for ${followers.size} follower(s) on ${hre.network.name} from block ${fromBlock}` +
+                (args.dryRun ? " (dry run)" : `, audit log ${args.log}`)
+        );
+
+        if (args.once) {
+            const report = await engine.runOnce();
+            for (const failure of report.failures) console.warn(failure);
+            for (const skipped of report.skipped) console.log(`Skipped ${skipped}`);
+            console.log(
+                `Block ${report.block}: ${report.leaderTrades} leader trade(s), ` +
+                    `${report.executed.length} ${args.dryRun ? "planned" : "copied"}, ${report.skipped.length} skipped`
+            );
+        } else {
+            process.once("SIGINT", () => engine.stop());
+            await engine.run();
+        }
+    });
+
+task("copytrade:replay", "Re-plans every decision in a copy-trade audit log and reports those that differ")
+    .addOptionalParam("log", "JSON Lines audit log written by copytrade:run", "copytrade-audit.jsonl", types.string)
+    .setAction(async ({ log }: { log: string }) => {
+        const results = replayAuditLog(await new AuditLog(log).entries());
+        const describe = (plan: { kind: string; amountIn?: bigint; reason?: string }) =>
+            plan.kind === "copy" ? `copy ${plan.amountIn}` : `skip: ${plan.reason}`;
+        console.log(formatTable(
+            ["Time", "Trade", "Follower", "Outcome", "Logged plan", "Replayed plan", ""],
+            results.map(({ entry, replanned, matches }) => [
+                entry.at,
+                entry.input.trade.id,
+                entry.follower,
+                entry.outcome,
+                describe(entry.plan),
+                describe(replanned),
+                matches ? "" : "MISMATCH",
+            ])
+        ));
+        const mismatches = results.filter((result) => !result.matches).length;
+        if (mismatches > 0) {
+            throw new Error(`${mismatches} of ${results.length} logged decision(s) replay differently`);
+        }
+        console.log(`\nAll ${results.length} logged decision(s) replay the same`);
+    });
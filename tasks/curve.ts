@@ -0,0 +1,141 @@
+import { promises as fs } from "fs";
+import { formatEther, parseEther } from "ethers";
+import { task, types } from "hardhat/config";
+import type { CurveParams, CurveStep, CurveTrade } from "../sdk";
+import { formatCsv, formatTable } from "../utils/table";
+
+type CurveArgs = {
+    params?: string;
+    token?: string;
+    curve?: string;
+    trades: string;
+    reserve: string;
+    format: string;
+    out?: string;
+};
+
+const PARAM_FIELDS: (keyof CurveParams)[] = ["initialPrice", "initialSupply", "maxSupply", "baseWeight", "priceMultiplier"];
+const FORMATS = ["table", "csv", "json"];
+
+/** Curve params from JSON, each field a decimal in 18-decimal units, e.g. `"priceMultiplier": "1.5"`. */
+async function readParams(file: string): Promise<CurveParams> {
+    const raw: Record<string, unknown> = JSON.parse(await fs.readFile(file, "utf8"));
+    const params = {} as CurveParams;
+    for (const field of PARAM_FIELDS) {
+        if (raw[field] === undefined) throw new Error(`${file}: ${field} is missing`);
+        params[field] = parseEther(String(raw[field]));
+    }
+    return params;
+}
+
+/**
+ * Trades from a JSON array of `{ "side": "buy", "amount": "1.5" }` or a CSV
+ * of `side,amount` lines. Buy amounts are ETH, sell amounts tokens.
+ */
+async function readTrades(file: string): Promise<CurveTrade[]> {
+    const content = await fs.readFile(file, "utf8");
+    const entries: { side: unknown; amount: unknown }[] = file.endsWith(".csv")
+        ? content
+              .split(/\r?\n/)
+              .map((line) => line.trim())
+              .filter((line) => line && !/^side\s*,/i.test(line))
+              .map((line) => {
+                  const [side, amount] = line.split(",").map((cell) => cell.trim());
+                  return { side, amount };
+              })
+        : JSON.parse(content);
+    return entries.map(({ side, amount }, index) => {
+        if (side !== "buy" && side !== "sell") {
+            throw new Error(`${file}: trade ${index + 1} has side ${String(side)}; expected buy or sell`);
+        }
+        return { side, amount: parseEther(String(amount)) };
+    });
+}
+
+function render(steps: CurveStep[], format: string): string {
+    if (format === "json") {
+        const rows = steps.map((step) => ({
+            step: step.step,
+            side: step.side,
+            amountIn: formatEther(step.amountIn),
+            amountOut: formatEther(step.amountOut),
+            supply: formatEther(step.supplyAfter),
+            priceBefore: formatEther(step.priceBefore),
+            priceAfter: formatEther(step.priceAfter),
+            executionPrice: formatEther(step.executionPrice),
+            slippageBps: Number(step.slippageBps),
+            reserve: formatEther(step.reserve),
+        }));
+        return JSON.stringify(rows, null, 2) + "\n";
+    }
+    const headers = ["step", "side", "amount_in", "amount_out", "supply", "price_before", "price_after", "execution_price", "slippage_bps", "reserve"];
+    const rows = steps.map((step) => [
+        String(step.step),
+        step.side,
+        formatEther(step.amountIn),
+        formatEther(step.amountOut),
+        formatEther(step.supplyAfter),
+        formatEther(step.priceBefore),
+        formatEther(step.priceAfter),
+        formatEther(step.executionPrice),
+        step.slippageBps.toString(),
+        formatEther(step.reserve),
+    ]);
+    return format === "csv" ? formatCsv(headers, rows) : formatTable(headers, rows) + "\n";
+}
+
+task("curve:simulate", "Replays a trade sequence on a HydraCurve and prints the price, slippage and reserve after each trade")
+    .addOptionalParam("params", "JSON file of curve params in 18-decimal units", undefined, types.string)
+    .addOptionalParam("token", "Token whose on-chain curve params are simulated instead of --params", undefined, types.string)
+    .addOptionalParam("curve", "HydraCurve address for --token; defaults to its deployment", undefined, types.string)
+    .addParam("trades", "JSON or CSV file of trades; buys in ETH, sells in tokens", undefined, types.string)
+    .addOptionalParam("reserve", "ETH the curve holds before the first trade", "0", types.string)
+    .addOptionalParam("format", `Output format: ${FORMATS.join(", ")}`, "table", types.string)
+    .addOptionalParam("out", "File to write the output to instead of stdout", undefined, types.string)
+    .setAction(async (args: CurveArgs, hre) => {
+        if (!FORMATS.includes(args.format)) {
+            throw new Error(`Unknown format ${args.format}; expected one of ${FORMATS.join(", ")}`);
+        }
+        if (Boolean(args.params) === Boolean(args.token)) {
+            throw new Error("Pass exactly one of --params and --token");
+        }
+        const { CurveSimulationError, simulateCurve } = await import("../sdk");
+
+        let params: CurveParams;
+        if (args.params) {
+            params = await readParams(args.params);
+        } else {
+            const address = args.curve ?? (await hre.deployments.getOrNull("HydraCurve"))?.address;
+            if (!address) {
+                throw new Error(`HydraCurve is not deployed on ${hre.network.name}; pass --curve`);
+            }
+            const { IHydraCurve__factory } = await import("../typechain-types");
+            const onChain = await IHydraCurve__factory.connect(address, hre.ethers.provider).getCurveParams(args.token!);
+            params = {
+                initialPrice: onChain.initialPrice,
+                initialSupply: onChain.initialSupply,
+                maxSupply: onChain.maxSupply,
+                baseWeight: onChain.baseWeight,
+                priceMultiplier: onChain.priceMultiplier,
+            };
+        }
+
+        let steps: CurveStep[];
+        let failure: InstanceType<typeof CurveSimulationError> | undefined;
+        try {
+            steps = simulateCurve(params, await readTrades(args.trades), parseEther(args.reserve));
+        } catch (error) {
+            if (!(error instanceof CurveSimulationError)) throw error;
+            steps = error.steps;
+            failure = error;
+        }
+
+        const output = render(steps, args.format);
+        if (args.out) {
+            await fs.writeFile(args.out, output);
+            console.log(`Wrote ${steps.length} trade(s) to ${args.out}`);
+        } else {
+            process.stdout.write(output);
+        }
+        if (failure) throw failure;
+    });
@@ -0,0 +1,11 @@
+import { task, types } from "hardhat/config";
+import { parseResumePoint, setResumePoint } from "../utils/deploy/journal";
+import { setDeployTags } from "../utils/deploy/preflight";
+
+task("deploy")
+    .addOptionalParam("fromStep", "Resume a tag at a numbered step, e.g. core:9; earlier steps of that tag are not sent", undefined, types.string)
+    .setAction(async (args: { fromStep?: string; tags?: string }, hre, runSuper) => {
+        setResumePoint(hre, args.fromStep ? parseResumePoint(args.fromStep) : undefined);
+        setDeployTags(hre, args.tags ? args.tags.split(",").map((tag) => tag.trim()) : undefined);
+        return runSuper(args);
+    });
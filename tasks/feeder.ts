@@ -0,0 +1,90 @@
+import { task, types } from "hardhat/config";
+import { openDatabase } from "../indexer/db";
+import { FileAdapter, IndexedMetricsAdapter, MetricAdapter, loadAdapter } from "../feeder/adapters";
+import { DEFAULT_FEEDER_OPTIONS, MetricsFeeder, tokensWithOpenMarkets } from "../feeder/feeder";
+
+type FeederArgs = {
+    db: string;
+    bonkWars?: string;
+    account: string;
+    tokens?: string;
+    metricsFile?: string;
+    adapters?: string;
+    deviationBps: number;
+    heartbeat: number;
+    pollInterval: number;
+    maxLag: number;
+    dryRun: boolean;
+    once: boolean;
+};
+
+const list = (value?: string) => value?.split(",").map((item) => item.trim()).filter(Boolean) ?? [];
+
+task("feeder:run", "Pushes token metrics into BonkWars as its oracle")
+    .addOptionalParam("db", "Event indexer database: SQLite file or postgres:// connection string", "indexer.sqlite", types.string)
+    .addOptionalParam("bonkWars", "BonkWars address; defaults to its deployment", undefined, types.string)
+    .addOptionalParam("account", "Named account of the BonkWars oracle", "deployer", types.string)
+    .addOptionalParam("tokens", "Comma-separated tokens to feed; defaults to tokens with an open BonkWars market", undefined, types.string)
+    .addOptionalParam("metricsFile", "JSON file of metrics per token, re-read every round", undefined, types.string)
+    .addOptionalParam("adapters", "Comma-separated adapter plugin modules", undefined, types.string)
+    .addOptionalParam("deviationBps", "Change that is pushed right away, in bps", Number(DEFAULT_FEEDER_OPTIONS.deviationBps), types.int)
+    .addOptionalParam("heartbeat", "Seconds after which smaller changes are pushed", DEFAULT_FEEDER_OPTIONS.heartbeat, types.int)
+    .addOptionalParam("pollInterval", "Milliseconds between rounds", DEFAULT_FEEDER_OPTIONS.pollInterval, types.int)
+    .addOptionalParam("maxLag", "Blocks the indexer may be behind before indexed metrics are held back", 50, types.int)
+    .addFlag("dryRun", "Check the updates with eth_call instead of sending them")
+    .addFlag("once", "Run a single round and exit")
+    .setAction(async (args: FeederArgs, hre) => {
+        const address = args.bonkWars ?? (await hre.deployments.getOrNull("BonkWars"))?.address;
+        if (!address) {
+            throw new Error(`BonkWars is not deployed on ${hre.network.name}; pass --bonk-wars`);
+        }
+        const accounts = await hre.getNamedAccounts();
+        if (!accounts[args.account]) {
+            throw new Error(`Named account ${args.account} is not configured for ${hre.network.name}`);
+        }
+        const signer = await hre.ethers.getSigner(accounts[args.account]);
+        const { BonkWars__factory } = await import("../typechain-types");
+        const bonkWars = BonkWars__factory.connect(address, signer);
+        const oracle = await bonkWars.oracle();
+        if (oracle.toLowerCase() !== signer.address.toLowerCase()) {
+            throw new Error(`${args.account} (${signer.address}) is not the BonkWars oracle ${oracle}`);
+        }
+
+        const db = await openDatabase(args.db);
+        const adapters: MetricAdapter[] = [new IndexedMetricsAdapter(db, hre.ethers.provider, undefined, args.maxLag)];
+        if (args.metricsFile) adapters.push(new FileAdapter(args.metricsFile));
+        for (const plugin of list(args.adapters)) adapters.push(await loadAdapter(plugin));
+
+        const tokens = list(args.tokens);
+        const feeder = new MetricsFeeder(
+            bonkWars,
+            adapters,
+            async () => (tokens.length > 0 ? tokens : tokensWithOpenMarkets(db)),
+            {
+                deviationBps: BigInt(args.deviationBps),
+                heartbeat: args.heartbeat,
+                pollInterval: args.pollInterval,
+                dryRun: args.dryRun,
+            }
+        );
+        console.log(
+            `Feeding BonkWars ${address} on ${hre.network.name} from ${adapters.map((adapter) => adapter.name).join(", ")}` +
+                (args.dryRun ? " (dry run)" : "")
+        );
+
+        try {
+            if (args.once) {
+                const report = await feeder.runOnce();
+                for (const failure of report.failures) console.warn(failure);
+                for (const update of report.updates) {
+                    console.log(`${update.token} ${update.metric}: ${update.from} -> ${update.to} (${update.reason})`);
+                }
+                console.log(`${report.updates.length} update(s) for ${report.tokens} token(s) in ${report.transactions.length} transaction(s)`);
+            } else {
+                process.once("SIGINT", () => feeder.stop());
+                await feeder.run();
+            }
+        } finally {
+            await db.close();
+        }
+    });
@@ -0,0 +1,153 @@
+import { promises as fs } from "fs";
+import { task, types } from "hardhat/config";
+import type { ProposalAction } from "../governance/actions";
+import type { ProposalStatus, VoteSupport } from "../governance/lifecycle";
+import { buildProposal, readProposal, simulationProblem, writeProposal } from "../governance/proposal";
+import { formatTable } from "../utils/table";
+
+const VOTES: VoteSupport[] = ["for", "against", "abstain"];
+
+function statusRows(status: ProposalStatus): string[][] {
+    const rows = [
+        ["State", status.state],
+        ["Clock", `${status.clock} (${status.clockMode})`],
+    ];
+    if (status.state === "Unproposed") return rows;
+    rows.push(
+        ["Voting opens after", String(status.snapshot)],
+        ["Voting closes at", String(status.deadline)],
+        ["For / against / abstain", `${status.votes.for} / ${status.votes.against} / ${status.votes.abstain}`],
+        ["Quorum", status.quorum === undefined ? "-" : String(status.quorum)],
+        ["Needs queuing", String(status.needsQueuing)]
+    );
+    if (status.eta > 0n) rows.push(["Executable at", new Date(Number(status.eta) * 1000).toISOString()]);
+    return rows;
+}
+
+task("gov:build", "Encodes an actions file into a governor proposal")
+    .addParam("actions", "JSON file of the actions the proposal takes", undefined, types.string)
+    .addParam("title", "First line of the proposal description", undefined, types.string)
+    .addParam("governor", "Address or deployment name of a D4LGovernor implementation or Degen4LifeDAO", undefined, types.string)
+    .addOptionalParam("registry", "ContractRegistry address or deployment name that registry actions change", "ContractRegistry", types.string)
+    .addOptionalParam("out", "Proposal file to write", "proposal.json", types.string)
+    .setAction(async (args: { actions: string; title: string; governor: string; registry: string; out: string }, hre) => {
+        const { deploymentTargets, encodeActions } = await import("../governance/actions");
+        const actions: ProposalAction[] = JSON.parse(await fs.readFile(args.actions, "utf8"));
+        const resolve = deploymentTargets(hre);
+        const governor = await resolve(args.governor);
+        const registry = await resolve(args.registry);
+        const calls = await encodeActions(actions, resolve, registry.address);
+        const { chainId } = await hre.ethers.provider.getNetwork();
+        const proposal = buildProposal(governor.address, chainId, args.title, calls);
+        await writeProposal(args.out, proposal);
+
+        console.log(formatTable(
+            ["#", "Target", "Value", "Call"],
+            calls.map((call, index) => [String(index + 1), call.target, String(call.value), call.summary])
+        ));
+        console.log(`\nProposal ${proposal.id} for ${args.governor} on ${hre.network.name} written to ${args.out}`);
+        console.log(`Simulate it next: npx hardhat gov:simulate --network hardhat --fork ${hre.network.name} --proposal ${args.out}`);
+    });
+
+task("gov:simulate", "Runs a proposal's calls from its executor on a local fork and records the result in the proposal file")
+    .addParam("fork", "Network to fork, as configured in hardhat.config.ts", undefined, types.string)
+    .addOptionalParam("proposal", "Proposal file written by gov:build", "proposal.json", types.string)
+    .setAction(async (args: { fork: string; proposal: string }, hre) => {
+        const { simulateProposal } = await import("../governance/simulate");
+        const proposal = await readProposal(args.proposal);
+        const simulation = await simulateProposal(hre, proposal, args.fork);
+        proposal.simulation = simulation;
+        await writeProposal(args.proposal, proposal);
+
+        console.log(`Simulated on a fork of ${args.fork} at block ${simulation.block}, executing from ${simulation.executor}:\n`);
+        console.log(formatTable(
+            ["#", "Call", "Result", "Gas"],
+            simulation.calls.map((call, index) => [
+                String(index + 1),
+                call.summary,
+                call.ok ? "ok" : `reverted: ${call.error}`,
+                call.gasUsed === undefined ? "" : String(call.gasUsed),
+            ])
+        ));
+        const failed = simulation.calls.filter((call) => !call.ok).length;
+        if (failed > 0) {
+            throw new Error(`${failed} of ${simulation.calls.length} call(s) failed; the proposal would not execute`);
+        }
+        console.log(`\nAll ${simulation.calls.length} call(s) passed; recorded in ${args.proposal}`);
+    });
+
+task("gov:status", "Prints the state, votes and timing of a proposal")
+    .addOptionalParam("proposal", "Proposal file written by gov:build", "proposal.json", types.string)
+    .setAction(async (args: { proposal: string }, hre) => {
+        const { proposalStatus } = await import("../governance/lifecycle");
+        const { D4LGovernor__factory } = await import("../typechain-types");
+        const proposal = await readProposal(args.proposal);
+        const governor = D4LGovernor__factory.connect(proposal.governor, hre.ethers.provider);
+        const status = await proposalStatus(governor, proposal);
+        console.log(`Proposal ${proposal.id} on ${proposal.governor}\n`);
+        console.log(proposal.summary.map((line) => `  - ${line}`).join("\n") + "\n");
+        console.log(formatTable(["", ""], statusRows(status)));
+    });
+
+type AdvanceArgs = {
+    proposal: string;
+    account: string;
+    vote?: string;
+    reason: string;
+    watch: boolean;
+    pollInterval?: number;
+    skipSimulation: boolean;
+};
+
+task("gov:advance", "Sends the next step of a proposal: propose, vote, queue or execute")
+    .addOptionalParam("proposal", "Proposal file written by gov:build", "proposal.json", types.string)
+    .addOptionalParam("account", "Named account that proposes, votes and executes", "deployer", types.string)
+    .addOptionalParam("vote", "Vote to cast while the proposal is active: for, against or abstain", undefined, types.string)
+    .addOptionalParam("reason", "Reason given with the vote", "", types.string)
+    .addOptionalParam("pollInterval", "Milliseconds between checks with --watch", undefined, types.int)
+    .addFlag("watch", "Keep advancing until the proposal is executed, defeated, canceled or expired")
+    .addFlag("skipSimulation", "Propose without a passing gov:simulate run for this network")
+    .setAction(async (args: AdvanceArgs, hre) => {
+        if (args.vote !== undefined && !VOTES.includes(args.vote as VoteSupport)) {
+            throw new Error(`Unknown vote ${args.vote}; expected one of ${VOTES.join(", ")}`);
+        }
+        const { DEFAULT_LIFECYCLE_OPTIONS, ProposalLifecycle, describeStep, proposalStatus } = await import("../governance/lifecycle");
+        const { D4LGovernor__factory } = await import("../typechain-types");
+        const proposal = await readProposal(args.proposal);
+        const { chainId } = await hre.ethers.provider.getNetwork();
+        if (chainId !== proposal.chainId) {
+            throw new Error(`${args.proposal} is for chain ${proposal.chainId}, ${hre.network.name} is chain ${chainId}`);
+        }
+        const accounts = await hre.getNamedAccounts();
+        if (!accounts[args.account]) {
+            throw new Error(`Named account ${args.account} is not configured for ${hre.network.name}`);
+        }
+        const signer = await hre.ethers.getSigner(accounts[args.account]);
+        const governor = D4LGovernor__factory.connect(proposal.governor, hre.ethers.provider);
+        const lifecycle = new ProposalLifecycle(
+            governor,
+            signer,
+            proposal,
+            {
+                support: args.vote as VoteSupport | undefined,
+                reason: args.reason,
+                pollInterval: args.pollInterval ?? DEFAULT_LIFECYCLE_OPTIONS.pollInterval,
+            }
+        );
+
+        const status = await proposalStatus(governor, proposal);
+        const problem = simulationProblem(proposal, hre.network.name);
+        // Only proposing is held back; a proposal on chain has to be seen through either way
+        if (status.state === "Unproposed" && problem && !args.skipSimulation) {
+            throw new Error(`Not proposing ${args.proposal}: ${problem}, or pass --skip-simulation`);
+        }
+
+        if (args.watch) {
+            process.once("SIGINT", () => lifecycle.stop());
+            const final = await lifecycle.run();
+            if (final) console.log(`\n${formatTable(["", ""], statusRows(final))}`);
+        } else {
+            const step = await lifecycle.runOnce();
+            console.log(describeStep(step));
+        }
+    });
@@ -0,0 +1,45 @@
+import { task } from "hardhat/config";
+import { resolveNetworkConfig } from "../config";
+import { holdingsReport, planHandover, resolveHandoverAccounts } from "../utils/deploy/handover";
+import { formatTable } from "../utils/table";
+
+task("deploy:handover", "Moves the deployer's roles and ownerships to the configured multisig and timelock, then renounces them")
+    .addFlag("dryRun", "Print the plan without sending transactions")
+    .addFlag("allowEoa", "Allow recipients without code on live networks")
+    .setAction(async ({ dryRun, allowEoa }: { dryRun: boolean; allowEoa: boolean }, hre) => {
+        const { handover } = resolveNetworkConfig(hre);
+        const { deployer } = await hre.getNamedAccounts();
+
+        const plan = await planHandover(hre, handover, deployer);
+        if (hre.network.live && !allowEoa) {
+            const { resolved } = await resolveHandoverAccounts(hre, handover);
+            for (const [name, address] of Object.entries(resolved)) {
+                if ((await hre.ethers.provider.getCode(address)) === "0x") {
+                    plan.problems.push(`named account ${name} (${address}) has no code; pass --allow-eoa if that is intended`);
+                }
+            }
+        }
+
+        console.log(`Handover plan for ${hre.network.name} (deployer ${deployer}):\n`);
+        console.log(formatTable(
+            ["#", "Deployment", "Action"],
+            plan.actions.map((action, index) => [String(index + 1), action.deployment, action.description])
+        ));
+        if (plan.problems.length > 0) {
+            plan.problems.forEach((problem) => console.error(`  - ${problem}`));
+            throw new Error(`Handover aborted with ${plan.problems.length} problem(s); nothing was sent`);
+        }
+
+        if (!dryRun) {
+            for (const action of plan.actions) {
+                console.log(`\n${action.deployment}: ${action.description}`);
+                await hre.deployments.execute(action.deployment, { from: deployer, log: true }, action.method, ...action.args);
+            }
+        }
+
+        console.log(`\nCurrent holders on ${hre.network.name}:\n`);
+        console.log(formatTable(
+            ["Deployment", "Role / owner", "Holder"],
+            (await holdingsReport(hre, handover)).map((row) => [row.deployment, row.holding, row.holder])
+        ));
+    });
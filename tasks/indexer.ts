@@ -0,0 +1,107 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { openDatabase } from "../indexer/db";
+import { DEFAULT_INDEXER_OPTIONS, EventIndexer } from "../indexer/indexer";
+import { BoundSource, SOURCES, TOKEN_SOURCE, bindSource } from "../indexer/sources";
+import { EventStore } from "../indexer/store";
+import { registryKeyId } from "../utils/registry";
+
+type IndexerArgs = {
+    db: string;
+    fromBlock?: number;
+    confirmations: number;
+    batchSize: number;
+    reorgDepth: number;
+    pollInterval: number;
+    registry?: string;
+    tokens?: string;
+    once: boolean;
+};
+
+/** Earliest block any indexed contract was deployed in, from the deployment receipts. */
+async function firstDeploymentBlock(hre: HardhatRuntimeEnvironment): Promise<number> {
+    const blocks: number[] = [];
+    for (const source of SOURCES) {
+        const block = (await hre.deployments.getOrNull(source.deployment))?.receipt?.blockNumber;
+        if (block !== undefined) blocks.push(block);
+    }
+    return blocks.length > 0 ? Math.min(...blocks) : 0;
+}
+
+/**
+ * Finds each source's address: under its registry key when the source has
+ * one and a registry is available, otherwise from its deployment. Sources
+ * that are not deployed on this network are skipped.
+ */
+async function resolveSources(hre: HardhatRuntimeEnvironment, registryAddress?: string): Promise<BoundSource[]> {
+    const registryDeployment = await hre.deployments.getOrNull("ContractRegistry");
+    const address = registryAddress ?? registryDeployment?.address;
+    const registry = address
+        ? await hre.ethers.getContractAt(["function getContractAddress(bytes32) view returns (address)"], address)
+        : undefined;
+
+    const bound: BoundSource[] = [];
+    for (const source of SOURCES) {
+        let deployedAt: string | undefined;
+        if (registry && source.registryKey) {
+            deployedAt = await registry.getContractAddress(registryKeyId(source.registryKey)).catch(() => undefined);
+        }
+        deployedAt ??= (await hre.deployments.getOrNull(source.deployment))?.address;
+        if (!deployedAt) {
+            console.warn(`Skipping ${source.name}: not deployed on ${hre.network.name}`);
+            continue;
+        }
+        bound.push(bindSource(source, deployedAt));
+    }
+    return bound;
+}
+
+task("indexer:run", "Indexes protocol events into SQLite or Postgres, rolling back reorganised blocks")
+    .addOptionalParam("db", "SQLite file or postgres:// connection string", "indexer.sqlite", types.string)
+    .addOptionalParam("fromBlock", "First block to index when the database is empty; defaults to the first deployment", undefined, types.int)
+    .addOptionalParam("confirmations", "Blocks to stay behind the head", DEFAULT_INDEXER_OPTIONS.confirmations, types.int)
+    .addOptionalParam("batchSize", "Blocks per getLogs request", DEFAULT_INDEXER_OPTIONS.batchSize, types.int)
+    .addOptionalParam("reorgDepth", "Blocks kept for reorg detection", DEFAULT_INDEXER_OPTIONS.reorgDepth, types.int)
+    .addOptionalParam("pollInterval", "Milliseconds between polls once caught up", DEFAULT_INDEXER_OPTIONS.pollInterval, types.int)
+    .addOptionalParam("registry", "ContractRegistry address; defaults to the ContractRegistry deployment", undefined, types.string)
+    .addOptionalParam("tokens", "Comma-separated token addresses whose Transfer events are indexed", undefined, types.string)
+    .addFlag("once", "Index up to the confirmed head and exit")
+    .setAction(async (args: IndexerArgs, hre) => {
+        const sources = await resolveSources(hre, args.registry);
+        for (const token of args.tokens?.split(",").map((token) => token.trim()).filter(Boolean) ?? []) {
+            if (!hre.ethers.isAddress(token)) {
+                throw new Error(`Not a token address: ${token}`);
+            }
+            sources.push(bindSource(TOKEN_SOURCE, token));
+        }
+        if (sources.length === 0) {
+            throw new Error(`None of the indexed contracts are deployed on ${hre.network.name}`);
+        }
+
+        const db = await openDatabase(args.db);
+        const store = new EventStore(db);
+        await store.migrate();
+
+        const indexer = new EventIndexer(hre.ethers.provider, store, sources, {
+            startBlock: args.fromBlock ?? (await firstDeploymentBlock(hre)),
+            confirmations: args.confirmations,
+            batchSize: args.batchSize,
+            reorgDepth: args.reorgDepth,
+            pollInterval: args.pollInterval,
+        });
+        console.log(`Indexing ${sources.map((source) => source.name).join(", ")} on ${hre.network.name} into ${db.dialect}`);
+
+        try {
+            if (args.once) {
+                let result;
+                while ((result = await indexer.runOnce())) {
+                    console.log(`Indexed blocks ${result.fromBlock}-${result.toBlock}: ${result.events} event(s)`);
+                }
+            } else {
+                process.once("SIGINT", () => indexer.stop());
+                await indexer.run();
+            }
+        } finally {
+            await db.close();
+        }
+    });
@@ -0,0 +1,88 @@
+import { task, types } from "hardhat/config";
+import { VoidSigner } from "ethers";
+import { DEFAULT_PRICING_OPTIONS } from "../keeper/pricing";
+
+type KeeperArgs = {
+    registry?: string;
+    account: string;
+    as?: string;
+    fromBlock?: number;
+    confirmations?: number;
+    pollInterval?: number;
+    maxBatch?: number;
+    minProfitBps: number;
+    slippageBps?: number;
+    simulate: boolean;
+    once: boolean;
+};
+
+task("keeper:run", "Fills profitable OrderBookModule limit orders and expires stale ones")
+    .addOptionalParam("registry", "ContractRegistry address; defaults to the ContractRegistry deployment", undefined, types.string)
+    .addOptionalParam("account", "Named account the keeper fills from", "deployer", types.string)
+    .addOptionalParam("as", "Address to simulate as instead of the named account, e.g. a funded account on a fork", undefined, types.string)
+    .addOptionalParam("fromBlock", "First block to read orders from; defaults to the OrderBookModule deployment", undefined, types.int)
+    .addOptionalParam("confirmations", "Blocks to stay behind the head", undefined, types.int)
+    .addOptionalParam("pollInterval", "Milliseconds between rounds", undefined, types.int)
+    .addOptionalParam("maxBatch", "Most orders filled per transaction", undefined, types.int)
+    .addOptionalParam("minProfitBps", "Profit required on top of gas, in bps of the amount paid", Number(DEFAULT_PRICING_OPTIONS.minProfitBps), types.int)
+    .addOptionalParam("slippageBps", "Slippage allowed when selling filled tokens", undefined, types.int)
+    .addFlag("simulate", "Dry-run fills and expiries with eth_call; nothing is sent")
+    .addFlag("once", "Run a single round and exit")
+    .setAction(async (args: KeeperArgs, hre) => {
+        if (args.as && !args.simulate) {
+            throw new Error("--as only works with --simulate");
+        }
+        const { DEFAULT_KEEPER_OPTIONS, LimitOrderKeeper } = await import("../keeper/keeper");
+        const { OrderTracker } = await import("../keeper/orders");
+        const { OrderPricer } = await import("../keeper/pricing");
+        const { Degen4LifeClient, RegistryKeys } = await import("../sdk");
+        const { IPriceOracle__factory } = await import("../typechain-types");
+
+        const registry = args.registry ?? (await hre.deployments.get("ContractRegistry")).address;
+        let account;
+        if (args.as) {
+            account = new VoidSigner(args.as, hre.ethers.provider);
+        } else {
+            const accounts = await hre.getNamedAccounts();
+            if (!accounts[args.account]) {
+                throw new Error(`Named account ${args.account} is not configured for ${hre.network.name}`);
+            }
+            account = await hre.ethers.getSigner(accounts[args.account]);
+        }
+
+        const client = await Degen4LifeClient.connect(registry, account);
+        const [orderBook, dex] = await Promise.all([client.orderBook(), client.dex()]);
+        const oracle = IPriceOracle__factory.connect(await client.resolve(RegistryKeys.PRICE_ORACLE), account);
+        const fromBlock = args.fromBlock ?? (await hre.deployments.getOrNull("OrderBookModule"))?.receipt?.blockNumber ?? 0;
+
+        const pricer = new OrderPricer(dex, oracle, await dex.WETH(), account, {
+            ...DEFAULT_PRICING_OPTIONS,
+            minProfitBps: BigInt(args.minProfitBps),
+        });
+        const keeper = new LimitOrderKeeper(hre.ethers.provider, account, orderBook, dex, new OrderTracker(orderBook, fromBlock), pricer, {
+            ...DEFAULT_KEEPER_OPTIONS,
+            confirmations: args.confirmations ?? DEFAULT_KEEPER_OPTIONS.confirmations,
+            pollInterval: args.pollInterval ?? DEFAULT_KEEPER_OPTIONS.pollInterval,
+            maxBatch: args.maxBatch ?? DEFAULT_KEEPER_OPTIONS.maxBatch,
+            swapSlippageBps: args.slippageBps === undefined ? DEFAULT_KEEPER_OPTIONS.swapSlippageBps : BigInt(args.slippageBps),
+            simulate: args.simulate,
+        });
+        console.log(
+            `Keeper ${await account.getAddress()} watching OrderBookModule ${await orderBook.getAddress()} on ${hre.network.name}` +
+                (args.simulate ? " (simulation)" : "")
+        );
+
+        if (args.once) {
+            const report = await keeper.runOnce();
+            console.log(
+                `Block ${report.block}: ${report.open} open, ${report.filled.length} ${args.simulate ? "fillable" : "filled"}, ` +
+                    `${report.expired.length} expired`
+            );
+            for (const quote of report.quotes.filter((quote) => quote.skip)) {
+                console.log(`Skipped ${quote.order.id}: ${quote.skip}`);
+            }
+        } else {
+            process.once("SIGINT", () => keeper.stop());
+            await keeper.run();
+        }
+    });
@@ -0,0 +1,19 @@
+import { task } from "hardhat/config";
+import { formatPreflightReport, loadDeployScripts, runPreflight, selectScripts } from "../utils/deploy/preflight";
+
+task("deploy:preflight", "Dry-runs the deploy scripts against compiled artifacts without sending transactions")
+    .addOptionalParam("tags", "Comma separated deploy tags to check (defaults to every script)")
+    .setAction(async ({ tags }: { tags?: string }, hre) => {
+        await hre.run("compile");
+
+        const scripts = selectScripts(
+            loadDeployScripts(hre).filter((script) => !script.func.tags?.includes("preflight")),
+            tags ? tags.split(",").map((tag) => tag.trim()) : undefined
+        );
+        const report = await runPreflight(hre, scripts);
+        console.log(formatPreflightReport(report));
+
+        if (report.issues.length > 0) {
+            throw new Error(`Preflight failed with ${report.issues.length} issue(s)`);
+        }
+    });
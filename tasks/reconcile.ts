@@ -0,0 +1,82 @@
+import { promises as fs } from "fs";
+import { task, types } from "hardhat/config";
+import { reconcileFlows, reportToCsv, reportToJson } from "../reconcile/flows";
+import { formatTable } from "../utils/table";
+
+type ReconcileArgs = {
+    fromBlock: number;
+    toBlock?: number;
+    tokenomics: string;
+    feeHandler?: string;
+    multisigFeeHandler?: string;
+    distributor?: string;
+    dexLiquidityWallet?: string;
+    json: string;
+    csv: string;
+    batchSize?: number;
+    all: boolean;
+};
+
+task("fees:reconcile", "Replays fee events over a block range and reports payments that differ from the TokenomicsRules split")
+    .addParam("fromBlock", "First block to reconcile", undefined, types.int)
+    .addOptionalParam("toBlock", "Last block to reconcile; defaults to the head", undefined, types.int)
+    .addOptionalParam("tokenomics", "TokenomicsRules address or deployment name", "TokenomicsRules", types.string)
+    .addOptionalParam("feeHandler", "FeeHandler address or deployment name", undefined, types.string)
+    .addOptionalParam("multisigFeeHandler", "MultisigFeeHandler address or deployment name", undefined, types.string)
+    .addOptionalParam("distributor", "AutomatedDistributor address or deployment name", undefined, types.string)
+    .addOptionalParam("dexLiquidityWallet", "Where FeeHandler's DEX liquidity share should go; its treasury wallet by default", undefined, types.string)
+    .addOptionalParam("json", "JSON report to write", "fee-reconciliation.json", types.string)
+    .addOptionalParam("csv", "CSV report to write", "fee-reconciliation.csv", types.string)
+    .addOptionalParam("batchSize", "Most blocks fetched per getLogs call", undefined, types.int)
+    .addFlag("all", "Report every line, not only discrepancies")
+    .setAction(async (args: ReconcileArgs, hre) => {
+        const { deploymentTargets } = await import("../governance/actions");
+        const { DEFAULT_FEE_RECONCILER_OPTIONS, FeeReconciler } = await import("../reconcile/reconciler");
+        const {
+            AutomatedDistributor__factory,
+            FeeHandler__factory,
+            MultisigFeeHandler__factory,
+            TokenomicsRules__factory,
+        } = await import("../typechain-types");
+
+        const provider = hre.ethers.provider;
+        const resolve = deploymentTargets(hre);
+        const address = async (target?: string) => (target ? (await resolve(target)).address : undefined);
+        const [tokenomics, feeHandler, multisigFeeHandler, distributor] = await Promise.all([
+            address(args.tokenomics),
+            address(args.feeHandler),
+            address(args.multisigFeeHandler),
+            address(args.distributor),
+        ]);
+        const toBlock = args.toBlock ?? (await provider.getBlockNumber());
+        if (toBlock < args.fromBlock) {
+            throw new Error(`--to-block ${toBlock} is before --from-block ${args.fromBlock}`);
+        }
+
+        const reconciler = new FeeReconciler(
+            {
+                tokenomics: TokenomicsRules__factory.connect(tokenomics!, provider),
+                feeHandler: feeHandler ? FeeHandler__factory.connect(feeHandler, provider) : undefined,
+                multisigFeeHandler: multisigFeeHandler ? MultisigFeeHandler__factory.connect(multisigFeeHandler, provider) : undefined,
+                distributor: distributor ? AutomatedDistributor__factory.connect(distributor, provider) : undefined,
+            },
+            provider,
+            { batchSize: args.batchSize ?? DEFAULT_FEE_RECONCILER_OPTIONS.batchSize, dexLiquidityWallet: args.dexLiquidityWallet }
+        );
+        const flows = await reconciler.flows(args.fromBlock, toBlock);
+        const { chainId } = await provider.getNetwork();
+        const report = reconcileFlows(flows, { network: hre.network.name, chainId, fromBlock: args.fromBlock, toBlock }, args.all);
+        await fs.writeFile(args.json, reportToJson(report));
+        await fs.writeFile(args.csv, reportToCsv(report));
+
+        console.log(`Fee flows on ${hre.network.name}, blocks ${args.fromBlock}-${toBlock}:\n`);
+        console.log(formatTable(
+            ["Source", "Flows", "Discrepancies"],
+            Object.entries(report.sources).map(([source, summary]) => [source, String(summary.flows), String(summary.discrepancies)])
+        ));
+        console.log(`\nWrote ${report.lines.length} line(s) to ${args.json} and ${args.csv}`);
+        const discrepancies = Object.values(report.sources).reduce((total, summary) => total + summary.discrepancies, 0);
+        if (discrepancies > 0) {
+            throw new Error(`${discrepancies} discrepancy line(s) in ${flows.length} fee flow(s)`);
+        }
+    });
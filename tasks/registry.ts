@@ -0,0 +1,40 @@
+import * as fs from "fs";
+import * as path from "path";
+import { task } from "hardhat/config";
+import { getManifest } from "../manifest";
+import { manifestRegistrations } from "../utils/deploy/manifest";
+import { checkRegistryKeys } from "../utils/registry/check";
+import { renderKeysModule, scanRegistryKeys } from "../utils/registry/scanner";
+
+const KEYS_MODULE = "utils/registry/keys.ts";
+
+task("registry:generate-keys", "Regenerates the TypeScript registry key module from the contract sources")
+    .setAction(async (_, hre) => {
+        const root = hre.config.paths.root;
+        const scan = scanRegistryKeys(root);
+        fs.writeFileSync(path.join(root, KEYS_MODULE), renderKeysModule(scan));
+        console.log(`Wrote ${Object.keys(scan.readers).length} read key(s) and ${scan.constants.length} constant(s) to ${KEYS_MODULE}`);
+    });
+
+task("registry:check-keys", "Checks that deployed registry keys match the keys the contracts declare and read")
+    .setAction(async (_, hre) => {
+        const root = hre.config.paths.root;
+        const scan = scanRegistryKeys(root);
+        const problems: string[] = [];
+
+        const current = fs.readFileSync(path.join(root, KEYS_MODULE), "utf8");
+        if (current !== renderKeysModule(scan)) {
+            problems.push(`${KEYS_MODULE} is out of date, run \`npx hardhat registry:generate-keys\``);
+        }
+
+        const registrations = manifestRegistrations(getManifest(hre));
+        for (const issue of checkRegistryKeys(scan, registrations)) {
+            problems.push(`${issue.key}: ${issue.message}`);
+        }
+
+        if (problems.length > 0) {
+            problems.forEach((problem) => console.error(`  - ${problem}`));
+            throw new Error(`Registry key check failed with ${problems.length} issue(s) on ${hre.network.name}`);
+        }
+        console.log(`Registry keys are consistent on ${hre.network.name}`);
+    });
@@ -0,0 +1,117 @@
+import { task, types } from "hardhat/config";
+import { resolveNetworkConfig } from "../config";
+import { LogNotifier, Notifier, WebhookNotifier } from "../resolver/notify";
+import { BonkWarsMetricsSource, FileOutcomeSource, OutcomeSource, loadOutcomeSource } from "../resolver/sources";
+
+type ResolverArgs = {
+    registry?: string;
+    bonkWars?: string;
+    account: string;
+    fromBlock?: number;
+    outcomes?: string;
+    sources?: string;
+    quorum?: number;
+    settleDelay?: number;
+    resolutionWindow?: number;
+    webhook?: string;
+    state: string;
+    confirmations?: number;
+    pollInterval?: number;
+    dryRun: boolean;
+    once: boolean;
+};
+
+const list = (value?: string) => value?.split(",").map((item) => item.trim()).filter(Boolean) ?? [];
+
+task("resolver:run", "Resolves ended PredictionMarket and BonkWars markets and notifies winners they can claim")
+    .addOptionalParam("registry", "ContractRegistry address; defaults to the ContractRegistry deployment", undefined, types.string)
+    .addOptionalParam("bonkWars", "BonkWars address; defaults to its deployment", undefined, types.string)
+    .addOptionalParam("account", "Named account resolutions are sent from; needs ORACLE_ROLE on PredictionMarket", "deployer", types.string)
+    .addOptionalParam("fromBlock", "First block to read markets from; defaults to the earliest deployment", undefined, types.int)
+    .addOptionalParam("outcomes", "JSON file of PredictionMarket outcomes by market id", undefined, types.string)
+    .addOptionalParam("sources", "Comma-separated outcome source plugin modules", undefined, types.string)
+    .addOptionalParam("quorum", "Sources that must agree on an outcome", undefined, types.int)
+    .addOptionalParam("settleDelay", "Seconds after a market ends before it is resolved", undefined, types.int)
+    .addOptionalParam("resolutionWindow", "Seconds after a market ends it must be resolved in; defaults to predictionMarket.resolutionWindow", undefined, types.int)
+    .addOptionalParam("webhook", "URL notifications are POSTed to; they are logged without it", undefined, types.string)
+    .addOptionalParam("state", "File recording delivered notifications", "resolver-state.json", types.string)
+    .addOptionalParam("confirmations", "Blocks to stay behind the head", undefined, types.int)
+    .addOptionalParam("pollInterval", "Milliseconds between rounds", undefined, types.int)
+    .addFlag("dryRun", "Check resolutions with eth_call and send nothing")
+    .addFlag("once", "Run a single round and exit")
+    .setAction(async (args: ResolverArgs, hre) => {
+        const { MarketTracker } = await import("../resolver/markets");
+        const { DEFAULT_RESOLVER_OPTIONS, MarketResolver } = await import("../resolver/resolver");
+        const { Degen4LifeClient, FileStorage } = await import("../sdk");
+        const { BonkWars__factory } = await import("../typechain-types");
+
+        const accounts = await hre.getNamedAccounts();
+        if (!accounts[args.account]) {
+            throw new Error(`Named account ${args.account} is not configured for ${hre.network.name}`);
+        }
+        const signer = await hre.ethers.getSigner(accounts[args.account]);
+
+        const registry = args.registry ?? (await hre.deployments.getOrNull("ContractRegistry"))?.address;
+        const client = registry ? await Degen4LifeClient.connect(registry, signer) : undefined;
+        const predictionMarket = await client?.predictionMarket().catch(() => undefined);
+        if (predictionMarket && !(await predictionMarket.hasRole(await predictionMarket.ORACLE_ROLE(), signer.address))) {
+            throw new Error(`${args.account} (${signer.address}) does not hold ORACLE_ROLE on PredictionMarket`);
+        }
+        const bonkWarsAddress = args.bonkWars ?? (await hre.deployments.getOrNull("BonkWars"))?.address;
+        const bonkWars = bonkWarsAddress ? BonkWars__factory.connect(bonkWarsAddress, signer) : undefined;
+        if (!predictionMarket && !bonkWars) {
+            throw new Error(`Neither PredictionMarket nor BonkWars is deployed on ${hre.network.name}`);
+        }
+
+        const sources: OutcomeSource[] = [];
+        if (bonkWars) sources.push(new BonkWarsMetricsSource(bonkWars));
+        if (args.outcomes) sources.push(new FileOutcomeSource(args.outcomes));
+        for (const plugin of list(args.sources)) sources.push(await loadOutcomeSource(plugin));
+
+        const secret = process.env.RESOLVER_WEBHOOK_SECRET;
+        const notifier: Notifier = args.webhook ? new WebhookNotifier(args.webhook, secret) : new LogNotifier();
+        if (args.webhook && !secret) {
+            console.warn("RESOLVER_WEBHOOK_SECRET is not set; webhook requests are not signed");
+        }
+
+        const deployments = await Promise.all(
+            ["PredictionMarket", "BonkWars"].map((name) => hre.deployments.getOrNull(name))
+        );
+        const blocks = deployments.flatMap((deployment) => deployment?.receipt?.blockNumber ?? []);
+        const fromBlock = args.fromBlock ?? (blocks.length > 0 ? Math.min(...blocks) : 0);
+
+        const resolver = new MarketResolver(
+            hre.ethers.provider,
+            (await hre.ethers.provider.getNetwork()).chainId,
+            new MarketTracker(predictionMarket, bonkWars, fromBlock),
+            { predictionMarket, bonkWars },
+            sources,
+            notifier,
+            new FileStorage(args.state),
+            {
+                quorum: args.quorum ?? DEFAULT_RESOLVER_OPTIONS.quorum,
+                settleDelay: args.settleDelay ?? DEFAULT_RESOLVER_OPTIONS.settleDelay,
+                resolutionWindow: args.resolutionWindow ?? resolveNetworkConfig(hre).parameters.predictionMarket.resolutionWindow,
+                confirmations: args.confirmations ?? DEFAULT_RESOLVER_OPTIONS.confirmations,
+                pollInterval: args.pollInterval ?? DEFAULT_RESOLVER_OPTIONS.pollInterval,
+                dryRun: args.dryRun,
+            }
+        );
+        console.log(
+            `Resolving ${[predictionMarket && "PredictionMarket", bonkWars && "BonkWars"].filter(Boolean).join(" and ")} ` +
+                `on ${hre.network.name} with ${sources.map((source) => source.name).join(", ") || "no sources"}` +
+                (args.dryRun ? " (dry run)" : "")
+        );
+
+        if (args.once) {
+            const report = await resolver.runOnce();
+            for (const failure of report.failures) console.warn(failure);
+            console.log(
+                `Block ${report.block}: ${report.tracked} market(s) tracked, ${report.resolved.length} resolved, ` +
+                    `${report.notified.length} notified`
+            );
+        } else {
+            process.once("SIGINT", () => resolver.stop());
+            await resolver.run();
+        }
+    });
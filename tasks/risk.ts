@@ -0,0 +1,101 @@
+import { task, types } from "hardhat/config";
+import { openDatabase } from "../indexer/db";
+
+type RiskArgs = {
+    db: string;
+    registry?: string;
+    risk?: string;
+    curve?: string;
+    account: string;
+    tokens?: string;
+    window?: number;
+    topHolders?: number;
+    depthImpactBps?: number;
+    excludeHolders?: string;
+    pollInterval?: number;
+    maxLag?: number;
+    dryRun: boolean;
+    once: boolean;
+};
+
+const list = (value?: string) => value?.split(",").map((item) => item.trim()).filter(Boolean) ?? [];
+
+task("risk:run", "Publishes market data and risk indicators computed from the event indexer to RiskManagementModule")
+    .addOptionalParam("db", "Event indexer database: SQLite file or postgres:// connection string", "indexer.sqlite", types.string)
+    .addOptionalParam("registry", "ContractRegistry address; defaults to the ContractRegistry deployment", undefined, types.string)
+    .addOptionalParam("risk", "RiskManagementModule address; defaults to its deployment", undefined, types.string)
+    .addOptionalParam("curve", "HydraCurve address; defaults to its deployment", undefined, types.string)
+    .addOptionalParam("account", "Named account of the RiskManagementModule owner", "deployer", types.string)
+    .addOptionalParam("tokens", "Comma-separated tokens to publish; defaults to every token swapped in the window", undefined, types.string)
+    .addOptionalParam("window", "Seconds of swaps the indicators cover", undefined, types.int)
+    .addOptionalParam("topHolders", "Largest holders counted into holder concentration", undefined, types.int)
+    .addOptionalParam("depthImpactBps", "Price impact liquidity depth is measured up to, in bps", undefined, types.int)
+    .addOptionalParam("excludeHolders", "Comma-separated addresses left out of holder concentration; the DEX is always left out", undefined, types.string)
+    .addOptionalParam("pollInterval", "Milliseconds between rounds; keep under an hour so risk scores stay current", undefined, types.int)
+    .addOptionalParam("maxLag", "Blocks the indexer may be behind before a round is skipped", undefined, types.int)
+    .addFlag("dryRun", "Check the updates with eth_call instead of sending them")
+    .addFlag("once", "Run a single round and exit")
+    .setAction(async (args: RiskArgs, hre) => {
+        const { DEFAULT_RISK_PUBLISHER_OPTIONS, RiskPublisher, describeRisk } = await import("../risk/publisher");
+        const { Degen4LifeClient } = await import("../sdk");
+        const { IHydraCurve__factory, RiskManagementModule__factory } = await import("../typechain-types");
+
+        const riskAddress = args.risk ?? (await hre.deployments.getOrNull("RiskManagementModule"))?.address;
+        if (!riskAddress) {
+            throw new Error(`RiskManagementModule is not deployed on ${hre.network.name}; pass --risk`);
+        }
+        const curveAddress = args.curve ?? (await hre.deployments.getOrNull("HydraCurve"))?.address;
+        if (!curveAddress) {
+            throw new Error(`HydraCurve is not deployed on ${hre.network.name}; pass --curve`);
+        }
+        const accounts = await hre.getNamedAccounts();
+        if (!accounts[args.account]) {
+            throw new Error(`Named account ${args.account} is not configured for ${hre.network.name}`);
+        }
+        const signer = await hre.ethers.getSigner(accounts[args.account]);
+        const risk = RiskManagementModule__factory.connect(riskAddress, signer);
+        const owner = await risk.owner();
+        if (owner.toLowerCase() !== signer.address.toLowerCase()) {
+            throw new Error(`${args.account} (${signer.address}) is not the RiskManagementModule owner ${owner}`);
+        }
+
+        const registry = args.registry ?? (await hre.deployments.get("ContractRegistry")).address;
+        const dex = await (await Degen4LifeClient.connect(registry, hre.ethers.provider)).dex();
+        const tokens = list(args.tokens);
+        const db = await openDatabase(args.db);
+        const publisher = new RiskPublisher(
+            risk,
+            IHydraCurve__factory.connect(curveAddress, hre.ethers.provider),
+            db,
+            hre.ethers.provider,
+            await dex.WETH(),
+            tokens.length > 0 ? tokens : undefined,
+            {
+                window: args.window ?? DEFAULT_RISK_PUBLISHER_OPTIONS.window,
+                topHolders: args.topHolders ?? DEFAULT_RISK_PUBLISHER_OPTIONS.topHolders,
+                depthImpactBps: args.depthImpactBps === undefined ? DEFAULT_RISK_PUBLISHER_OPTIONS.depthImpactBps : BigInt(args.depthImpactBps),
+                // The DEX's balance is the inventory swaps fill from, not a holder's position
+                excludedHolders: [await dex.getAddress(), ...list(args.excludeHolders)],
+                pollInterval: args.pollInterval ?? DEFAULT_RISK_PUBLISHER_OPTIONS.pollInterval,
+                maxLag: args.maxLag ?? DEFAULT_RISK_PUBLISHER_OPTIONS.maxLag,
+                dryRun: args.dryRun,
+            }
+        );
+        console.log(`Publishing risk data to RiskManagementModule ${riskAddress} on ${hre.network.name}` + (args.dryRun ? " (dry run)" : ""));
+
+        try {
+            if (args.once) {
+                const report = await publisher.runOnce();
+                for (const failure of report.failures) console.warn(failure);
+                for (const published of report.published) console.log(describeRisk(published));
+                console.log(
+                    `Block ${report.block}: ${report.published.length} token(s) published in ${report.transactions.length} transaction(s)`
+                );
+            } else {
+                process.once("SIGINT", () => publisher.stop());
+                await publisher.run();
+            }
+        } finally {
+            await db.close();
+        }
+    });
@@ -0,0 +1,83 @@
+import { task, types } from "hardhat/config";
+import { writeProposal } from "../governance/proposal";
+import { formatTable } from "../utils/table";
+
+task("upgrade:import", "Registers a deployed proxy's current implementation with the upgrades plugin")
+    .addParam("contract", "Deployment name of the proxied contract", undefined, types.string)
+    .setAction(async ({ contract }: { contract: string }, hre) => {
+        const { importProxy } = await import("../utils/deploy/upgrade");
+        const implementation = await importProxy(hre, contract);
+        console.log(`${contract} registered on ${hre.network.name} with implementation ${implementation}`);
+    });
+
+task("upgrade:validate", "Checks a new implementation against the storage layout of a proxy's current one")
+    .addParam("contract", "Deployment name of the proxied contract", undefined, types.string)
+    .addOptionalParam("artifact", "Fully qualified name of the new implementation; the manifest's contract by default", undefined, types.string)
+    .setAction(async ({ contract, artifact }: { contract: string; artifact?: string }, hre) => {
+        const { validateUpgrade } = await import("../utils/deploy/upgrade");
+        const validated = await validateUpgrade(hre, contract, artifact);
+        console.log(`${validated} is a storage-compatible upgrade of ${contract} on ${hre.network.name}`);
+    });
+
+type PrepareArgs = {
+    contract: string;
+    artifact?: string;
+    notes: string;
+    governor: string;
+    versionController: string;
+    out: string;
+};
+
+task("upgrade:prepare", "Validates and deploys a new implementation and writes the proposal that switches the proxy to it")
+    .addParam("contract", "Deployment name of the proxied contract", undefined, types.string)
+    .addParam("notes", "Release notes recorded in the VersionController", undefined, types.string)
+    .addOptionalParam("artifact", "Fully qualified name of the new implementation; the manifest's contract by default", undefined, types.string)
+    .addParam("governor", "Address or deployment name of a D4LGovernor implementation or Degen4LifeDAO", undefined, types.string)
+    .addOptionalParam("versionController", "VersionController address or deployment name", "VersionController", types.string)
+    .addOptionalParam("out", "Proposal file to write", "proposal.json", types.string)
+    .setAction(async (args: PrepareArgs, hre) => {
+        const { prepareUpgrade } = await import("../utils/deploy/upgrade");
+        const { record, proposal } = await prepareUpgrade(hre, {
+            name: args.contract,
+            artifact: args.artifact,
+            releaseNotes: args.notes,
+            governor: args.governor,
+            versionController: args.versionController,
+        });
+        await writeProposal(args.out, proposal);
+
+        console.log(`${record.artifact} deployed at ${record.to}; ${args.contract} runs ${record.from}\n`);
+        console.log(proposal.summary.map((line, index) => `  ${index + 1}. ${line}`).join("\n"));
+        console.log(`\nProposal ${proposal.id} written to ${args.out}. Next:`);
+        console.log(`  npx hardhat gov:simulate --network hardhat --fork ${hre.network.name} --proposal ${args.out}`);
+        console.log(`  npx hardhat gov:advance --network ${hre.network.name} --proposal ${args.out} --watch`);
+        console.log(`  npx hardhat upgrade:history --network ${hre.network.name}`);
+    });
+
+task("upgrade:history", "Records executed upgrades and prints the upgrade history of the network")
+    .addOptionalParam("contract", "Only this deployment's upgrades", undefined, types.string)
+    .addOptionalParam("versionController", "VersionController address or deployment name", "VersionController", types.string)
+    .setAction(async (args: { contract?: string; versionController: string }, hre) => {
+        const { deploymentTargets } = await import("../governance/actions");
+        const { proxiedEntries, syncUpgradeHistory } = await import("../utils/deploy/upgrade");
+        if (args.contract && !proxiedEntries(hre).some((entry) => entry.name === args.contract)) {
+            throw new Error(`${args.contract} is not a proxied manifest entry`);
+        }
+        // Without a VersionController the history still records executions, only without versions
+        const versionController = await deploymentTargets(hre)(args.versionController).then((target) => target.address, () => undefined);
+        const history = await syncUpgradeHistory(hre, versionController);
+        const upgrades = history.upgrades.filter((record) => !args.contract || record.contract === args.contract);
+
+        console.log(formatTable(
+            ["Contract", "Implementation", "Version", "Status", "Prepared", "Executed", "Notes"],
+            upgrades.map((record) => [
+                record.contract,
+                record.to,
+                record.version === undefined ? "-" : String(record.version),
+                record.status,
+                record.preparedAt,
+                record.executedAt ?? "-",
+                record.releaseNotes,
+            ])
+        ));
+    });
@@ -0,0 +1,33 @@
+import { task } from "hardhat/config";
+import { getManifest } from "../manifest";
+import { verifyRegistry } from "../utils/deploy/verifyRegistry";
+import { formatTable } from "../utils/table";
+
+task("deploy:verify", "Audits the live ContractRegistry and controller wiring against the deployment records")
+    .addOptionalParam("registry", "ContractRegistry address (defaults to the ContractRegistry deployment)")
+    .setAction(async ({ registry }: { registry?: string }, hre) => {
+        const registryAddress = registry ?? (await hre.deployments.get("ContractRegistry")).address;
+        console.log(`Verifying ContractRegistry at ${registryAddress} on ${hre.network.name}...\n`);
+
+        const { rows, systemStateError } = await verifyRegistry(hre, getManifest(hre), registryAddress);
+
+        console.log(formatTable(
+            ["Subject", "Expected", "Actual", "Code", "Status"],
+            rows.map((row) => [
+                row.subject,
+                row.expected ?? "-",
+                row.actual ?? "-",
+                row.hasCode === undefined ? "-" : row.hasCode ? "yes" : "no",
+                row.status,
+            ])
+        ));
+
+        const failures = rows.filter((row) => row.status !== "ok");
+        if (systemStateError) {
+            console.error(`\nDegen4LifeController.getSystemState() reverted: ${systemStateError}`);
+        }
+        if (failures.length > 0 || systemStateError) {
+            throw new Error(`Deployment verification failed: ${failures.length} mismatch(es)${systemStateError ? ", getSystemState reverted" : ""}`);
+        }
+        console.log("\nDeployment verified: registry and controller match the deployment records");
+    });
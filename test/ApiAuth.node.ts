@@ -0,0 +1,118 @@
+import { expect } from "chai";
+import { Server } from "http";
+import { AddressInfo } from "net";
+import { Signer } from "ethers";
+import { deployments, ethers } from "hardhat";
+import { SiweMessage } from "siwe";
+import { createApp } from "../api/app";
+import { AuthOptions, DEFAULT_AUTH_OPTIONS, SESSION_COOKIE } from "../api/auth";
+import { Degen4LifeClient } from "../sdk";
+
+const AUTH: AuthOptions = {
+    ...DEFAULT_AUTH_OPTIONS,
+    jwtSecret: "test-secret",
+    domain: "api.degen4life.test",
+    chainId: 31337n,
+    secureCookie: false,
+};
+
+describe("API sign-in and admin roles on the hardhat network", function () {
+    this.timeout(300_000);
+
+    let server: Server;
+    let baseUrl: string;
+
+    before(async function () {
+        await deployments.fixture();
+        const client = await Degen4LifeClient.connect((await deployments.get("ContractRegistry")).address, ethers.provider);
+        // No operator: a request that passes the role check answers 503 instead of sending
+        server = createApp(ethers.provider, { client }, AUTH).listen(0);
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    after(function (done) {
+        server.close(done);
+    });
+
+    /** Signs an EIP-4361 message with a fresh nonce from the API. */
+    async function signIn(signer: Signer) {
+        const { nonce } = await (await fetch(`${baseUrl}/auth/nonce`)).json();
+        const message = new SiweMessage({
+            domain: AUTH.domain,
+            address: await signer.getAddress(),
+            statement: "Sign in to Degen4Life",
+            uri: `http://${AUTH.domain}`,
+            version: "1",
+            chainId: Number(AUTH.chainId),
+            nonce,
+        }).prepareMessage();
+        const body = JSON.stringify({ message, signature: await signer.signMessage(message) });
+        const verify = () => fetch(`${baseUrl}/auth/verify`, { method: "POST", headers: { "content-type": "application/json" }, body });
+        return { verify };
+    }
+
+    async function sessionCookie(signer: Signer): Promise<string> {
+        const response = await (await signIn(signer)).verify();
+        expect(response.status).to.equal(200);
+        return response.headers.get("set-cookie")!.split(";")[0];
+    }
+
+    const pauseModules = (cookie?: string) =>
+        fetch(`${baseUrl}/admin/modules/pause`, { method: "POST", headers: cookie ? { cookie } : {} });
+
+    it("exchanges a signed SIWE message for a session cookie once per nonce", async function () {
+        const [deployer] = await ethers.getSigners();
+        const { verify } = await signIn(deployer);
+
+        const response = await verify();
+        expect(response.status).to.equal(200);
+        expect(await response.json()).to.deep.equal({ account: deployer.address, expiresIn: AUTH.sessionTtl });
+        expect(response.headers.get("set-cookie")).to.match(new RegExp(`^${SESSION_COOKIE}=[^;]+;.*HttpOnly`));
+
+        const replay = await verify();
+        expect(replay.status).to.equal(401);
+        expect((await replay.json()).message).to.match(/already used/);
+    });
+
+    it("rejects a message signed by another account", async function () {
+        const [deployer, alice] = await ethers.getSigners();
+        const { nonce } = await (await fetch(`${baseUrl}/auth/nonce`)).json();
+        const message = new SiweMessage({
+            domain: AUTH.domain,
+            address: deployer.address,
+            uri: `http://${AUTH.domain}`,
+            version: "1",
+            chainId: Number(AUTH.chainId),
+            nonce,
+        }).prepareMessage();
+
+        const response = await fetch(`${baseUrl}/auth/verify`, {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ message, signature: await alice.signMessage(message) }),
+        });
+
+        expect(response.status).to.equal(401);
+        expect(response.headers.get("set-cookie")).to.equal(null);
+    });
+
+    it("answers 401 without a session and 403 to an account without the route's role", async function () {
+        const [, alice] = await ethers.getSigners();
+
+        const anonymous = await pauseModules();
+        expect(anonymous.status).to.equal(401);
+        expect((await anonymous.json()).error).to.equal("Unauthorized");
+
+        const forbidden = await pauseModules(await sessionCookie(alice));
+        expect(forbidden.status).to.equal(403);
+        expect(await forbidden.json()).to.deep.equal({ error: "Forbidden", message: `${alice.address} does not hold DEFAULT_ADMIN_ROLE` });
+    });
+
+    it("lets an account holding the role through to the route", async function () {
+        const [deployer] = await ethers.getSigners();
+
+        const response = await pauseModules(await sessionCookie(deployer));
+
+        expect(response.status).to.equal(503);
+    });
+});
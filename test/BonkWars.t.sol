@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../contracts/BonkWars.sol";
+
+contract BonkWarsTest is Test {
+    BonkWars public bonkWars;
+    address public oracle;
+    address public user1;
+    address public token;
+
+    function setUp() public {
+        oracle = makeAddr("oracle");
+        user1 = makeAddr("user1");
+        token = makeAddr("token");
+
+        bonkWars = new BonkWars(makeAddr("hydraCurve"), makeAddr("usdPriceFeed"), makeAddr("factory"), oracle);
+    }
+
+    function test_OracleBatchesMetricUpdates() public {
+        bytes[] memory calls = new bytes[](3);
+        calls[0] = abi.encodeCall(BonkWars.updateVolume, (token, 1_000 ether));
+        calls[1] = abi.encodeCall(BonkWars.updateHolderCount, (token, 42));
+        calls[2] = abi.encodeCall(BonkWars.updateCEXListing, (token, true));
+
+        vm.prank(oracle);
+        bonkWars.multicall(calls);
+
+        (, , , uint256 volume24h, uint256 holderCount, , bool cexListed, , , , ) = bonkWars.tokens(token);
+        assertEq(volume24h, 1_000 ether);
+        assertEq(holderCount, 42);
+        assertTrue(cexListed);
+    }
+
+    function test_RevertWhenUnauthorizedMulticall() public {
+        bytes[] memory calls = new bytes[](1);
+        calls[0] = abi.encodeCall(BonkWars.updatePrice, (token, 1e8));
+
+        vm.prank(user1);
+        vm.expectRevert("Unauthorized");
+        bonkWars.multicall(calls);
+    }
+}
@@ -0,0 +1,105 @@
+import { expect } from "chai";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { AuditEntry, AuditLog, replayAuditLog } from "../copytrade/audit";
+import { CopyInput, DEFAULT_RISK_SETTINGS, copyAmount, planCopyTrade } from "../copytrade/sizing";
+
+const TOKEN_IN = "0x00000000000000000000000000000000000000a1";
+const TOKEN_OUT = "0x00000000000000000000000000000000000000a2";
+const FOLLOWER = "0x00000000000000000000000000000000000000f1";
+
+/** The leader swaps 100 of their 400 TOKEN_IN for 200 TOKEN_OUT; the follower allocated 1000 and holds 10000. */
+function input(overrides: Partial<CopyInput> = {}): CopyInput {
+    return {
+        trade: {
+            id: "0x01:0",
+            leader: "0x00000000000000000000000000000000000000b1",
+            tokenIn: TOKEN_IN,
+            tokenOut: TOKEN_OUT,
+            amountIn: 100n,
+            amountOut: 200n,
+            blockNumber: 5,
+            leaderBalanceAfter: 300n,
+        },
+        allocation: 1_000n,
+        followerBalance: 10_000n,
+        tradeAge: 10,
+        maxTradeAge: 60,
+        quote: 500n,
+        risk: DEFAULT_RISK_SETTINGS,
+        ...overrides,
+    };
+}
+
+describe("Copy trade sizing", function () {
+    it("spends the leader's share of their position from the allocation", function () {
+        expect(copyAmount(input())).to.deep.equal({ kind: "sized", amountIn: 250n });
+    });
+
+    it("caps a copy at maxTradeBps of the follower's balance", function () {
+        expect(copyAmount(input({ followerBalance: 400n }))).to.deep.equal({ kind: "sized", amountIn: 100n });
+    });
+
+    it("skips stale trades, unlisted tokens and copies below the minimum", function () {
+        expect(copyAmount(input({ tradeAge: 61 }))).to.deep.equal({ kind: "skip", reason: "trade is 61s old" });
+        expect(copyAmount(input({ risk: { ...DEFAULT_RISK_SETTINGS, tokens: [TOKEN_IN] } }))).to.deep.equal({
+            kind: "skip",
+            reason: "token not in the follower's list",
+        });
+        expect(copyAmount(input({ followerBalance: 0n }))).to.deep.equal({
+            kind: "skip",
+            reason: "copy of 0 is below the minimum of 1",
+        });
+    });
+
+    it("floors minAmountOut at maxSlippageBps under the leader's rate", function () {
+        expect(planCopyTrade(input())).to.deep.equal({ kind: "copy", amountIn: 250n, minAmountOut: 495n });
+        expect(planCopyTrade(input({ quote: 495n }))).to.deep.equal({ kind: "copy", amountIn: 250n, minAmountOut: 495n });
+    });
+
+    it("skips copies quoted worse than the floor or not quoted", function () {
+        expect(planCopyTrade(input({ quote: 450n }))).to.deep.equal({
+            kind: "skip",
+            reason: "quote is 1000 bps worse than the leader's fill",
+        });
+        expect(planCopyTrade(input({ quote: undefined }))).to.deep.equal({ kind: "skip", reason: "no quote" });
+    });
+});
+
+describe("Copy trade audit log", function () {
+    let dir: string;
+
+    beforeEach(async function () {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), "copytrade-"));
+    });
+
+    afterEach(async function () {
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    function entry(copyInput: CopyInput): AuditEntry {
+        return { at: "2024-01-01T00:00:00.000Z", follower: FOLLOWER, input: copyInput, plan: planCopyTrade(copyInput), outcome: "executed" };
+    }
+
+    it("reads back what it appended, bigints included", async function () {
+        const log = new AuditLog(path.join(dir, "audit.jsonl"));
+        expect(await log.entries()).to.deep.equal([]);
+
+        const written = [entry(input()), { ...entry(input({ quote: 450n })), outcome: "skipped" as const }];
+        for (const line of written) await log.append(line);
+
+        expect(await log.entries()).to.deep.equal(written);
+    });
+
+    it("replays every logged decision from its inputs", async function () {
+        const log = new AuditLog(path.join(dir, "audit.jsonl"));
+        await log.append(entry(input()));
+        await log.append({ ...entry(input()), plan: { kind: "copy", amountIn: 300n, minAmountOut: 594n } });
+
+        const results = replayAuditLog(await log.entries());
+
+        expect(results.map((result) => result.matches)).to.deep.equal([true, false]);
+        expect(results[1].replanned).to.deep.equal({ kind: "copy", amountIn: 250n, minAmountOut: 495n });
+    });
+});
@@ -0,0 +1,63 @@
+import { expect } from "chai";
+import hre, { deployments, ethers } from "hardhat";
+import { getManifest } from "../manifest";
+import { manifestRegistrations, manifestRegistryValues, resolveArgs } from "../utils/deploy/manifest";
+import { registryKeyId } from "../utils/registry";
+import { verifyRegistry } from "../utils/deploy/verifyRegistry";
+
+describe("Deployment fixture", function () {
+    // The fixture deploys every tag, which takes a while on the in-process network
+    this.timeout(300_000);
+
+    it("deploys every manifest entry", async function () {
+        await deployments.fixture();
+        for (const entry of getManifest(hre)) {
+            const deployment = await deployments.get(entry.name);
+            expect(await ethers.provider.getCode(deployment.address), entry.name).to.not.equal("0x");
+        }
+    });
+
+    it("registers every manifest entry and system address under its registry keys", async function () {
+        await deployments.fixture();
+        const registry = await ethers.getContractAt("ContractRegistry", (await deployments.get("ContractRegistry")).address);
+        const manifest = getManifest(hre);
+        for (const [key, registrants] of Object.entries(manifestRegistrations(manifest))) {
+            const names = new Set(registrants.map((registrant) => registrant.split(":")[1]));
+            expect(names.size, `${key} is claimed by ${registrants.join(", ")}`).to.equal(1);
+        }
+        for (const [key, value] of manifestRegistryValues(manifest)) {
+            const [address] = await resolveArgs(hre, [value]);
+            expect(await registry.getContractAddress(registryKeyId(key)), key).to.equal(address);
+        }
+    });
+
+    it("points the controller at the deployed DEX, ENS and prediction market", async function () {
+        await deployments.fixture();
+        const controller = await ethers.getContractAt("Degen4LifeController", (await deployments.get("Degen4LifeController")).address);
+        expect(await controller.dex()).to.equal((await deployments.get("Degen4LifeDEX")).address);
+        expect(await controller.ens()).to.equal((await deployments.get("DegenENS")).address);
+        expect(await controller.predictionMarket()).to.equal((await deployments.get("PredictionMarket")).address);
+    });
+
+    it("initializes the controller modules", async function () {
+        await deployments.fixture();
+        const controller = await ethers.getContractAt("Degen4LifeController", (await deployments.get("Degen4LifeController")).address);
+        expect(await controller.securityModule()).to.equal((await deployments.get("AntiBot")).address);
+        expect(await controller.liquidityModule()).to.equal((await deployments.get("LiquidityModule")).address);
+        expect(await controller.socialModule()).to.equal((await deployments.get("D4LSocialModule")).address);
+        expect(await controller.socialTradingModule()).to.equal((await deployments.get("SocialTradingModule")).address);
+    });
+
+    it("passes deploy:verify apart from the placeholder system addresses", async function () {
+        await deployments.fixture();
+        const { deployer } = await hre.getNamedAccounts();
+        const { rows, systemStateError } = await verifyRegistry(hre, getManifest(hre), (await deployments.get("ContractRegistry")).address);
+
+        expect(systemStateError).to.equal(undefined);
+        const failures = rows.filter((row) => row.status !== "ok");
+        expect(failures.map((row) => row.subject)).to.have.members(["DAO", "FEE_HANDLER", "SOCIAL_ORACLE", "controller.feeHandler", "controller.dao"]);
+        for (const row of failures) {
+            expect(row, row.subject).to.include({ status: "no-code", actual: deployer });
+        }
+    });
+});
@@ -0,0 +1,69 @@
+import { expect } from "chai";
+import { ethers } from "hardhat";
+import { SqlClient, openSqlite } from "../indexer/db";
+import { holderBalances } from "../indexer/holders";
+import { EventIndexer } from "../indexer/indexer";
+import { TOKEN_SOURCE, bindSource } from "../indexer/sources";
+import { EventStore } from "../indexer/store";
+
+const silent = { log: () => undefined, warn: () => undefined, error: () => undefined };
+
+describe("Event indexer on the hardhat network", function () {
+    let db: SqlClient;
+
+    beforeEach(function () {
+        db = openSqlite(":memory:");
+    });
+
+    afterEach(async function () {
+        await db.close();
+    });
+
+    /** Deploys a token minting 1000 to the deployer and an indexer of its transfers from the deployment block. */
+    async function indexedToken() {
+        const token = await ethers.deployContract("contracts/mocks/MockERC20.sol:MockERC20", ["Indexed", "IDX", 1_000n]);
+        const startBlock = (await token.deploymentTransaction()!.wait())!.blockNumber;
+        const store = new EventStore(db);
+        await store.migrate();
+        const address = (await token.getAddress()).toLowerCase();
+        const indexer = new EventIndexer(ethers.provider, store, [bindSource(TOKEN_SOURCE, address)], { startBlock, confirmations: 0 }, silent);
+        return { token, address, store, indexer };
+    }
+
+    it("indexes transfers up to the head and replays holder balances from them", async function () {
+        const [deployer, alice, bob] = await ethers.getSigners();
+        const { token, address, store, indexer } = await indexedToken();
+        await token.transfer(alice.address, 300n);
+        await token.transfer(bob.address, 200n);
+
+        const result = await indexer.runOnce();
+        expect(result?.events).to.equal(3);
+        expect(await store.cursor()).to.equal(await ethers.provider.getBlockNumber());
+        expect(await indexer.runOnce()).to.equal(undefined);
+
+        expect(await holderBalances(db, address)).to.deep.equal(
+            new Map([
+                [deployer.address.toLowerCase(), 500n],
+                [alice.address.toLowerCase(), 300n],
+                [bob.address.toLowerCase(), 200n],
+            ])
+        );
+    });
+
+    it("rolls back and re-indexes blocks replaced by a reorg", async function () {
+        const [, alice, bob] = await ethers.getSigners();
+        const { token, address, indexer } = await indexedToken();
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        await token.transfer(alice.address, 300n);
+        await indexer.runOnce();
+
+        await ethers.provider.send("evm_revert", [snapshot]);
+        await token.transfer(bob.address, 100n);
+        const result = await indexer.runOnce();
+
+        expect(result?.reorgedFrom).to.equal(await ethers.provider.getBlockNumber());
+        const balances = await holderBalances(db, address);
+        expect(balances?.has(alice.address.toLowerCase())).to.equal(false);
+        expect(balances?.get(bob.address.toLowerCase())).to.equal(100n);
+    });
+});
@@ -0,0 +1,100 @@
+import { expect } from "chai";
+import { ZeroAddress } from "ethers";
+import { FeeFlow, compareFlow, isDiscrepancy, reconcileFlows, reportToCsv } from "../reconcile/flows";
+
+const HANDLER = "0x00000000000000000000000000000000000000f1";
+const COMMUNITY = "0x00000000000000000000000000000000000000c1";
+const TREASURY = "0x00000000000000000000000000000000000000c2";
+const STRANGER = "0x00000000000000000000000000000000000000c3";
+
+const RANGE = { network: "hardhat", chainId: 31337n, fromBlock: 1, toBlock: 10 };
+
+/** A FeeHandler tax flow of 100 wei: 60 to the community wallet, 40 to the treasury, paid as given. */
+function flow(paid?: Record<string, bigint>, received?: bigint): FeeFlow {
+    return {
+        source: "FeeHandler",
+        method: "distributeTax",
+        contract: HANDLER,
+        blockNumber: 5,
+        txHash: "0x01",
+        logIndex: 0,
+        asset: ZeroAddress,
+        amount: 100n,
+        expected: [
+            { share: "community", recipient: COMMUNITY, amount: 60n, reported: 60n },
+            { share: "dexLiquidity", recipient: TREASURY, amount: 15n, reported: 15n },
+            { share: "treasuryInitiative", recipient: TREASURY, amount: 25n, reported: 25n },
+        ],
+        received,
+        paid,
+    };
+}
+
+describe("Fee reconciliation flows", function () {
+    it("compares shares paid to the same wallet together", function () {
+        const lines = compareFlow(flow({ [COMMUNITY]: 60n, [TREASURY]: 40n }, 100n));
+
+        expect(lines.map((line) => [line.recipient, line.shares.join("+"), line.expected, line.actual])).to.deep.equal([
+            [COMMUNITY, "community", 60n, 60n],
+            [TREASURY, "dexLiquidity+treasuryInitiative", 40n, 40n],
+        ]);
+        expect(lines.some(isDiscrepancy)).to.equal(false);
+    });
+
+    it("reports unpaid shares, unexpected payments and the retained remainder", function () {
+        const lines = compareFlow(flow({ [COMMUNITY]: 50n, [STRANGER]: 10n }, 100n));
+
+        expect(lines.map((line) => [line.recipient, line.shares.join("+"), line.expected, line.actual])).to.deep.equal([
+            [COMMUNITY, "community", 60n, 50n],
+            [TREASURY, "dexLiquidity+treasuryInitiative", 40n, 0n],
+            [STRANGER, "unexpected", 0n, 10n],
+            [HANDLER, "retained", 0n, 40n],
+        ]);
+        expect(lines.every(isDiscrepancy)).to.equal(true);
+    });
+
+    it("compares the event's figures of record-only flows", function () {
+        const recorded = flow();
+        recorded.expected[0].reported = 59n;
+        const lines = compareFlow(recorded);
+
+        expect(lines.map((line) => [line.expected, line.reported, line.actual])).to.deep.equal([
+            [60n, 59n, undefined],
+            [40n, 40n, undefined],
+        ]);
+        expect(lines.map(isDiscrepancy)).to.deep.equal([true, false]);
+    });
+
+    it("compares a share without a wallet on its own", function () {
+        const unassigned = flow({ [COMMUNITY]: 60n, [TREASURY]: 40n }, 100n);
+        delete unassigned.expected[1].recipient;
+        const lines = compareFlow(unassigned);
+
+        expect(lines.map((line) => [line.recipient, line.shares.join("+"), line.expected, line.actual])).to.deep.equal([
+            [COMMUNITY, "community", 60n, 60n],
+            [undefined, "dexLiquidity", 15n, 0n],
+            [TREASURY, "treasuryInitiative", 25n, 40n],
+        ]);
+    });
+
+    it("counts flows, amounts and discrepancies per source", function () {
+        const report = reconcileFlows(
+            [flow({ [COMMUNITY]: 60n, [TREASURY]: 40n }, 100n), flow({ [COMMUNITY]: 60n, [TREASURY]: 30n }, 100n)],
+            RANGE
+        );
+
+        expect(report.sources).to.deep.equal({ FeeHandler: { flows: 2, discrepancies: 2, amounts: { [ZeroAddress]: 200n } } });
+        expect(report.lines.map((line) => line.shares.join("+"))).to.deep.equal(["dexLiquidity+treasuryInitiative", "retained"]);
+        expect(reconcileFlows([flow({ [COMMUNITY]: 60n, [TREASURY]: 40n }, 100n)], RANGE, true).lines).to.have.length(2);
+    });
+
+    it("writes the difference of each line to the CSV report", function () {
+        const report = reconcileFlows([flow({ [COMMUNITY]: 60n, [TREASURY]: 30n }, 100n)], RANGE);
+        const [, ...rows] = reportToCsv(report).trim().split("\n");
+
+        expect(rows.map((row) => row.split(",").slice(-5))).to.deep.equal([
+            ["dexLiquidity+treasuryInitiative", "40", "40", "30", "-10"],
+            ["retained", "0", "", "10", "10"],
+        ]);
+    });
+});
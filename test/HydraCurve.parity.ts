@@ -0,0 +1,170 @@
+import { expect } from "chai";
+import { Wallet, parseEther } from "ethers";
+import { ethers, upgrades } from "hardhat";
+import { ContractRevertError, CurveParams, HydraCurveMath, PanicError, simulateCurve, validateCurveParams } from "../sdk";
+
+const WAD = 10n ** 18n;
+
+const CURVES: Record<string, CurveParams> = {
+    standard: {
+        initialPrice: parseEther("0.0001"),
+        initialSupply: parseEther("1000000"),
+        maxSupply: parseEther("1000000000"),
+        baseWeight: parseEther("500000"),
+        priceMultiplier: WAD,
+    },
+    discounted: {
+        initialPrice: parseEther("0.00002"),
+        initialSupply: parseEther("10"),
+        maxSupply: parseEther("21000000"),
+        baseWeight: parseEther("1000000"),
+        priceMultiplier: parseEther("0.5"),
+    },
+    steep: {
+        initialPrice: 3n,
+        initialSupply: 7n,
+        maxSupply: 1000n,
+        baseWeight: 1n,
+        priceMultiplier: parseEther("3.7"),
+    },
+    huge: {
+        initialPrice: 2n ** 120n,
+        initialSupply: 2n ** 100n,
+        maxSupply: 2n ** 110n,
+        baseWeight: 3n,
+        priceMultiplier: 2n ** 70n,
+    },
+};
+
+/** Deterministic pseudo-random amounts below `max`, so failures reproduce. */
+function* amounts(max: bigint, count: number, seed = 1n): Generator<bigint> {
+    let state = seed;
+    for (let i = 0; i < count; i++) {
+        state = (state * 6364136223846793005n + 1442695040888963407n) % 2n ** 64n;
+        yield (state * max) / 2n ** 64n;
+    }
+}
+
+async function deployCurve() {
+    const [owner] = await ethers.getSigners();
+    const factory = await ethers.getContractFactory("contracts/curve/HydraCurve.sol:HydraCurve");
+    const curve = await upgrades.deployProxy(factory, [owner.address], { initializer: "initialize" });
+    return ethers.getContractAt("IHydraCurve", await curve.getAddress());
+}
+
+/** The on-chain call either returns what the TypeScript math returns or reverts the way it throws. */
+async function expectParity(onChain: () => Promise<bigint>, offChain: () => bigint): Promise<void> {
+    let expected: bigint;
+    try {
+        expected = offChain();
+    } catch (error) {
+        if (error instanceof ContractRevertError) {
+            await expect(onChain()).to.be.revertedWith(error.reason);
+        } else if (error instanceof PanicError) {
+            await expect(onChain()).to.be.revertedWithPanic(error.code);
+        } else {
+            throw error;
+        }
+        return;
+    }
+    expect(await onChain()).to.equal(expected);
+}
+
+describe("HydraCurve parity", function () {
+    for (const [name, params] of Object.entries(CURVES)) {
+        describe(name, function () {
+            let curve: Awaited<ReturnType<typeof deployCurve>>;
+            const token = Wallet.createRandom().address;
+
+            before(async function () {
+                curve = await deployCurve();
+                await curve.initializeCurve(token, params);
+            });
+
+            it("prices every supply like calculatePrice", async function () {
+                const supplies = [0n, 1n, params.initialSupply, params.maxSupply - 1n, params.maxSupply, params.maxSupply * 2n];
+                for (const supply of [...supplies, ...amounts(params.maxSupply, 40)]) {
+                    await expectParity(
+                        () => curve.calculatePrice(token, supply),
+                        () => HydraCurveMath.calculatePrice(params, supply)
+                    );
+                }
+            });
+
+            it("matches calculatePriceImpact for buys and sells", async function () {
+                const sizes = [0n, 1n, params.initialSupply, params.maxSupply - params.initialSupply, params.maxSupply];
+                for (const amount of [...sizes, ...amounts(params.maxSupply, 30, 7n)]) {
+                    for (const isBuy of [true, false]) {
+                        await expectParity(
+                            () => curve.calculatePriceImpact(token, amount, isBuy),
+                            () => HydraCurveMath.calculatePriceImpact(params, amount, isBuy)
+                        );
+                    }
+                }
+            });
+
+            it("matches calculateBuyAmount and calculateSellAmount", async function () {
+                for (const amount of [0n, 1n, WAD, ...amounts(parseEther("1000000"), 30, 11n)]) {
+                    await expectParity(
+                        () => curve.calculateBuyAmount(token, amount),
+                        () => HydraCurveMath.calculateBuyAmount(params, amount)
+                    );
+                    await expectParity(
+                        () => curve.calculateSellAmount(token, amount),
+                        () => HydraCurveMath.calculateSellAmount(params, amount)
+                    );
+                }
+            });
+        });
+    }
+
+    it("rejects the params initializeCurve rejects, with the same reasons", async function () {
+        const curve = await deployCurve();
+        const base = CURVES.standard;
+        const invalid: Partial<CurveParams>[] = [
+            { initialPrice: 0n },
+            { initialSupply: 0n },
+            { maxSupply: base.initialSupply - 1n },
+            { baseWeight: 0n },
+            { priceMultiplier: 0n },
+        ];
+        for (const override of invalid) {
+            const params = { ...base, ...override };
+            let reason: string | undefined;
+            try {
+                validateCurveParams(params);
+            } catch (error) {
+                reason = (error as ContractRevertError).reason;
+            }
+            expect(reason, Object.keys(override)[0]).to.be.a("string");
+            await expect(curve.initializeCurve(Wallet.createRandom().address, params)).to.be.revertedWith(reason!);
+        }
+    });
+
+    it("simulates a trade sequence the way the contract prices it after each supply update", async function () {
+        const curve = await deployCurve();
+        const token = Wallet.createRandom().address;
+        const params = CURVES.standard;
+        await curve.initializeCurve(token, params);
+
+        const trades = [
+            { side: "buy" as const, amount: parseEther("5") },
+            { side: "buy" as const, amount: parseEther("120") },
+            { side: "sell" as const, amount: parseEther("250000") },
+            { side: "buy" as const, amount: parseEther("0.3") },
+        ];
+        const steps = simulateCurve(params, trades);
+        for (const [index, step] of steps.entries()) {
+            const trade = trades[index];
+            expect(step.priceBefore).to.equal(await curve.calculatePrice(token, step.supplyBefore));
+            if (trade.side === "buy") {
+                expect(step.amountOut).to.equal(await curve.calculateBuyAmount(token, trade.amount));
+                expect(step.slippageBps).to.equal(await curve.calculatePriceImpact(token, step.amountOut, true));
+            } else {
+                expect(step.amountOut).to.equal(await curve.calculateSellAmount(token, trade.amount));
+                expect(step.slippageBps).to.equal(await curve.calculatePriceImpact(token, trade.amount, false));
+            }
+            await curve.updateCurveParams(token, { ...params, initialSupply: step.supplyAfter });
+        }
+    });
+});
@@ -0,0 +1,101 @@
+import { expect } from "chai";
+import { Signer, VoidSigner, Wallet, parseEther } from "ethers";
+import { ethers, upgrades } from "hardhat";
+import { DEFAULT_KEEPER_OPTIONS, LimitOrderKeeper } from "../keeper/keeper";
+import { OrderStatus, OrderTracker } from "../keeper/orders";
+import { DEFAULT_PRICING_OPTIONS, OrderPricer } from "../keeper/pricing";
+import { Degen4LifeDEX__factory, IERC20__factory, IPriceOracle__factory, OrderBookModule__factory } from "../typechain-types";
+
+const silent = { log: () => undefined, warn: () => undefined, error: () => undefined };
+
+describe("Limit-order keeper on the hardhat network", function () {
+    /**
+     * A maker order selling 100 IN for 90 OUT, a DEX that swaps one for one
+     * and an oracle pricing both tokens and WETH the same, so filling the
+     * order and selling its IN nets 10 OUT.
+     */
+    async function openOrder() {
+        const [deployer, maker] = await ethers.getSigners();
+        const tokenIn = await ethers.deployContract("contracts/mocks/MockERC20.sol:MockERC20", ["In", "IN", 0n]);
+        const tokenOut = await ethers.deployContract("contracts/mocks/MockERC20.sol:MockERC20", ["Out", "OUT", 0n]);
+        const weth = await ethers.deployContract("contracts/mocks/MockERC20.sol:MockERC20", ["Wrapped Ether", "WETH", 0n]);
+        const dex = await ethers.deployContract("MockSwapDEX");
+        const oracle = await ethers.deployContract("MockPriceOracle");
+        for (const token of [tokenIn, tokenOut, weth]) await oracle.setPrice(await token.getAddress(), parseEther("1"));
+        await tokenOut.mint(await dex.getAddress(), parseEther("1000"));
+
+        const orderBook = await upgrades.deployProxy(await ethers.getContractFactory("OrderBookModule"), [deployer.address], {
+            initializer: "initialize",
+        });
+        const fromBlock = await ethers.provider.getBlockNumber();
+        await tokenIn.mint(maker.address, parseEther("100"));
+        await IERC20__factory.connect(await tokenIn.getAddress(), maker).approve(await orderBook.getAddress(), parseEther("100"));
+        await OrderBookModule__factory.connect(await orderBook.getAddress(), maker).createLimitOrder(
+            await tokenIn.getAddress(),
+            await tokenOut.getAddress(),
+            parseEther("100"),
+            parseEther("90"),
+            false
+        );
+
+        // A keeper account that has never approved anything
+        const keeperWallet = Wallet.createRandom(ethers.provider);
+        await deployer.sendTransaction({ to: keeperWallet.address, value: parseEther("10") });
+        await tokenOut.mint(keeperWallet.address, parseEther("90"));
+
+        return { maker, tokenIn, tokenOut, weth, dex, oracle, orderBook, fromBlock, keeperWallet };
+    }
+
+    async function keeperFor(
+        account: Signer,
+        { orderBook, dex, oracle, weth, fromBlock }: Awaited<ReturnType<typeof openOrder>>,
+        simulate: boolean
+    ) {
+        const book = OrderBookModule__factory.connect(await orderBook.getAddress(), account);
+        const swapDex = Degen4LifeDEX__factory.connect(await dex.getAddress(), account);
+        const pricer = new OrderPricer(
+            swapDex,
+            IPriceOracle__factory.connect(await oracle.getAddress(), account),
+            await weth.getAddress(),
+            account,
+            DEFAULT_PRICING_OPTIONS
+        );
+        return new LimitOrderKeeper(
+            ethers.provider,
+            account,
+            book,
+            swapDex,
+            new OrderTracker(book, fromBlock),
+            pricer,
+            { ...DEFAULT_KEEPER_OPTIONS, confirmations: 0, simulate },
+            silent
+        );
+    }
+
+    it("approves, fills a profitable order and sells what it received", async function () {
+        const setup = await openOrder();
+        const { maker, tokenIn, tokenOut, orderBook, keeperWallet } = setup;
+        const keeper = await keeperFor(keeperWallet, setup, false);
+
+        const report = await keeper.runOnce();
+
+        expect(report.filled).to.have.length(1);
+        expect(Number((await orderBook.getOrder(report.filled[0])).status)).to.equal(OrderStatus.FILLED);
+        expect(await tokenOut.balanceOf(maker.address)).to.equal(parseEther("90"));
+        expect(await tokenIn.balanceOf(keeperWallet.address)).to.equal(0n);
+        expect(await tokenOut.balanceOf(keeperWallet.address)).to.equal(parseEther("100"));
+    });
+
+    it("simulates a fill for an account without approvals and leaves the chain as it was", async function () {
+        const setup = await openOrder();
+        const { tokenOut, orderBook, keeperWallet } = setup;
+        const keeper = await keeperFor(new VoidSigner(keeperWallet.address, ethers.provider), setup, true);
+
+        const report = await keeper.runOnce();
+
+        expect(report.filled).to.have.length(1);
+        expect(report.transactions).to.deep.equal([]);
+        expect(Number((await orderBook.getOrder(report.filled[0])).status)).to.equal(OrderStatus.OPEN);
+        expect(await tokenOut.allowance(keeperWallet.address, await orderBook.getAddress())).to.equal(0n);
+    });
+});
@@ -0,0 +1,97 @@
+import { expect } from "chai";
+import { parseEther } from "ethers";
+import { ethers } from "hardhat";
+import { StorageLike } from "../sdk";
+import { MarketTracker } from "../resolver/markets";
+import { ResolverNotification } from "../resolver/notify";
+import { DEFAULT_RESOLVER_OPTIONS, MarketResolver } from "../resolver/resolver";
+import { IERC20__factory, PredictionMarket__factory } from "../typechain-types";
+
+const silent = { log: () => undefined, warn: () => undefined, error: () => undefined };
+const DURATION = 3600;
+
+describe("Market resolver on the hardhat network", function () {
+    /**
+     * A one-hour PredictionMarket where alice stakes 100 on YES and bob 50 on
+     * NO, and a resolver whose only source answers YES.
+     */
+    async function stakedMarket() {
+        const [oracle, alice, bob] = await ethers.getSigners();
+        const token = await ethers.deployContract("contracts/mocks/MockERC20.sol:MockERC20", ["Stake", "STK", 0n]);
+        const deployed = await ethers.deployContract("PredictionMarket", [oracle.address]);
+        const market = PredictionMarket__factory.connect(await deployed.getAddress(), oracle);
+        const fromBlock = await ethers.provider.getBlockNumber();
+
+        await (await market.createMarket(await token.getAddress(), DURATION, "Will it pump?")).wait();
+        const [created] = await market.queryFilter(market.filters.MarketCreated());
+        const marketId = created.args.marketId;
+        for (const [account, isYes, amount] of [[alice, true, parseEther("100")], [bob, false, parseEther("50")]] as const) {
+            await token.mint(account.address, amount);
+            await IERC20__factory.connect(await token.getAddress(), account).approve(await market.getAddress(), amount);
+            await market.connect(account).takePosition(marketId, isYes, amount);
+        }
+
+        const notifications: ResolverNotification[] = [];
+        const items = new Map<string, string>();
+        const state: StorageLike = {
+            getItem: (key) => items.get(key) ?? null,
+            setItem: (key, value) => void items.set(key, value),
+            removeItem: (key) => void items.delete(key),
+        };
+        const resolver = new MarketResolver(
+            ethers.provider,
+            31337n,
+            new MarketTracker(market, undefined, fromBlock),
+            { predictionMarket: market },
+            [{ name: "yes", outcome: async () => true }],
+            { notify: async (notification) => void notifications.push(notification) },
+            state,
+            { confirmations: 0 },
+            silent
+        );
+        return { alice, market, marketId, resolver, notifications };
+    }
+
+    async function increaseTime(seconds: number) {
+        await ethers.provider.send("evm_increaseTime", [seconds]);
+        await ethers.provider.send("evm_mine", []);
+    }
+
+    it("resolves a settled market with its sources' outcome and notifies the winner", async function () {
+        const { alice, market, marketId, resolver, notifications } = await stakedMarket();
+        const key = `PredictionMarket:${marketId}`;
+
+        expect((await resolver.runOnce()).resolved).to.deep.equal([]);
+        await increaseTime(DURATION + DEFAULT_RESOLVER_OPTIONS.settleDelay);
+
+        expect((await resolver.runOnce()).resolved).to.deep.equal([key]);
+        const resolved = await market.getMarket(marketId);
+        expect(resolved.resolved).to.equal(true);
+        expect(resolved.outcome).to.equal(true);
+
+        expect((await resolver.runOnce()).notified).to.deep.equal([key]);
+        expect(notifications).to.deep.equal([
+            {
+                type: "market.claimable",
+                chainId: "31337",
+                contract: "PredictionMarket",
+                address: await market.getAddress(),
+                marketId,
+                outcome: true,
+                claims: [{ account: alice.address, amount: parseEther("150").toString() }],
+            },
+        ]);
+        expect((await resolver.runOnce()).tracked).to.equal(0);
+    });
+
+    it("flags a market past its resolution window instead of resolving it", async function () {
+        const { market, marketId, resolver, notifications } = await stakedMarket();
+        await increaseTime(DURATION + DEFAULT_RESOLVER_OPTIONS.resolutionWindow + 1);
+
+        const report = await resolver.runOnce();
+
+        expect(report.resolved).to.deep.equal([]);
+        expect((await market.getMarket(marketId)).resolved).to.equal(false);
+        expect(notifications.map((notification) => notification.type)).to.deep.equal(["market.overdue"]);
+    });
+});
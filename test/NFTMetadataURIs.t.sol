@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../contracts/social/AchievementNFT.sol";
+import "../contracts/social/BadgeNFT.sol";
+
+contract NFTMetadataURIsTest is Test {
+    AchievementNFT public achievements;
+    BadgeNFT public badges;
+    address public owner;
+    address public user1;
+
+    event BaseURIUpdated(string baseURI);
+
+    function setUp() public {
+        owner = makeAddr("owner");
+        user1 = makeAddr("user1");
+
+        achievements = new AchievementNFT("Degen4Life Achievement", "D4LA", "http://localhost:3000/achievements/metadata/", owner);
+        badges = new BadgeNFT("http://localhost:3000/badges/metadata/{id}", owner);
+    }
+
+    function test_AchievementTokenURIUsesConstructorBaseURI() public {
+        vm.prank(owner);
+        achievements.safeMint(user1, 42);
+
+        assertEq(achievements.tokenURI(42), "http://localhost:3000/achievements/metadata/42");
+    }
+
+    function test_SetBaseURI() public {
+        vm.prank(owner);
+        achievements.safeMint(user1, 7);
+
+        vm.expectEmit(false, false, false, true);
+        emit BaseURIUpdated("https://api.degen4life.com/achievements/metadata/");
+        vm.prank(owner);
+        achievements.setBaseURI("https://api.degen4life.com/achievements/metadata/");
+
+        assertEq(achievements.tokenURI(7), "https://api.degen4life.com/achievements/metadata/7");
+    }
+
+    function test_BadgeURIUsesConstructorURI() public view {
+        assertEq(badges.uri(1), "http://localhost:3000/badges/metadata/{id}");
+    }
+
+    function test_SetURI() public {
+        vm.prank(owner);
+        badges.setURI("https://api.degen4life.com/badges/metadata/{id}");
+
+        assertEq(badges.uri(1), "https://api.degen4life.com/badges/metadata/{id}");
+    }
+
+    function test_RevertWhen_SetURINotOwner() public {
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", user1));
+        badges.setURI("https://evil.example/{id}");
+    }
+
+    function test_RevertWhen_SetBaseURINotOwner() public {
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", user1));
+        achievements.setBaseURI("https://evil.example/");
+    }
+}
@@ -21,6 +21,7 @@ contract OrderBookModuleTest is Test {
     event OrderFilled(bytes32 indexed orderId, address indexed taker, uint256 fillAmount);
     event OrderCancelled(bytes32 indexed orderId);
     event TradeExecuted(bytes32 indexed orderId, address indexed maker, address indexed taker, uint256 amount, uint256 price);
+    event OrderExpired(bytes32 indexed orderId);
 
     function setUp() public {
         owner = address(this);
@@ -140,6 +141,10 @@ contract OrderBookModuleTest is Test {
         (, , , , , , , OrderBookModule.OrderStatus status) = _unpackOrder(orderBook.getOrder(orderId));
         assertEq(uint8(status), uint8(OrderBookModule.OrderStatus.CANCELLED));
 
+        // The order book's copy is cancelled too
+        (OrderBookModule.Order[] memory buyOrders, ) = orderBook.getOrderBook(mockToken1, mockToken2);
+        assertEq(uint8(buyOrders[0].status), uint8(OrderBookModule.OrderStatus.CANCELLED));
+
         vm.stopPrank();
     }
 
@@ -246,6 +251,99 @@ contract OrderBookModuleTest is Test {
         assertEq(uint8(sellStatus), uint8(OrderBookModule.OrderStatus.FILLED));
     }
 
+    function test_FillOrder() public {
+        vm.prank(user1);
+        bytes32 orderId = orderBook.createLimitOrder(mockToken1, mockToken2, 1000e18, 900e18, true);
+
+        vm.expectEmit(true, true, false, true);
+        emit OrderFilled(orderId, user2, 1000e18);
+        vm.prank(user2);
+        orderBook.fillOrder(orderId);
+
+        (, , , , , , , OrderBookModule.OrderStatus status) = _unpackOrder(orderBook.getOrder(orderId));
+        assertEq(uint8(status), uint8(OrderBookModule.OrderStatus.FILLED));
+
+        // The order book copy is updated too
+        (OrderBookModule.Order[] memory buyOrders, ) = orderBook.getOrderBook(mockToken1, mockToken2);
+        assertEq(uint8(buyOrders[0].status), uint8(OrderBookModule.OrderStatus.FILLED));
+    }
+
+    function test_FillOrdersSkipsClosedOrders() public {
+        vm.startPrank(user1);
+        bytes32 openId = orderBook.createLimitOrder(mockToken1, mockToken2, 1000e18, 900e18, true);
+        bytes32 cancelledId = orderBook.createLimitOrder(mockToken1, mockToken2, 2000e18, 1800e18, true);
+        orderBook.cancelOrder(cancelledId);
+        vm.stopPrank();
+
+        bytes32[] memory orderIds = new bytes32[](3);
+        orderIds[0] = openId;
+        orderIds[1] = cancelledId;
+        orderIds[2] = keccak256("unknown");
+
+        vm.prank(user2);
+        assertEq(orderBook.fillOrders(orderIds), 1);
+
+        (, , , , , , , OrderBookModule.OrderStatus status) = _unpackOrder(orderBook.getOrder(openId));
+        assertEq(uint8(status), uint8(OrderBookModule.OrderStatus.FILLED));
+    }
+
+    function test_RevertWhenFillingFilledOrder() public {
+        vm.prank(user1);
+        bytes32 orderId = orderBook.createLimitOrder(mockToken1, mockToken2, 1000e18, 900e18, true);
+
+        vm.startPrank(user2);
+        orderBook.fillOrder(orderId);
+        vm.expectRevert("Invalid status");
+        orderBook.fillOrder(orderId);
+        vm.stopPrank();
+    }
+
+    function test_ExpireOrder() public {
+        orderBook.setOrderExpiry(1 hours);
+
+        vm.prank(user1);
+        bytes32 orderId = orderBook.createLimitOrder(mockToken1, mockToken2, 1000e18, 900e18, true);
+
+        vm.warp(block.timestamp + 1 hours + 1);
+
+        vm.expectEmit(true, false, false, false);
+        emit OrderExpired(orderId);
+        vm.prank(user2);
+        orderBook.expireOrder(orderId);
+
+        (, , , , , , , OrderBookModule.OrderStatus status) = _unpackOrder(orderBook.getOrder(orderId));
+        assertEq(uint8(status), uint8(OrderBookModule.OrderStatus.CANCELLED));
+    }
+
+    function test_RevertWhenExpiringFreshOrder() public {
+        orderBook.setOrderExpiry(1 hours);
+
+        vm.prank(user1);
+        bytes32 orderId = orderBook.createLimitOrder(mockToken1, mockToken2, 1000e18, 900e18, true);
+
+        vm.expectRevert("Not expired");
+        orderBook.expireOrder(orderId);
+    }
+
+    function test_RevertWhenFillingExpiredOrder() public {
+        orderBook.setOrderExpiry(1 hours);
+
+        vm.prank(user1);
+        bytes32 orderId = orderBook.createLimitOrder(mockToken1, mockToken2, 1000e18, 900e18, true);
+
+        vm.warp(block.timestamp + 1 hours + 1);
+
+        vm.prank(user2);
+        vm.expectRevert("Order expired");
+        orderBook.fillOrder(orderId);
+    }
+
+    function test_RevertWhenUnauthorizedSetOrderExpiry() public {
+        vm.prank(user1);
+        vm.expectRevert();
+        orderBook.setOrderExpiry(1 hours);
+    }
+
     // Helper function to unpack Order struct
     function _unpackOrder(OrderBookModule.Order memory order) internal pure returns (
         address maker,
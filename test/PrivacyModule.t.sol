@@ -0,0 +1,108 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../contracts/modules/PrivacyModule.sol";
+import "../contracts/interfaces/IContractRegistry.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+contract PrivacyModuleTest is Test {
+    PrivacyModule public privacy;
+    address public user1;
+    address public registry;
+    address public dex;
+    address public mockToken1;
+    address public mockToken2;
+
+    bytes32 constant SALT = keccak256("salt");
+
+    event OrderCommitted(bytes32 indexed commitment, uint256 timestamp);
+    event OrderExecuted(bytes32 indexed commitment, uint256 amountIn, uint256 amountOut);
+
+    function setUp() public {
+        user1 = makeAddr("user1");
+        registry = makeAddr("registry");
+        dex = makeAddr("dex");
+        mockToken1 = makeAddr("token1");
+        mockToken2 = makeAddr("token2");
+
+        PrivacyModule implementation = new PrivacyModule();
+        ERC1967Proxy proxy = new ERC1967Proxy(
+            address(implementation),
+            abi.encodeWithSelector(PrivacyModule.initialize.selector, registry)
+        );
+        privacy = PrivacyModule(address(proxy));
+
+        vm.mockCall(
+            registry,
+            abi.encodeWithSelector(IContractRegistry.getContractAddressByName.selector, "D4L_DEX"),
+            abi.encode(dex)
+        );
+        vm.mockCall(mockToken1, abi.encodeWithSelector(IERC20.transferFrom.selector), abi.encode(true));
+        vm.mockCall(mockToken1, abi.encodeWithSelector(IERC20.approve.selector), abi.encode(true));
+        vm.mockCall(mockToken2, abi.encodeWithSelector(IERC20.transfer.selector), abi.encode(true));
+    }
+
+    function _reveal(bytes32 salt) internal view returns (PrivacyModule.OrderReveal memory) {
+        return PrivacyModule.OrderReveal({
+            maker: user1,
+            tokenIn: mockToken1,
+            tokenOut: mockToken2,
+            amountIn: 1 ether,
+            minAmountOut: 2 ether,
+            salt: salt,
+            signature: ""
+        });
+    }
+
+    function test_HashOrderMatchesPackedEncoding() public view {
+        bytes32 expected = keccak256(
+            abi.encodePacked(user1, mockToken1, mockToken2, uint256(1 ether), uint256(2 ether), SALT)
+        );
+        assertEq(privacy.hashOrder(_reveal(SALT)), expected);
+        assertTrue(privacy.hashOrder(_reveal(keccak256("other"))) != expected);
+    }
+
+    function test_CommitAndReveal() public {
+        bytes32 commitment = privacy.hashOrder(_reveal(SALT));
+
+        vm.prank(user1);
+        vm.expectEmit(true, false, false, true);
+        emit OrderCommitted(commitment, block.timestamp);
+        privacy.commitOrder(commitment, 5 minutes);
+
+        vm.warp(block.timestamp + privacy.MIN_DELAY());
+        vm.expectEmit(true, false, false, true);
+        emit OrderExecuted(commitment, 1 ether, 2 ether);
+        privacy.revealAndExecute(_reveal(SALT));
+
+        assertTrue(privacy.getOrder(commitment).executed);
+    }
+
+    function test_RevertWhenRevealingWithWrongSalt() public {
+        vm.prank(user1);
+        privacy.commitOrder(privacy.hashOrder(_reveal(SALT)), 5 minutes);
+
+        vm.warp(block.timestamp + privacy.MIN_DELAY());
+        vm.expectRevert("Order not found");
+        privacy.revealAndExecute(_reveal(keccak256("other")));
+    }
+
+    function test_RevertWhenRevealingTooEarly() public {
+        vm.prank(user1);
+        privacy.commitOrder(privacy.hashOrder(_reveal(SALT)), 5 minutes);
+
+        vm.expectRevert("Too early");
+        privacy.revealAndExecute(_reveal(SALT));
+    }
+
+    function test_RevertWhenRevealingExpiredCommitment() public {
+        vm.prank(user1);
+        privacy.commitOrder(privacy.hashOrder(_reveal(SALT)), 5 minutes);
+
+        vm.warp(block.timestamp + 5 minutes + privacy.COMMITMENT_EXPIRY() + 1);
+        vm.expectRevert("Order expired");
+        privacy.revealAndExecute(_reveal(SALT));
+    }
+}
@@ -0,0 +1,49 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../contracts/modules/RiskManagementModule.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+contract RiskManagementModuleTest is Test {
+    RiskManagementModule public risk;
+    address public token;
+    address public user1;
+
+    event MarketIndicatorsUpdated(address indexed token, uint256 realizedVolatility, uint256 holderConcentration, uint256 washTradeRatio);
+
+    function setUp() public {
+        token = makeAddr("token");
+        user1 = makeAddr("user1");
+
+        RiskManagementModule implementation = new RiskManagementModule();
+        ERC1967Proxy proxy = new ERC1967Proxy(
+            address(implementation),
+            abi.encodeWithSelector(RiskManagementModule.initialize.selector, makeAddr("registry"))
+        );
+        risk = RiskManagementModule(address(proxy));
+    }
+
+    function test_UpdateMarketIndicators() public {
+        vm.expectEmit(true, false, false, true);
+        emit MarketIndicatorsUpdated(token, 350, 6200, 1500);
+        risk.updateMarketIndicators(token, 350, 6200, 1500);
+
+        RiskManagementModule.MarketIndicators memory indicators = risk.getMarketIndicators(token);
+        assertEq(indicators.realizedVolatility, 350);
+        assertEq(indicators.holderConcentration, 6200);
+        assertEq(indicators.washTradeRatio, 1500);
+        assertEq(indicators.lastUpdate, block.timestamp);
+    }
+
+    function test_RevertWhen_RatioAboveOneHundredPercent() public {
+        vm.expectRevert("Invalid ratio");
+        risk.updateMarketIndicators(token, 0, 10001, 0);
+    }
+
+    function test_RevertWhen_NotOwner() public {
+        vm.prank(user1);
+        vm.expectRevert(abi.encodeWithSignature("OwnableUnauthorizedAccount(address)", user1));
+        risk.updateMarketIndicators(token, 0, 0, 0);
+    }
+}
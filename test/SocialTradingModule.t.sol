@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../contracts/modules/SocialTradingModule.sol";
+import "../contracts/registry/ContractRegistry.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+
+contract SocialTradingModuleTest is Test {
+    SocialTradingModule public social;
+    address public registry;
+    address public controller;
+    address public engine;
+    address public leader;
+
+    function setUp() public {
+        registry = makeAddr("registry");
+        controller = makeAddr("controller");
+        engine = makeAddr("engine");
+        leader = makeAddr("leader");
+
+        SocialTradingModule implementation = new SocialTradingModule();
+        ERC1967Proxy proxy = new ERC1967Proxy(
+            address(implementation),
+            abi.encodeWithSelector(SocialTradingModule.initialize.selector, registry)
+        );
+        social = SocialTradingModule(address(proxy));
+
+        vm.mockCall(
+            registry,
+            abi.encodeWithSelector(ContractRegistry.getContractAddress.selector, keccak256(abi.encodePacked("CONTROLLER"))),
+            abi.encode(controller)
+        );
+
+        vm.prank(leader);
+        social.registerTrader("ipfs://leader");
+    }
+
+    function test_ControllerRecordsTrades() public {
+        vm.prank(controller);
+        social.recordTrade(leader, 1 ether, true);
+
+        assertEq(social.getTrader(leader).totalTrades, 1);
+    }
+
+    function test_CopyTraderRecordsTrades() public {
+        social.grantRole(social.COPY_TRADER_ROLE(), engine);
+
+        vm.prank(engine);
+        social.recordTrade(leader, 2 ether, false);
+
+        ISocialTrading.Trader memory trader = social.getTrader(leader);
+        assertEq(trader.totalTrades, 1);
+        assertEq(trader.successfulTrades, 0);
+        assertEq(trader.totalVolume, 2 ether);
+    }
+
+    function test_RevertWhen_RecorderHasNoRole() public {
+        vm.prank(engine);
+        vm.expectRevert("Unauthorized");
+        social.recordTrade(leader, 1 ether, true);
+    }
+}
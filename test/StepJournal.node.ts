@@ -0,0 +1,42 @@
+import { expect } from "chai";
+import hre, { ethers } from "hardhat";
+import { StepJournal, isStepApplied } from "../utils/deploy/journal";
+
+const STEP = "core:Target.configure#0";
+const TARGET = "0x00000000000000000000000000000000000000c1";
+
+describe("Step journal on the hardhat network", function () {
+    afterEach(async function () {
+        await ethers.provider.send("evm_setAutomine", [true]);
+    });
+
+    /** Broadcasts a transaction without mining it and journals it as STEP. */
+    async function broadcastStep(): Promise<{ journal: StepJournal; hash: string }> {
+        const [deployer] = await ethers.getSigners();
+        await ethers.provider.send("evm_setAutomine", [false]);
+        const tx = await deployer.sendTransaction({ to: TARGET });
+        const journal: StepJournal = {
+            chainId: 31337,
+            entries: {
+                [STEP]: { step: STEP, target: "Target", address: TARGET, method: "configure", args: [], transactionHash: tx.hash, recordedAt: "" },
+            },
+        };
+        return { journal, hash: tx.hash };
+    }
+
+    it("waits for a step an earlier run broadcast instead of sending it again", async function () {
+        const { journal } = await broadcastStep();
+
+        const applied = isStepApplied(hre, journal, STEP, TARGET, []);
+        await ethers.provider.send("evm_mine", []);
+
+        expect(await applied).to.equal(true);
+    });
+
+    it("sends a step again once its transaction was dropped", async function () {
+        const { journal, hash } = await broadcastStep();
+        await ethers.provider.send("hardhat_dropTransaction", [hash]);
+
+        expect(await isStepApplied(hre, journal, STEP, TARGET, [])).to.equal(false);
+    });
+});
@@ -0,0 +1,36 @@
+import { expect } from "chai";
+import hre, { deployments } from "hardhat";
+import { importProxy } from "../utils/deploy/upgrade";
+
+describe("Upgrade validation on the hardhat network", function () {
+    this.timeout(300_000);
+
+    before(async function () {
+        await deployments.fixture();
+        await importProxy(hre, "HydraCurve");
+    });
+
+    it("accepts the manifest's own implementation", async function () {
+        await hre.run("upgrade:validate", { contract: "HydraCurve" });
+    });
+
+    it("refuses an implementation whose storage layout shifts the proxy's slots", async function () {
+        const artifact = "contracts/test/mocks/HydraCurveStorageClash.sol:HydraCurveStorageClash";
+
+        const error = await hre.run("upgrade:validate", { contract: "HydraCurve", artifact }).then(
+            () => undefined,
+            (rejection: Error) => rejection
+        );
+
+        expect(error?.message).to.match(/storage layout is incompatible/i);
+    });
+
+    it("asks for an import before validating a proxy the plugin doesn't know", async function () {
+        const error = await hre.run("upgrade:validate", { contract: "TokenomicsRules" }).then(
+            () => undefined,
+            (rejection: Error) => rejection
+        );
+
+        expect(error?.message).to.include("npx hardhat upgrade:import --contract TokenomicsRules");
+    });
+});
@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../contracts/VersionController.sol";
+import "../contracts/Degen4LifeRoles.sol";
+
+contract VersionControllerTest is Test {
+    VersionController public controller;
+    address public implementation;
+    address public user1;
+
+    function setUp() public {
+        implementation = makeAddr("implementation");
+        user1 = makeAddr("user1");
+        controller = new VersionController();
+    }
+
+    function test_ProposeUpgrade() public {
+        controller.proposeUpgrade(implementation, "v2");
+
+        assertEq(controller.currentVersion(), 1);
+        assertTrue(controller.validateUpgrade(implementation));
+    }
+
+    function test_ProposeUpgradeWithUpgradeRole() public {
+        controller.grantRole(Degen4LifeRoles.UPGRADE_ROLE, user1);
+
+        vm.prank(user1);
+        controller.proposeUpgrade(implementation, "v2");
+        assertEq(controller.currentVersion(), 1);
+    }
+
+    function test_RevertWhen_NotUpgradeRole() public {
+        vm.prank(user1);
+        vm.expectRevert(
+            abi.encodeWithSignature("AccessControlUnauthorizedAccount(address,bytes32)", user1, Degen4LifeRoles.UPGRADE_ROLE)
+        );
+        controller.proposeUpgrade(implementation, "v2");
+    }
+}
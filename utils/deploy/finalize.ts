@@ -0,0 +1,41 @@
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeploymentManifest, resolveArgs } from './manifest';
+
+export const FINALIZE_TAG = 'finalize';
+
+/**
+ * Resolves the SystemAddresses struct the finalize tag hands to
+ * `Degen4LifeController.setSystemAddresses`.
+ */
+export async function finalSystemAddresses(
+    hre: HardhatRuntimeEnvironment,
+    manifest: DeploymentManifest
+): Promise<Record<string, string>> {
+    const call = manifest
+        .filter((entry) => entry.tag === FINALIZE_TAG)
+        .flatMap((entry) => entry.calls ?? [])
+        .find((item) => item.method === 'setSystemAddresses');
+    if (!call) {
+        throw new Error(`The ${FINALIZE_TAG} tag does not call setSystemAddresses`);
+    }
+    // Every field is a contract or account reference, so each resolves to an address
+    const [addresses] = await resolveArgs(hre, call.args);
+    return addresses as Record<string, string>;
+}
+
+/**
+ * Returns the SystemAddresses fields that still point at an account without
+ * code, i.e. the deployer or another EOA standing in for a contract.
+ */
+export async function findPlaceholderAddresses(
+    hre: HardhatRuntimeEnvironment,
+    addresses: Record<string, string>
+): Promise<string[]> {
+    const placeholders: string[] = [];
+    for (const [field, address] of Object.entries(addresses)) {
+        if ((await hre.ethers.provider.getCode(address)) === '0x') {
+            placeholders.push(`${field} (${address})`);
+        }
+    }
+    return placeholders;
+}
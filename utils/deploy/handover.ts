@@ -0,0 +1,188 @@
+import { ethers, Contract, Interface } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { HandoverConfig, ROLE_NAMES } from '../../config';
+
+export const PROXY_ADMIN_DEPLOYMENT = 'DefaultProxyAdmin';
+
+export type HandoverAction = {
+    deployment: string;
+    method: 'grantRole' | 'transferOwnership' | 'renounceRole';
+    args: string[];
+    description: string;
+};
+
+export type HandoverPlan = {
+    actions: HandoverAction[];
+    /** Anything that would leave a contract without an admin; nothing is sent while present */
+    problems: string[];
+};
+
+export type HoldingRow = {
+    deployment: string;
+    holding: string;
+    holder: string;
+};
+
+export const roleId = (role: string): string =>
+    role === 'DEFAULT_ADMIN_ROLE' ? ethers.ZeroHash : ethers.id(role);
+
+/** Role id -> name, for the Degen4LifeRoles roles and every role the config names. */
+function roleNames(config: HandoverConfig): Map<string, string> {
+    return new Map([...ROLE_NAMES, ...Object.keys(config.roles)].map((role) => [roleId(role), role]));
+}
+
+function hasFunctions(iface: Interface, ...names: string[]): boolean {
+    return names.every((name) => iface.getFunction(name) !== null);
+}
+
+// Excludes contracts with an unrelated `owner(...)` lookup, e.g. per-name owners
+const isOwnable = (iface: Interface) =>
+    hasFunctions(iface, 'owner', 'transferOwnership') && iface.getFunction('owner')!.inputs.length === 0;
+
+/**
+ * Deployments that can hold roles or an owner. hardhat-deploy's `_Proxy`
+ * and `_Implementation` records are skipped: the proxy is administered by
+ * DefaultProxyAdmin and implementations are never initialized.
+ */
+async function handoverTargets(hre: HardhatRuntimeEnvironment) {
+    const all = await hre.deployments.all();
+    return Object.entries(all)
+        .filter(([name]) => !name.endsWith('_Proxy') && !name.endsWith('_Implementation'))
+        .map(([name, deployment]) => ({
+            name,
+            deployment,
+            iface: new Interface(deployment.abi),
+            contract: new Contract(deployment.address, deployment.abi, hre.ethers.provider),
+        }));
+}
+
+/** Role ids ever granted on `contract`, from its RoleGranted events. */
+async function grantedRoles(contract: Contract, fromBlock: number): Promise<Map<string, Set<string>>> {
+    const holders = new Map<string, Set<string>>();
+    const events = await contract.queryFilter(contract.filters.RoleGranted(), fromBlock);
+    for (const event of events) {
+        const [role, account] = (event as ethers.EventLog).args;
+        holders.set(role, (holders.get(role) ?? new Set()).add(account));
+    }
+    return holders;
+}
+
+/** Resolves the named accounts the handover config refers to. */
+export async function resolveHandoverAccounts(hre: HardhatRuntimeEnvironment, config: HandoverConfig) {
+    const accounts = await hre.getNamedAccounts();
+    const names = new Set([...Object.values(config.roles), config.owner, config.proxyAdminOwner]);
+    const resolved: Record<string, string> = {};
+    const problems: string[] = [];
+    for (const name of names) {
+        const address = accounts[name];
+        if (!address || !ethers.isAddress(address)) {
+            problems.push(`named account ${name} is not configured for ${hre.network.name}`);
+        } else if (address.toLowerCase() === accounts.deployer.toLowerCase()) {
+            problems.push(`named account ${name} is the deployer`);
+        } else {
+            resolved[name] = address;
+        }
+    }
+    return { resolved, problems };
+}
+
+/**
+ * Lists the grants, ownership transfers and renounces that move every role
+ * and owner held by `deployer` to the configured accounts. Renounces come
+ * last, with DEFAULT_ADMIN_ROLE after the roles it administers.
+ */
+export async function planHandover(
+    hre: HardhatRuntimeEnvironment,
+    config: HandoverConfig,
+    deployer: string
+): Promise<HandoverPlan> {
+    const { resolved, problems } = await resolveHandoverAccounts(hre, config);
+    const names = roleNames(config);
+    const grants: HandoverAction[] = [];
+    const transfers: HandoverAction[] = [];
+    const renounces: HandoverAction[] = [];
+
+    for (const { name, deployment, iface, contract } of await handoverTargets(hre)) {
+        if (hasFunctions(iface, 'hasRole', 'grantRole', 'renounceRole')) {
+            const roles = [...(await grantedRoles(contract, deployment.receipt?.blockNumber ?? 0)).keys()]
+                // The admin role is renounced last so the others can still be managed
+                .sort((a, b) => Number(a === ethers.ZeroHash) - Number(b === ethers.ZeroHash));
+            for (const role of roles) {
+                if (!(await contract.hasRole(role, deployer))) continue;
+                const roleName = names.get(role);
+                const recipientName = roleName && config.roles[roleName];
+                if (!recipientName) {
+                    problems.push(`${name}: deployer holds ${roleName ?? role}, which has no configured recipient`);
+                    continue;
+                }
+                const recipient = resolved[recipientName];
+                if (!recipient) continue;
+                if (!(await contract.hasRole(role, recipient))) {
+                    grants.push({
+                        deployment: name,
+                        method: 'grantRole',
+                        args: [role, recipient],
+                        description: `grant ${roleName} to ${recipientName}`,
+                    });
+                }
+                renounces.push({
+                    deployment: name,
+                    method: 'renounceRole',
+                    args: [role, deployer],
+                    description: `deployer renounces ${roleName}`,
+                });
+            }
+        }
+
+        if (isOwnable(iface)) {
+            const owner: string = await contract.owner();
+            if (owner.toLowerCase() !== deployer.toLowerCase()) continue;
+            const recipientName = name === PROXY_ADMIN_DEPLOYMENT ? config.proxyAdminOwner : config.owner;
+            const recipient = resolved[recipientName];
+            if (!recipient) continue;
+            // Ownable2Step only nominates the new owner
+            const pending = hasFunctions(iface, 'acceptOwnership') ? `; ${recipientName} must call acceptOwnership` : '';
+            transfers.push({
+                deployment: name,
+                method: 'transferOwnership',
+                args: [recipient],
+                description: `transfer ownership to ${recipientName}${pending}`,
+            });
+        }
+    }
+
+    return { actions: [...grants, ...transfers, ...renounces], problems };
+}
+
+/**
+ * Current holders of every role and owner across the deployments, labelled
+ * with named accounts where they match one.
+ */
+export async function holdingsReport(hre: HardhatRuntimeEnvironment, config: HandoverConfig): Promise<HoldingRow[]> {
+    const accounts = await hre.getNamedAccounts();
+    const names = roleNames(config);
+    const label = (address: string) => {
+        const names = Object.entries(accounts)
+            .filter(([, account]) => account && account.toLowerCase() === address.toLowerCase())
+            .map(([name]) => name);
+        return names.length > 0 ? `${address} (${names.join(', ')})` : address;
+    };
+
+    const rows: HoldingRow[] = [];
+    for (const { name, deployment, iface, contract } of await handoverTargets(hre)) {
+        if (hasFunctions(iface, 'hasRole')) {
+            const granted = await grantedRoles(contract, deployment.receipt?.blockNumber ?? 0);
+            for (const [role, candidates] of granted) {
+                for (const candidate of candidates) {
+                    if (await contract.hasRole(role, candidate)) {
+                        rows.push({ deployment: name, holding: names.get(role) ?? role, holder: label(candidate) });
+                    }
+                }
+            }
+        }
+        if (isOwnable(iface)) {
+            rows.push({ deployment: name, holding: 'owner', holder: label(await contract.owner()) });
+        }
+    }
+    return rows;
+}
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+
+export type JournalEntry = {
+    /** Stable step identity, e.g. `core:Degen4LifeController.initializeModules#0` */
+    step: string;
+    target: string;
+    address: string;
+    method: string;
+    args: string[];
+    /** Recorded when the step is broadcast, before its receipt */
+    transactionHash: string;
+    /** Set once the transaction is mined */
+    blockNumber?: number;
+    recordedAt: string;
+};
+
+export type StepJournal = {
+    chainId: number;
+    entries: Record<string, JournalEntry>;
+};
+
+export type ResumePoint = {
+    tag: string;
+    step: number;
+};
+
+// Stored next to hardhat-deploy's own `.pendingTransactions`; a `.json`
+// extension would make hardhat-deploy load the file as a deployment
+const JOURNAL_FILE = '.stepJournal';
+
+// How often to look for the receipt of a step broadcast by an earlier run
+const PENDING_POLL_MS = 2_000;
+
+// Networks that don't save deployments keep their journal for the process lifetime
+const memoryJournals = new Map<string, StepJournal>();
+
+/**
+ * True when the network's deployments are written to disk. hardhat-deploy
+ * writes none for the in-process `hardhat` network unless run with `--write`.
+ */
+export const savesDeploymentFiles = (hre: HardhatRuntimeEnvironment) =>
+    hre.network.saveDeployments && hre.network.name !== 'hardhat';
+
+export const serializeArgs = (args: unknown[]): string[] =>
+    args.map((arg) => JSON.stringify(arg, (_, item) => (typeof item === 'bigint' ? `${item}n` : item)));
+
+function journalPath(hre: HardhatRuntimeEnvironment): string {
+    return path.join(hre.config.paths.deployments, hre.network.name, JOURNAL_FILE);
+}
+
+/**
+ * Loads the step journal of the current network. A journal recorded on a
+ * different chainId (e.g. a restarted local node) is discarded.
+ */
+export async function loadJournal(hre: HardhatRuntimeEnvironment): Promise<StepJournal> {
+    const chainId = Number(await hre.getChainId());
+    let journal: StepJournal | undefined;
+    if (savesDeploymentFiles(hre)) {
+        const file = journalPath(hre);
+        if (fs.existsSync(file)) {
+            journal = JSON.parse(fs.readFileSync(file, 'utf8'));
+        }
+    } else {
+        journal = memoryJournals.get(hre.network.name);
+    }
+    if (!journal || journal.chainId !== chainId) {
+        journal = { chainId, entries: {} };
+    }
+    return journal;
+}
+
+export function saveJournal(hre: HardhatRuntimeEnvironment, journal: StepJournal) {
+    if (!savesDeploymentFiles(hre)) {
+        memoryJournals.set(hre.network.name, journal);
+        return;
+    }
+    const file = journalPath(hre);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(journal, null, 2));
+}
+
+/**
+ * True when the journal already holds `step` for the same address and
+ * arguments and its transaction is mined successfully on the current chain.
+ * A transaction an interrupted run broadcast is waited for rather than
+ * reported unapplied, so it isn't sent twice; one the node no longer knows
+ * was dropped and the step is sent again.
+ */
+export async function isStepApplied(
+    hre: HardhatRuntimeEnvironment,
+    journal: StepJournal,
+    step: string,
+    address: string,
+    args: string[]
+): Promise<boolean> {
+    const entry = journal.entries[step];
+    if (!entry || entry.address !== address || entry.args.join() !== args.join()) {
+        return false;
+    }
+    const provider = hre.ethers.provider;
+    let receipt = await provider.getTransactionReceipt(entry.transactionHash);
+    while (receipt === null && (await provider.getTransaction(entry.transactionHash)) !== null) {
+        console.log(`Waiting for ${step} in ${entry.transactionHash}, broadcast by an earlier run...`);
+        await new Promise((resolve) => setTimeout(resolve, PENDING_POLL_MS));
+        receipt = await provider.getTransactionReceipt(entry.transactionHash);
+    }
+    return receipt !== null && receipt.status === 1;
+}
+
+/** Parses a `--from-step` value such as `core:9`. */
+export function parseResumePoint(value: string): ResumePoint {
+    const match = /^([\w-]+):(\d+)$/.exec(value);
+    if (!match || Number(match[2]) < 1) {
+        throw new Error(`Invalid --from-step ${value}; expected <tag>:<step>, e.g. core:9`);
+    }
+    return { tag: match[1], step: Number(match[2]) };
+}
+
+export function setResumePoint(hre: HardhatRuntimeEnvironment, point: ResumePoint | undefined) {
+    (hre as HardhatRuntimeEnvironment & { resumePoint?: ResumePoint }).resumePoint = point;
+}
+
+/** Step to resume `tag` from, set by `deploy --from-step`. */
+export function resumeStep(hre: HardhatRuntimeEnvironment, tag: string): number | undefined {
+    const point = (hre as HardhatRuntimeEnvironment & { resumePoint?: ResumePoint }).resumePoint;
+    return point?.tag === tag ? point.step : undefined;
+}
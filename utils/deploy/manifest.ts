@@ -0,0 +1,469 @@
+import { Contract, ContractTransactionResponse } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction, DeployOptions } from 'hardhat-deploy/types';
+import { RegistryKey, registryKeyId } from '../registry';
+import { isStepApplied, loadJournal, resumeStep, saveJournal, serializeArgs } from './journal';
+import { isPreflight } from './preflight';
+
+export type ProxyKind = 'none' | 'transparent';
+
+/** Address of another manifest entry, resolved at deploy time. */
+export class ContractRef {
+    constructor(readonly name: string) {}
+}
+
+/** Address of a hardhat-deploy named account, resolved at deploy time. */
+export class AccountRef {
+    constructor(readonly name: string) {}
+}
+
+export type ManifestValue =
+    | ContractRef
+    | AccountRef
+    | string
+    | number
+    | bigint
+    | boolean
+    | ManifestValue[]
+    | { [field: string]: ManifestValue };
+
+export type ManifestCall = {
+    method: string;
+    args: ManifestValue[];
+};
+
+export type ContractEntry = {
+    /** Deployment name used by hardhat-deploy */
+    name: string;
+    /** Fully qualified artifact name */
+    contract: string;
+    /** Deploy tag that owns this entry */
+    tag: string;
+    proxy: ProxyKind;
+    /** Constructor arguments (implementation constructor for proxies) */
+    args?: ManifestValue[];
+    /** Proxy initializer, only valid for proxied entries */
+    initializer?: ManifestCall;
+    /** ContractRegistry keys this entry is registered under */
+    registryKeys?: RegistryKey[];
+    /** ContractRegistry keys for addresses this entry wires up but the manifest doesn't deploy */
+    registryAddresses?: Partial<Record<RegistryKey, ManifestValue>>;
+    /** Calls made on this contract once every entry of the tag is deployed */
+    calls?: ManifestCall[];
+    /**
+     * Tag that deploys this name when several tags declare it. The other
+     * tags reuse that deployment and only register and configure it.
+     */
+    owner?: string;
+};
+
+export type DeploymentManifest = ContractEntry[];
+
+export const ref = (name: string) => new ContractRef(name);
+export const account = (name: string) => new AccountRef(name);
+
+export const REGISTRY_DEPLOYMENT = 'ContractRegistry';
+
+function collectRefs(value: ManifestValue, into: Set<string>): Set<string> {
+    if (value instanceof ContractRef) {
+        into.add(value.name);
+    } else if (Array.isArray(value)) {
+        value.forEach((item) => collectRefs(item, into));
+    } else if (value !== null && typeof value === 'object' && !(value instanceof AccountRef)) {
+        Object.values(value).forEach((item) => collectRefs(item, into));
+    }
+    return into;
+}
+
+function registryAddressEntries(entry: ContractEntry): [RegistryKey, ManifestValue][] {
+    return Object.entries(entry.registryAddresses ?? {}) as [RegistryKey, ManifestValue][];
+}
+
+/** Names of the entries that must be deployed before `entry` can be. */
+export function deployDependencies(entry: ContractEntry): string[] {
+    const refs = new Set<string>();
+    (entry.args ?? []).forEach((arg) => collectRefs(arg, refs));
+    (entry.initializer?.args ?? []).forEach((arg) => collectRefs(arg, refs));
+    refs.delete(entry.name);
+    return [...refs];
+}
+
+/**
+ * Checks that every reference points at a known entry and returns the entries
+ * of `tag` sorted so each one is deployed after the entries it references.
+ */
+export function orderEntries(manifest: DeploymentManifest, tag: string): ContractEntry[] {
+    const known = new Set(manifest.map((entry) => entry.name));
+    const tagEntries = new Map<string, ContractEntry>();
+    for (const entry of manifest) {
+        if (entry.initializer && entry.proxy === 'none') {
+            throw new Error(`Manifest entry ${entry.name} has an initializer but is not proxied`);
+        }
+        const refs = new Set(deployDependencies(entry));
+        (entry.calls ?? []).forEach((call) => call.args.forEach((arg) => collectRefs(arg, refs)));
+        registryAddressEntries(entry).forEach(([, value]) => collectRefs(value, refs));
+        for (const name of refs) {
+            if (!known.has(name)) {
+                throw new Error(`Manifest entry ${entry.name} references unknown contract ${name}`);
+            }
+        }
+        if (entry.tag !== tag) continue;
+        if (tagEntries.has(entry.name)) {
+            throw new Error(`Manifest entry ${entry.name} is declared twice in ${tag}`);
+        }
+        tagEntries.set(entry.name, entry);
+    }
+
+    const ordered: ContractEntry[] = [];
+    const state = new Map<string, 'visiting' | 'done'>();
+    const visit = (entry: ContractEntry, path: string[]) => {
+        if (state.get(entry.name) === 'done') return;
+        if (state.get(entry.name) === 'visiting') {
+            throw new Error(`Manifest dependency cycle: ${[...path, entry.name].join(' -> ')}`);
+        }
+        state.set(entry.name, 'visiting');
+        for (const name of deployDependencies(entry)) {
+            // Entries from other tags are deployed by their own script
+            const dependency = tagEntries.get(name);
+            if (dependency) visit(dependency, [...path, entry.name]);
+        }
+        state.set(entry.name, 'done');
+        ordered.push(entry);
+    };
+    tagEntries.forEach((entry) => visit(entry, []));
+    return ordered;
+}
+
+function describeValue(value: ManifestValue): string {
+    if (value instanceof ContractRef) return value.name;
+    if (value instanceof AccountRef) return `account(${value.name})`;
+    if (typeof value === 'bigint') return `${value}n`;
+    if (Array.isArray(value)) return `[${value.map(describeValue).join(', ')}]`;
+    if (value !== null && typeof value === 'object') {
+        return `{${Object.entries(value).map(([field, item]) => `${field}: ${describeValue(item)}`).join(', ')}}`;
+    }
+    return JSON.stringify(value);
+}
+
+/**
+ * Compares two argument lists. Returns undefined when they match, or a
+ * description of the difference, calling out lists that only differ in order.
+ */
+export function compareArgs(first: string[], second: string[]): string | undefined {
+    if (first.join('|') === second.join('|')) {
+        return undefined;
+    }
+    const sortedFirst = [...first].sort().join('|');
+    const sortedSecond = [...second].sort().join('|');
+    const kind = first.length === second.length && sortedFirst === sortedSecond
+        ? 'argument order differs'
+        : 'arguments differ';
+    return `${kind}: [${first.join(', ')}] vs [${second.join(', ')}]`;
+}
+
+/** True when `entry` reuses a deployment owned by another tag. */
+export function isClaimOnly(entry: ContractEntry): boolean {
+    return entry.owner !== undefined && entry.owner !== entry.tag;
+}
+
+/**
+ * Finds deployment names declared by more than one tag. Each such name must
+ * name the same owner tag on every entry, and the other tags' entries must
+ * describe exactly the same deployment.
+ */
+export function checkClaims(manifest: DeploymentManifest): string[] {
+    const problems: string[] = [];
+    const claims = new Map<string, ContractEntry[]>();
+    for (const entry of manifest) {
+        claims.set(entry.name, [...(claims.get(entry.name) ?? []), entry]);
+    }
+
+    for (const [name, entries] of claims) {
+        const tags = entries.map((entry) => entry.tag);
+        if (entries.length === 1) {
+            if (isClaimOnly(entries[0])) {
+                problems.push(`${name} declares owner ${entries[0].owner} but only ${entries[0].tag} declares it`);
+            }
+            continue;
+        }
+
+        const owners = new Set(entries.map((entry) => entry.owner));
+        const owner = entries[0].owner;
+        if (owners.size !== 1 || owner === undefined) {
+            problems.push(`${name} is claimed by ${tags.join(', ')}; declare the same owner on every entry`);
+            continue;
+        }
+        const owned = entries.find((entry) => entry.tag === owner);
+        if (!owned) {
+            problems.push(`${name} is owned by ${owner}, which does not declare it (claimed by ${tags.join(', ')})`);
+            continue;
+        }
+
+        for (const claim of entries.filter((entry) => entry !== owned)) {
+            const where = `${name} in ${claim.tag} vs ${owner}`;
+            if (claim.contract !== owned.contract) {
+                problems.push(`${where}: contract differs (${claim.contract} vs ${owned.contract})`);
+            }
+            if (claim.proxy !== owned.proxy) {
+                problems.push(`${where}: proxy kind differs (${claim.proxy} vs ${owned.proxy})`);
+            }
+            const argsDiff = compareArgs((claim.args ?? []).map(describeValue), (owned.args ?? []).map(describeValue));
+            if (argsDiff) {
+                problems.push(`${where}: constructor ${argsDiff}`);
+            }
+            if (claim.initializer?.method !== owned.initializer?.method) {
+                problems.push(`${where}: initializer differs (${claim.initializer?.method ?? 'none'} vs ${owned.initializer?.method ?? 'none'})`);
+            } else {
+                const initDiff = compareArgs(
+                    (claim.initializer?.args ?? []).map(describeValue),
+                    (owned.initializer?.args ?? []).map(describeValue)
+                );
+                if (initDiff) problems.push(`${where}: initializer ${initDiff}`);
+            }
+        }
+    }
+    return problems;
+}
+
+async function resolveValue(hre: HardhatRuntimeEnvironment, value: ManifestValue): Promise<unknown> {
+    if (value instanceof ContractRef) {
+        return (await hre.deployments.get(value.name)).address;
+    }
+    if (value instanceof AccountRef) {
+        const accounts = await hre.getNamedAccounts();
+        if (!accounts[value.name]) {
+            throw new Error(`Named account ${value.name} is not configured for ${hre.network.name}`);
+        }
+        return accounts[value.name];
+    }
+    if (Array.isArray(value)) {
+        return Promise.all(value.map((item) => resolveValue(hre, item)));
+    }
+    if (value !== null && typeof value === 'object') {
+        const resolved: { [field: string]: unknown } = {};
+        for (const [field, item] of Object.entries(value)) {
+            resolved[field] = await resolveValue(hre, item);
+        }
+        return resolved;
+    }
+    return value;
+}
+
+/** Registry key -> the manifest entries registered under it, or the addresses they register. */
+export function manifestRegistrations(manifest: DeploymentManifest): Record<string, string[]> {
+    const registrations: Record<string, string[]> = {};
+    const add = (key: string, registrant: string) => {
+        registrations[key] = [...(registrations[key] ?? []), registrant];
+    };
+    for (const entry of manifest) {
+        for (const key of entry.registryKeys ?? []) add(key, `${entry.tag}:${entry.name}`);
+        for (const [key, value] of registryAddressEntries(entry)) add(key, `${entry.tag}:${describeValue(value)}`);
+    }
+    return registrations;
+}
+
+/**
+ * Registry key -> the value the manifest registers under it. The last
+ * registration wins, matching deploy order.
+ */
+export function manifestRegistryValues(manifest: DeploymentManifest): Map<RegistryKey, ManifestValue> {
+    const values = new Map<RegistryKey, ManifestValue>();
+    for (const entry of manifest) {
+        for (const key of entry.registryKeys ?? []) values.set(key, ref(entry.name));
+        for (const [key, value] of registryAddressEntries(entry)) values.set(key, value);
+    }
+    return values;
+}
+
+export async function resolveArgs(hre: HardhatRuntimeEnvironment, args: ManifestValue[] = []): Promise<unknown[]> {
+    return Promise.all(args.map((arg) => resolveValue(hre, arg)));
+}
+
+async function deployEntry(hre: HardhatRuntimeEnvironment, entry: ContractEntry, from: string) {
+    const options: DeployOptions = {
+        from,
+        contract: entry.contract,
+        args: await resolveArgs(hre, entry.args),
+        log: true,
+    };
+    if (entry.proxy === 'transparent') {
+        options.proxy = {
+            proxyContract: 'OpenZeppelinTransparentProxy',
+            ...(entry.initializer && {
+                execute: {
+                    methodName: entry.initializer.method,
+                    args: await resolveArgs(hre, entry.initializer.args),
+                },
+            }),
+        };
+    }
+    return hre.deployments.deploy(entry.name, options);
+}
+
+type ManifestStep = {
+    /** Stable identity recorded in the step journal */
+    id: string;
+    label: string;
+    target: string;
+    method: string;
+    args: ManifestValue[];
+    /** Reads the chain to tell whether the step's effect is already in place */
+    applied?: (resolvedArgs: unknown[]) => Promise<boolean>;
+};
+
+/**
+ * Deploys every entry owned by `tag`, registers them and the addresses they
+ * list in the ContractRegistry and then runs their post-deploy calls in
+ * manifest order.
+ *
+ * Steps are numbered in that order. Registrations and calls are recorded in
+ * the network's step journal and skipped on rerun once applied; steps before
+ * `deploy --from-step <tag>:<n>` are not sent at all.
+ */
+export async function deployManifest(hre: HardhatRuntimeEnvironment, manifest: DeploymentManifest, tag: string) {
+    const { deployments, getNamedAccounts } = hre;
+    const { execute } = deployments;
+    const { deployer } = await getNamedAccounts();
+    // Only names this tag declares matter to it; other tags' claims are checked when they run
+    const names = new Set(manifest.filter((entry) => entry.tag === tag).map((entry) => entry.name));
+    const claimProblems = checkClaims(manifest.filter((entry) => names.has(entry.name)));
+    if (claimProblems.length > 0) {
+        throw new Error(`Deployment manifest has conflicting claims:\n  - ${claimProblems.join('\n  - ')}`);
+    }
+    const entries = orderEntries(manifest, tag);
+
+    const steps: ManifestStep[] = [];
+    const register = (key: RegistryKey, label: string, value: ManifestValue) => {
+        steps.push({
+            id: `${tag}:${REGISTRY_DEPLOYMENT}.setContractAddress(${key})`,
+            label: `Register ${label} as ${key}`,
+            target: REGISTRY_DEPLOYMENT,
+            method: 'setContractAddress',
+            args: [registryKeyId(key), value],
+            applied: async ([keyId, address]) => {
+                try {
+                    const current = await deployments.read(REGISTRY_DEPLOYMENT, 'getContractAddress', keyId);
+                    return String(current).toLowerCase() === String(address).toLowerCase();
+                } catch {
+                    return false; // reverts while the key is unset
+                }
+            },
+        });
+    };
+    for (const entry of entries) {
+        for (const key of entry.registryKeys ?? []) register(key, entry.name, ref(entry.name));
+        for (const [key, value] of registryAddressEntries(entry)) register(key, describeValue(value), value);
+    }
+    for (const entry of entries) {
+        (entry.calls ?? []).forEach((call, index) => {
+            steps.push({
+                id: `${tag}:${entry.name}.${call.method}#${index}`,
+                label: `${entry.name}.${call.method}`,
+                target: entry.name,
+                ...call,
+            });
+        });
+    }
+
+    // The preflight replays scripts against placeholder deployments; keep them out of the journal
+    const preflight = isPreflight(hre);
+    const fromStep = preflight ? undefined : resumeStep(hre, tag);
+    if (fromStep !== undefined && fromStep > entries.length + steps.length) {
+        throw new Error(`--from-step ${tag}:${fromStep} is past the last step (${entries.length + steps.length})`);
+    }
+    const skipped = (number: number) => fromStep !== undefined && number < fromStep;
+    const journal = preflight ? undefined : await loadJournal(hre);
+
+    for (const [index, entry] of entries.entries()) {
+        if (skipped(index + 1)) {
+            console.log(`\n${index + 1}. Skipping ${entry.name} (--from-step)`);
+            continue;
+        }
+        if (isClaimOnly(entry)) {
+            const owned = await deployments.getOrNull(entry.name);
+            if (!owned) {
+                throw new Error(`${entry.name} is owned by ${entry.owner}, which has not been deployed; add it to the ${tag} dependencies`);
+            }
+            console.log(`\n${index + 1}. Reusing ${entry.name} deployed by ${entry.owner} at:`, owned.address);
+            continue;
+        }
+        console.log(`\n${index + 1}. Deploying ${entry.name}...`);
+        const deployment = await deployEntry(hre, entry, deployer);
+        console.log(`${entry.name} deployed to:`, deployment.address);
+    }
+
+    if (steps.length > 0) {
+        console.log(`\nRegistering and initializing ${tag} components...`);
+    }
+    for (const [index, step] of steps.entries()) {
+        const number = entries.length + index + 1;
+        const label = `${number}. ${step.label}`;
+        if (skipped(number)) {
+            console.log(`${label}: skipped (--from-step)`);
+            continue;
+        }
+        const args = await resolveArgs(hre, step.args);
+        if (!journal) {
+            console.log(`${label}...`);
+            await execute(step.target, { from: deployer, log: true }, step.method, ...args);
+            continue;
+        }
+
+        const { address } = await deployments.get(step.target);
+        const serialized = serializeArgs(args);
+        if (await isStepApplied(hre, journal, step.id, address, serialized)) {
+            console.log(`${label}: already applied in ${journal.entries[step.id].transactionHash}`);
+            continue;
+        }
+        if (step.applied && (await step.applied(args))) {
+            console.log(`${label}: already matches on-chain state`);
+            continue;
+        }
+
+        // Journal the hash as soon as it is broadcast so a run interrupted
+        // before the receipt waits for this transaction instead of resending
+        console.log(`${label}...`);
+        const { abi } = await deployments.get(step.target);
+        const contract = new Contract(address, abi, await hre.ethers.getSigner(deployer));
+        const tx: ContractTransactionResponse = await contract.getFunction(step.method)(...args);
+        console.log(`${label}: sent ${tx.hash}`);
+        journal.entries[step.id] = {
+            step: step.id,
+            target: step.target,
+            address,
+            method: step.method,
+            args: serialized,
+            transactionHash: tx.hash,
+            recordedAt: new Date().toISOString(),
+        };
+        saveJournal(hre, journal);
+        const receipt = await tx.wait();
+        journal.entries[step.id].blockNumber = receipt?.blockNumber;
+        saveJournal(hre, journal);
+    }
+}
+
+/**
+ * Builds the deploy script for one tag of the network's manifest.
+ */
+export function createManifestDeployFunction(
+    tag: string,
+    dependencies: string[],
+    loadManifest: (hre: HardhatRuntimeEnvironment) => DeploymentManifest
+): DeployFunction {
+    const func: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+        console.log(`\nDeploying ${tag} components...`);
+
+        try {
+            await deployManifest(hre, loadManifest(hre), tag);
+            console.log(`\n${tag} deployment completed successfully!`);
+        } catch (error) {
+            console.error(`${tag} deployment failed:`, error);
+            throw error;
+        }
+    };
+
+    func.tags = [tag];
+    func.dependencies = dependencies;
+    return func;
+}
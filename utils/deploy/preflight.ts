@@ -0,0 +1,311 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { ethers, Interface, FunctionFragment } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { DeployFunction, DeployOptions, Deployment, DeployResult, TxOptions } from 'hardhat-deploy/types';
+import { compareArgs } from './manifest';
+
+export type PreflightIssue = {
+    script: string;
+    target: string;
+    step: string;
+    message: string;
+};
+
+export type PreflightReport = {
+    scripts: string[];
+    steps: number;
+    issues: PreflightIssue[];
+};
+
+export type LoadedScript = {
+    file: string;
+    func: DeployFunction;
+};
+
+type SimulatedDeployment = Deployment & { resolved: boolean };
+
+type DeployClaim = { script: string; args: string[] };
+
+const describeArg = (value: unknown) =>
+    JSON.stringify(value, (_, item) => (typeof item === 'bigint' ? `${item}n` : item));
+
+/** The short message of an ethers error, or the first line of any other. */
+function describeError(error: unknown): string {
+    if (!(error instanceof Error)) return String(error);
+    const { shortMessage } = error as Error & { shortMessage?: unknown };
+    return typeof shortMessage === 'string' ? shortMessage : error.message.split('\n')[0];
+}
+
+/**
+ * Loads every deploy script from the configured deploy folder, in the same
+ * filename order hardhat-deploy uses. Scripts are required lazily so this
+ * module can be imported from hardhat.config.ts.
+ */
+export function loadDeployScripts(hre: HardhatRuntimeEnvironment): LoadedScript[] {
+    const deployDir = hre.config.paths.deploy?.[0] ?? path.join(hre.config.paths.root, 'deploy');
+    return fs.readdirSync(deployDir)
+        .filter((file) => /\.(ts|js)$/.test(file) && !file.endsWith('.d.ts'))
+        .sort()
+        .map((file) => {
+            const loaded = require(path.join(deployDir, file));
+            return { file, func: (loaded.default ?? loaded) as DeployFunction };
+        });
+}
+
+/**
+ * Restricts scripts to the given tags plus everything they depend on, the
+ * same way `hardhat deploy --tags` resolves them.
+ */
+export function selectScripts(scripts: LoadedScript[], tags?: string[]): LoadedScript[] {
+    if (!tags || tags.length === 0) {
+        return scripts;
+    }
+    const wanted = new Set<string>();
+    const visit = (tag: string) => {
+        if (wanted.has(tag)) return;
+        wanted.add(tag);
+        for (const script of scripts) {
+            if (script.func.tags?.includes(tag)) {
+                (script.func.dependencies ?? []).forEach(visit);
+            }
+        }
+    };
+    tags.forEach(visit);
+    return scripts.filter((script) => script.func.tags?.some((tag) => wanted.has(tag)));
+}
+
+export function setDeployTags(hre: HardhatRuntimeEnvironment, tags: string[] | undefined) {
+    (hre as HardhatRuntimeEnvironment & { deployTags?: string[] }).deployTags = tags;
+}
+
+/** Tags the running `deploy` was given with `--tags`; undefined when it runs every script. */
+export function deployTags(hre: HardhatRuntimeEnvironment): string[] | undefined {
+    return (hre as HardhatRuntimeEnvironment & { deployTags?: string[] }).deployTags;
+}
+
+/** True while a deploy script is being replayed by the preflight. */
+export function isPreflight(hre: HardhatRuntimeEnvironment): boolean {
+    return (hre as HardhatRuntimeEnvironment & { preflight?: boolean }).preflight === true;
+}
+
+function placeholderAddress(name: string): string {
+    return ethers.getAddress(ethers.dataSlice(ethers.id(`preflight:${name}`), 12));
+}
+
+function proxyInitializer(proxy: DeployOptions['proxy']): { methodName: string; args: unknown[] } | undefined {
+    if (!proxy || typeof proxy !== 'object') {
+        return undefined;
+    }
+    if ('execute' in proxy && proxy.execute) {
+        return 'init' in proxy.execute ? proxy.execute.init : proxy.execute;
+    }
+    if ('methodName' in proxy && proxy.methodName) {
+        return { methodName: proxy.methodName, args: [] };
+    }
+    return undefined;
+}
+
+/**
+ * Returns an error message if `args` cannot be sent to `methodName`, or
+ * undefined when at least one overload accepts them.
+ */
+export function checkCall(iface: Interface, methodName: string, args: unknown[]): string | undefined {
+    const candidates = iface.fragments.filter(
+        (fragment): fragment is FunctionFragment => fragment.type === 'function' && (fragment as FunctionFragment).name === methodName
+    );
+    if (candidates.length === 0) {
+        return `method ${methodName} does not exist`;
+    }
+    const sameArity = candidates.filter((fragment) => fragment.inputs.length === args.length);
+    if (sameArity.length === 0) {
+        const expected = candidates.map((fragment) => fragment.format('sighash')).join(', ');
+        return `${methodName} called with ${args.length} argument(s), expected ${expected}`;
+    }
+    let lastError = '';
+    for (const fragment of sameArity) {
+        try {
+            iface.encodeFunctionData(fragment, args);
+            return undefined;
+        } catch (error) {
+            lastError = describeError(error);
+        }
+    }
+    return `${methodName} arguments do not encode: ${lastError}`;
+}
+
+/**
+ * Replays deploy scripts against compiled artifacts without sending any
+ * transaction. `deploy`, `execute` and `read` are recorded and checked
+ * against the artifact ABIs; deployments get deterministic placeholder
+ * addresses so later steps can reference them.
+ */
+export async function runPreflight(
+    hre: HardhatRuntimeEnvironment,
+    scripts: LoadedScript[]
+): Promise<PreflightReport> {
+    const simulated = new Map<string, SimulatedDeployment>();
+    const claims = new Map<string, DeployClaim>();
+    const issues: PreflightIssue[] = [];
+    let currentScript = '';
+    let steps = 0;
+
+    const report = (target: string, step: string, message: string) => {
+        issues.push({ script: currentScript, target, step, message });
+    };
+
+    const lookup = async (name: string): Promise<SimulatedDeployment | undefined> => {
+        const local = simulated.get(name);
+        if (local) return local;
+        const existing = await hre.deployments.getOrNull(name);
+        return existing ? { ...existing, resolved: true } : undefined;
+    };
+
+    const deploy = async (name: string, options: DeployOptions): Promise<DeployResult> => {
+        steps++;
+        const contract = options.contract ?? name;
+        const initializer = proxyInitializer(options.proxy);
+        const args = [...(options.args ?? []), ...(initializer?.args ?? [])].map(describeArg);
+
+        // Two scripts deploying one name make hardhat-deploy reuse or redeploy it silently
+        const previous = claims.get(name);
+        if (previous && previous.script !== currentScript) {
+            const argsDiff = compareArgs(previous.args, args);
+            report(name, 'deploy', `also deployed by ${previous.script}; declare which script owns it${argsDiff ? ` (${argsDiff})` : ''}`);
+        }
+        claims.set(name, { script: currentScript, args });
+
+        let abi: Deployment['abi'] = [];
+        let resolved = true;
+
+        if (typeof contract === 'string') {
+            try {
+                abi = (await hre.artifacts.readArtifact(contract)).abi;
+            } catch (error) {
+                resolved = false;
+                report(name, 'deploy', `artifact ${contract} not found: ${describeError(error)}`);
+            }
+        } else {
+            abi = contract.abi;
+        }
+
+        if (resolved) {
+            const iface = new Interface(abi);
+            try {
+                iface.encodeDeploy(options.args ?? []);
+            } catch (error) {
+                report(name, 'constructor', `constructor arguments do not encode: ${describeError(error)}`);
+            }
+            if (initializer) {
+                const problem = checkCall(iface, initializer.methodName, initializer.args);
+                if (problem) report(name, 'proxy initializer', problem);
+            }
+        }
+
+        const deployment: SimulatedDeployment = {
+            address: placeholderAddress(name),
+            abi,
+            args: options.args,
+            resolved,
+        };
+        simulated.set(name, deployment);
+        return { ...deployment, newlyDeployed: true };
+    };
+
+    const execute = async (name: string, options: TxOptions, methodName: string, ...args: unknown[]) => {
+        steps++;
+        const target = await lookup(name);
+        if (!target) {
+            report(name, `execute ${methodName}`, `no deployment named ${name}`);
+        } else if (target.resolved) {
+            const problem = checkCall(new Interface(target.abi), methodName, args);
+            if (problem) report(name, `execute ${methodName}`, problem);
+        }
+        return {
+            from: options.from,
+            transactionHash: ethers.ZeroHash,
+            blockHash: ethers.ZeroHash,
+            blockNumber: 0,
+            transactionIndex: 0,
+            cumulativeGasUsed: 0,
+            gasUsed: 0,
+        };
+    };
+
+    // read(name, methodName, ...args) or read(name, options, methodName, ...args)
+    const read = async (name: string, ...rest: unknown[]) => {
+        steps++;
+        const [methodName, ...args] = (typeof rest[0] === 'string' ? rest : rest.slice(1)) as [string, ...unknown[]];
+        const target = await lookup(name);
+        if (!target) {
+            report(name, `read ${methodName}`, `no deployment named ${name}`);
+        } else if (target.resolved) {
+            const problem = checkCall(new Interface(target.abi), methodName, args);
+            if (problem) report(name, `read ${methodName}`, problem);
+        }
+        return undefined;
+    };
+
+    const get = async (name: string): Promise<Deployment> => {
+        const target = await lookup(name);
+        if (!target) {
+            report(name, 'get', `no deployment named ${name}`);
+            return { address: placeholderAddress(name), abi: [] };
+        }
+        return target;
+    };
+
+    const getOrNull = async (name: string): Promise<Deployment | null> => (await lookup(name)) ?? null;
+
+    const deployments = Object.assign(Object.create(hre.deployments), {
+        deploy,
+        execute,
+        read,
+        get,
+        getOrNull,
+    });
+    const simulatedHre = Object.assign(Object.create(hre), { deployments, preflight: true }) as HardhatRuntimeEnvironment;
+
+    const { log, error } = console;
+    try {
+        for (const script of scripts) {
+            currentScript = script.file;
+            console.log = () => undefined;
+            console.error = () => undefined;
+            try {
+                if (script.func.skip && (await script.func.skip(simulatedHre))) {
+                    continue;
+                }
+                await script.func(simulatedHre);
+            } catch (scriptError) {
+                report('-', 'script', `script threw: ${scriptError instanceof Error ? scriptError.message : String(scriptError)}`);
+            } finally {
+                console.log = log;
+                console.error = error;
+            }
+        }
+    } finally {
+        console.log = log;
+        console.error = error;
+    }
+
+    return { scripts: scripts.map((script) => script.file), steps, issues };
+}
+
+export function formatPreflightReport(report: PreflightReport): string {
+    const lines = [`Preflight checked ${report.steps} step(s) across ${report.scripts.length} script(s)`];
+    if (report.issues.length === 0) {
+        lines.push('No issues found.');
+        return lines.join('\n');
+    }
+    lines.push(`${report.issues.length} issue(s) found:`);
+    for (const script of report.scripts) {
+        const scriptIssues = report.issues.filter((issue) => issue.script === script);
+        if (scriptIssues.length === 0) continue;
+        lines.push(`\n  ${script}`);
+        for (const issue of scriptIssues) {
+            lines.push(`    [${issue.target}] ${issue.step}: ${issue.message}`);
+        }
+    }
+    return lines.join('\n');
+}
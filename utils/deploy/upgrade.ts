@@ -0,0 +1,298 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { Interface, ZeroAddress, getAddress } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { getManifest } from '../../manifest';
+import { ProposalAction, deploymentTargets, encodeActions } from '../../governance/actions';
+import { Proposal, buildProposal } from '../../governance/proposal';
+import { Degen4LifeController__factory, VersionController__factory } from '../../typechain-types';
+import { PROXY_ADMIN_DEPLOYMENT } from './handover';
+import { savesDeploymentFiles } from './journal';
+import { ContractEntry, resolveArgs } from './manifest';
+
+/** One implementation switch of a proxy, from prepared to executed. */
+export type UpgradeRecord = {
+    /** Deployment name of the proxy */
+    contract: string;
+    /** Fully qualified artifact name of the new implementation */
+    artifact: string;
+    proxy: string;
+    /** Implementation when the upgrade was prepared */
+    from: string;
+    to: string;
+    releaseNotes: string;
+    /** Governor proposal that switches the proxy */
+    proposalId: string;
+    status: 'prepared' | 'executed';
+    preparedAt: string;
+    /** When upgrade:history first saw the proxy on the new implementation */
+    executedAt?: string;
+    /** VersionController version the implementation was proposed as */
+    version?: number;
+};
+
+export type UpgradeHistory = {
+    chainId: number;
+    upgrades: UpgradeRecord[];
+};
+
+export type PreparedUpgrade = {
+    record: UpgradeRecord;
+    proposal: Proposal;
+};
+
+// Same place and reasoning as the step journal: no `.json`, or
+// hardhat-deploy would load the file as a deployment
+const HISTORY_FILE = '.upgradeHistory';
+
+const memoryHistories = new Map<string, UpgradeHistory>();
+
+function historyPath(hre: HardhatRuntimeEnvironment): string {
+    return path.join(hre.config.paths.deployments, hre.network.name, HISTORY_FILE);
+}
+
+/**
+ * Loads the upgrade history of the current network. A history recorded on
+ * a different chainId is discarded, like the step journal.
+ */
+export async function loadUpgradeHistory(hre: HardhatRuntimeEnvironment): Promise<UpgradeHistory> {
+    const chainId = Number(await hre.getChainId());
+    let history: UpgradeHistory | undefined;
+    if (savesDeploymentFiles(hre)) {
+        const file = historyPath(hre);
+        if (fs.existsSync(file)) {
+            history = JSON.parse(fs.readFileSync(file, 'utf8'));
+        }
+    } else {
+        history = memoryHistories.get(hre.network.name);
+    }
+    if (!history || history.chainId !== chainId) {
+        history = { chainId, upgrades: [] };
+    }
+    return history;
+}
+
+export function saveUpgradeHistory(hre: HardhatRuntimeEnvironment, history: UpgradeHistory) {
+    if (!savesDeploymentFiles(hre)) {
+        memoryHistories.set(hre.network.name, history);
+        return;
+    }
+    const file = historyPath(hre);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(history, null, 2));
+}
+
+/** Manifest entries deployed behind a transparent proxy. */
+export function proxiedEntries(hre: HardhatRuntimeEnvironment): ContractEntry[] {
+    // Entries declared by several tags appear once per tag
+    const entries = getManifest(hre).filter((entry) => entry.proxy === 'transparent' && (!entry.owner || entry.owner === entry.tag));
+    return [...new Map(entries.map((entry) => [entry.name, entry])).values()];
+}
+
+function proxiedEntry(hre: HardhatRuntimeEnvironment, name: string): ContractEntry {
+    const entry = proxiedEntries(hre).find((item) => item.name === name);
+    if (!entry) {
+        const names = proxiedEntries(hre).map((item) => item.name).join(', ');
+        throw new Error(`${name} is not a proxied manifest entry; expected one of ${names}`);
+    }
+    return entry;
+}
+
+async function proxyAddress(hre: HardhatRuntimeEnvironment, name: string): Promise<string> {
+    const deployment = await hre.deployments.getOrNull(name);
+    if (!deployment) {
+        throw new Error(`${name} is not deployed on ${hre.network.name}`);
+    }
+    return deployment.address;
+}
+
+async function implementationFactory(hre: HardhatRuntimeEnvironment, artifact: string) {
+    const { deployer } = await hre.getNamedAccounts();
+    return hre.ethers.getContractFactory(artifact, await hre.ethers.getSigner(deployer));
+}
+
+/**
+ * Registers a proxy deployed by hardhat-deploy with the upgrades plugin,
+ * which has to know the current implementation's storage layout before it
+ * can check an upgrade against it. The layout is taken from the compiled
+ * artifact, so this refuses when the artifact no longer builds the code
+ * the proxy runs: check out the sources it was deployed from first.
+ */
+export async function importProxy(hre: HardhatRuntimeEnvironment, name: string): Promise<string> {
+    const entry = proxiedEntry(hre, name);
+    const proxy = await proxyAddress(hre, name);
+    const implementation = await hre.upgrades.erc1967.getImplementationAddress(proxy);
+    const deployed = await hre.ethers.provider.getCode(implementation);
+    const artifact = await hre.artifacts.readArtifact(entry.contract);
+    if (stripMetadata(deployed) !== stripMetadata(artifact.deployedBytecode)) {
+        throw new Error(
+            `${entry.contract} does not build the implementation ${name} runs at ${implementation}; ` +
+                'import from the sources it was deployed from'
+        );
+    }
+    await hre.upgrades.forceImport(proxy, await implementationFactory(hre, entry.contract), { kind: 'transparent' });
+    return implementation;
+}
+
+// solc appends a CBOR metadata hash whose length is in the last two bytes;
+// comments and paths change it without changing the code
+function stripMetadata(bytecode: string): string {
+    const code = bytecode.toLowerCase().replace(/^0x/, '');
+    if (code.length < 4) return code;
+    const length = parseInt(code.slice(-4), 16);
+    return code.slice(0, code.length - (length + 2) * 2);
+}
+
+function unregisteredHint(error: unknown, name: string): Error {
+    const message = (error as Error).message;
+    if (/is not registered/i.test(message)) {
+        return new Error(`${message}\nRegister ${name} with the upgrades plugin first: npx hardhat upgrade:import --contract ${name}`);
+    }
+    return error as Error;
+}
+
+/**
+ * Checks `artifact` (the manifest's contract by default) against the
+ * storage layout of the implementation `name` runs. Throws with the
+ * plugin's report when the layouts are incompatible.
+ */
+export async function validateUpgrade(hre: HardhatRuntimeEnvironment, name: string, artifact?: string): Promise<string> {
+    const entry = proxiedEntry(hre, name);
+    const proxy = await proxyAddress(hre, name);
+    const contract = artifact ?? entry.contract;
+    try {
+        await hre.upgrades.validateUpgrade(proxy, await implementationFactory(hre, contract), { kind: 'transparent' });
+    } catch (error) {
+        throw unregisteredHint(error, name);
+    }
+    return contract;
+}
+
+/**
+ * Validates and deploys the new implementation of `name`, then builds the
+ * governor proposal that switches the proxy to it. The proposal records the
+ * implementation in the VersionController, upgrades the proxy through
+ * DefaultProxyAdmin and, for Degen4LifeController when the new code has a
+ * higher CURRENT_VERSION, calls upgradeToVersion. The upgrade is added to
+ * the network's history as prepared.
+ */
+export async function prepareUpgrade(
+    hre: HardhatRuntimeEnvironment,
+    options: { name: string; artifact?: string; releaseNotes: string; governor: string; versionController: string }
+): Promise<PreparedUpgrade> {
+    const { name, releaseNotes } = options;
+    const entry = proxiedEntry(hre, name);
+    const proxy = await proxyAddress(hre, name);
+    const artifact = await validateUpgrade(hre, name, options.artifact);
+    // Resolved before anything is deployed, so a wrong name costs no gas
+    const resolve = deploymentTargets(hre);
+    const [governor, , proxyAdmin] = await Promise.all([
+        resolve(options.governor),
+        resolve(options.versionController),
+        resolve(PROXY_ADMIN_DEPLOYMENT),
+    ]);
+    const from = await hre.upgrades.erc1967.getImplementationAddress(proxy);
+
+    const deployed = await hre.upgrades.prepareUpgrade(proxy, await implementationFactory(hre, artifact), {
+        kind: 'transparent',
+        constructorArgs: await resolveArgs(hre, entry.args),
+    });
+    const to = getAddress(deployed as string);
+    if (to === getAddress(from)) {
+        throw new Error(`${name} already runs ${artifact} at ${to}; there is nothing to upgrade`);
+    }
+
+    // hardhat-deploy's ProxyAdmin has upgrade(); OpenZeppelin 5's only upgradeAndCall()
+    const switchProxy: ProposalAction = proxyAdmin.abi?.getFunction('upgrade')
+        ? { kind: 'call', target: PROXY_ADMIN_DEPLOYMENT, method: 'upgrade', args: [proxy, to] }
+        : { kind: 'call', target: PROXY_ADMIN_DEPLOYMENT, method: 'upgradeAndCall', args: [proxy, to, '0x'] };
+    const actions: ProposalAction[] = [
+        // A full signature, so a plain VersionController address needs no ABI
+        { kind: 'call', target: options.versionController, method: 'proposeUpgrade(address,string)', args: [to, releaseNotes] },
+        switchProxy,
+    ];
+    if (name === 'Degen4LifeController') {
+        const [current, available] = await Promise.all([
+            Degen4LifeController__factory.connect(proxy, hre.ethers.provider).version(),
+            Degen4LifeController__factory.connect(to, hre.ethers.provider).CURRENT_VERSION(),
+        ]);
+        if (available > current) {
+            actions.push({ kind: 'call', target: name, method: 'upgradeToVersion', args: [available] });
+        }
+    }
+
+    // No registry actions, so no ContractRegistry to point them at
+    const calls = await encodeActions(actions, resolve, ZeroAddress);
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const proposal = buildProposal(governor.address, chainId, `Upgrade ${name}: ${releaseNotes}`, calls);
+
+    const record: UpgradeRecord = {
+        contract: name,
+        artifact,
+        proxy,
+        from: getAddress(from),
+        to,
+        releaseNotes,
+        proposalId: proposal.id.toString(),
+        status: 'prepared',
+        preparedAt: new Date().toISOString(),
+    };
+    const history = await loadUpgradeHistory(hre);
+    history.upgrades.push(record);
+    saveUpgradeHistory(hre, history);
+    return { record, proposal };
+}
+
+/** Version of the VersionController that recorded `implementation`, scanning back from the current one. */
+async function recordedVersion(hre: HardhatRuntimeEnvironment, versionController: string, implementation: string) {
+    const controller = VersionController__factory.connect(versionController, hre.ethers.provider);
+    for (let version = await controller.currentVersion(); version > 0n; version--) {
+        const recorded = await controller.versions(version);
+        if (getAddress(recorded.implementation) === getAddress(implementation)) return Number(version);
+    }
+    return undefined;
+}
+
+/**
+ * Points hardhat-deploy's records of `record.contract` at its new
+ * implementation, so deployments.get and the ABI the tasks use follow
+ * the upgrade.
+ */
+async function saveUpgradedDeployment(hre: HardhatRuntimeEnvironment, record: UpgradeRecord) {
+    const artifact = await hre.deployments.getExtendedArtifact(record.artifact);
+    await hre.deployments.save(`${record.contract}_Implementation`, { ...artifact, address: record.to });
+    const proxy = await hre.deployments.get(record.contract);
+    const proxyOnly = await hre.deployments.getOrNull(`${record.contract}_Proxy`);
+    const fragments = new Map<string, unknown>();
+    for (const abi of [artifact.abi, proxyOnly?.abi ?? []]) {
+        for (const fragment of new Interface(abi).fragments) {
+            const key = fragment.format('sighash');
+            if (!fragments.has(key)) fragments.set(key, JSON.parse(fragment.format('json')));
+        }
+    }
+    await hre.deployments.save(record.contract, { ...proxy, abi: [...fragments.values()], implementation: record.to });
+}
+
+/**
+ * Marks prepared upgrades whose proxy now runs the new implementation as
+ * executed, with the VersionController version they were recorded as, and
+ * updates the deployment records to match. Returns the history.
+ */
+export async function syncUpgradeHistory(hre: HardhatRuntimeEnvironment, versionController?: string): Promise<UpgradeHistory> {
+    const history = await loadUpgradeHistory(hre);
+    let changed = false;
+    for (const record of history.upgrades) {
+        if (record.status === 'executed') continue;
+        const implementation = await hre.upgrades.erc1967.getImplementationAddress(record.proxy);
+        if (getAddress(implementation) !== record.to) continue;
+        record.status = 'executed';
+        record.executedAt = new Date().toISOString();
+        if (versionController) {
+            record.version = await recordedVersion(hre, versionController, record.to);
+        }
+        await saveUpgradedDeployment(hre, record);
+        changed = true;
+    }
+    if (changed) saveUpgradeHistory(hre, history);
+    return history;
+}
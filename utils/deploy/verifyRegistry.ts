@@ -0,0 +1,126 @@
+import { ethers } from 'ethers';
+import { HardhatRuntimeEnvironment } from 'hardhat/types';
+import { ContractRef, DeploymentManifest, manifestRegistryValues, resolveArgs } from './manifest';
+import { RegistryKey, RegistryKeys, registryKeyId } from '../registry';
+
+export type VerificationStatus = 'ok' | 'mismatch' | 'missing' | 'no-code' | 'untracked';
+
+export type VerificationRow = {
+    /** Registry key, or `controller.<field>` for controller wiring */
+    subject: string;
+    expected?: string;
+    actual?: string;
+    hasCode?: boolean;
+    status: VerificationStatus;
+};
+
+const REGISTRY_ABI = ['function getContractAddress(bytes32 id) view returns (address)'];
+
+/**
+ * Controller getters and the registry key each one must agree with. The
+ * controller does not store `governance`, `hydraCurve` or `socialOracle`.
+ */
+export const CONTROLLER_FIELDS: Record<string, RegistryKey> = {
+    tokenFactory: RegistryKeys.TOKEN_FACTORY,
+    poolController: RegistryKeys.POOL_CONTROLLER,
+    feeHandler: RegistryKeys.FEE_HANDLER,
+    userProfile: RegistryKeys.USER_PROFILE,
+    antiBot: RegistryKeys.ANTI_BOT,
+    antiRugPull: RegistryKeys.ANTI_RUGPULL,
+    dao: RegistryKeys.DAO,
+    dex: RegistryKeys.DEX,
+    ens: RegistryKeys.ENS,
+    predictionMarket: RegistryKeys.PREDICTION_MARKET,
+    liquidityModule: RegistryKeys.LIQUIDITY_MODULE,
+    socialModule: RegistryKeys.SOCIAL_MODULE,
+    socialTradingModule: RegistryKeys.SOCIAL_TRADING_MODULE,
+};
+
+const CONTROLLER_ABI = [
+    ...Object.keys(CONTROLLER_FIELDS).map((field) => `function ${field}() view returns (address)`),
+    'function getSystemState() view returns (address[] allTokens, address[] activePools, uint256 totalUsers)',
+];
+
+const sameAddress = (a?: string, b?: string) => !!a && !!b && a.toLowerCase() === b.toLowerCase();
+
+async function readRegistry(registry: ethers.Contract, key: RegistryKey): Promise<string | undefined> {
+    try {
+        return await registry.getContractAddress(registryKeyId(key));
+    } catch {
+        // ContractRegistry reverts with "Contract not registered" for unset keys
+        return undefined;
+    }
+}
+
+async function hasCode(provider: ethers.Provider, address: string): Promise<boolean> {
+    return (await provider.getCode(address)) !== '0x';
+}
+
+/**
+ * Audits the live ContractRegistry against the hardhat-deploy records for the
+ * network's manifest, then checks the controller points at the same contracts.
+ */
+export async function verifyRegistry(
+    hre: HardhatRuntimeEnvironment,
+    manifest: DeploymentManifest,
+    registryAddress: string
+): Promise<{ rows: VerificationRow[]; systemStateError?: string }> {
+    const provider = hre.ethers.provider;
+    const registry = new ethers.Contract(registryAddress, REGISTRY_ABI, provider);
+    const rows: VerificationRow[] = [];
+    const live = new Map<string, string>();
+
+    const expectedValues = manifestRegistryValues(manifest);
+
+    for (const key of Object.keys(RegistryKeys) as RegistryKey[]) {
+        const actual = await readRegistry(registry, key);
+        if (actual) live.set(key, actual);
+
+        const value = expectedValues.get(key);
+        if (value === undefined) {
+            if (actual) rows.push({ subject: key, actual, hasCode: await hasCode(provider, actual), status: 'untracked' });
+            continue;
+        }
+        const expected: string | undefined = value instanceof ContractRef
+            ? (await hre.deployments.getOrNull(value.name))?.address
+            : String((await resolveArgs(hre, [value]))[0]);
+        if (!actual) {
+            rows.push({ subject: key, expected, status: 'missing' });
+            continue;
+        }
+        const code = await hasCode(provider, actual);
+        const status = !sameAddress(expected, actual) ? 'mismatch' : code ? 'ok' : 'no-code';
+        rows.push({ subject: key, expected, actual, hasCode: code, status });
+    }
+
+    const controllerAddress = live.get(RegistryKeys.CONTROLLER)
+        ?? (await hre.deployments.getOrNull('Degen4LifeController'))?.address;
+    if (!controllerAddress) {
+        rows.push({ subject: 'controller', status: 'missing' });
+        return { rows };
+    }
+
+    const controller = new ethers.Contract(controllerAddress, CONTROLLER_ABI, provider);
+    for (const [field, key] of Object.entries(CONTROLLER_FIELDS)) {
+        const subject = `controller.${field}`;
+        const expected = live.get(key);
+        const actual: string = await controller[field]();
+        if (actual === ethers.ZeroAddress) {
+            rows.push({ subject, expected, status: 'missing' });
+            continue;
+        }
+        const code = await hasCode(provider, actual);
+        const status = !sameAddress(expected, actual) ? 'mismatch' : code ? 'ok' : 'no-code';
+        rows.push({ subject, expected, actual, hasCode: code, status });
+    }
+
+    let systemStateError: string | undefined;
+    try {
+        await controller.getSystemState();
+    } catch (error) {
+        if (!ethers.isError(error, 'CALL_EXCEPTION')) throw error;
+        systemStateError = error.shortMessage;
+    }
+
+    return { rows, systemStateError };
+}
@@ -0,0 +1,38 @@
+import { OffchainRegistryKeys } from './offchainKeys';
+import { RegistryKeyScan } from './scanner';
+
+export type RegistryKeyIssue = {
+    key: string;
+    message: string;
+};
+
+/**
+ * Compares the keys a deployment registers with the keys the contracts
+ * declare and read. Every registered key must be read on-chain or declared
+ * as off-chain, and every ContractRegistry constant must be populated.
+ */
+export function checkRegistryKeys(
+    scan: RegistryKeyScan,
+    registrations: Record<string, string[]>
+): RegistryKeyIssue[] {
+    const issues: RegistryKeyIssue[] = [];
+    const offchain = new Set<string>(Object.values(OffchainRegistryKeys));
+
+    for (const [key, owners] of Object.entries(registrations)) {
+        if (!scan.constants.includes(key) && !scan.readers[key] && !offchain.has(key)) {
+            issues.push({ key, message: `registered by ${owners.join(', ')} but no contract reads it` });
+        }
+        if (offchain.has(key) && scan.readers[key]) {
+            issues.push({ key, message: `declared off-chain but read by ${scan.readers[key].join(', ')}` });
+        }
+    }
+
+    for (const key of scan.constants) {
+        if (!registrations[key]) {
+            const readers = scan.readers[key] ? ` (read by ${scan.readers[key].join(', ')})` : '';
+            issues.push({ key, message: `ContractRegistry.${key} is never populated${readers}` });
+        }
+    }
+
+    return issues;
+}
@@ -0,0 +1,14 @@
+import { ethers } from 'ethers';
+import { SolidityRegistryKeys, REGISTRY_CONSTANTS, REGISTRY_KEY_READERS } from './keys';
+import { OffchainRegistryKeys } from './offchainKeys';
+
+export { SolidityRegistryKeys, OffchainRegistryKeys, REGISTRY_CONSTANTS, REGISTRY_KEY_READERS };
+
+export const RegistryKeys = { ...SolidityRegistryKeys, ...OffchainRegistryKeys } as const;
+
+export type RegistryKey = keyof typeof RegistryKeys;
+
+/** The bytes32 id ContractRegistry stores a key under, i.e. keccak256(key). */
+export function registryKeyId(key: RegistryKey): string {
+    return ethers.id(key);
+}
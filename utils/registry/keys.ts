@@ -0,0 +1,75 @@
+// Generated by `npx hardhat registry:generate-keys` from the contract sources. Do not edit.
+
+export const SolidityRegistryKeys = {
+    ANTI_BOT: 'ANTI_BOT',
+    ANTI_RUGPULL: 'ANTI_RUGPULL',
+    CEX_LIQUIDITY_POOL: 'CEX_LIQUIDITY_POOL',
+    COMMUNITY_POOL: 'COMMUNITY_POOL',
+    CONTROLLER: 'CONTROLLER',
+    D4L_DEX: 'D4L_DEX',
+    D4L_TOKEN: 'D4L_TOKEN',
+    DAO: 'DAO',
+    DEX_LIQUIDITY_POOL: 'DEX_LIQUIDITY_POOL',
+    DEX_ROUTER: 'DEX_ROUTER',
+    FALCON_VERIFIER: 'FALCON_VERIFIER',
+    FEE_HANDLER: 'FEE_HANDLER',
+    HYDRA_AMM: 'HYDRA_AMM',
+    HYDRA_CURVE: 'HYDRA_CURVE',
+    LIQUIDITY_MODULE: 'LIQUIDITY_MODULE',
+    LIQUIDITY_POOL: 'LIQUIDITY_POOL',
+    MARKETING_POOL: 'MARKETING_POOL',
+    POOL_CONTROLLER: 'POOL_CONTROLLER',
+    PRICE_ORACLE: 'PRICE_ORACLE',
+    SECURITY_MODULE: 'SECURITY_MODULE',
+    SOCIAL_MODULE: 'SOCIAL_MODULE',
+    SOCIAL_ORACLE: 'SOCIAL_ORACLE',
+    TEAM_POOL: 'TEAM_POOL',
+    TOKEN_FACTORY: 'TOKEN_FACTORY',
+    TREASURY: 'TREASURY',
+    TREASURY_POOL: 'TREASURY_POOL',
+    USER_PROFILE: 'USER_PROFILE',
+    VERSION_CONTROLLER: 'VERSION_CONTROLLER',
+} as const;
+
+/** Keys declared as constants on ContractRegistry */
+export const REGISTRY_CONSTANTS: readonly string[] = [
+    'ANTI_BOT',
+    'ANTI_RUGPULL',
+    'CONTROLLER',
+    'DAO',
+    'FEE_HANDLER',
+    'HYDRA_CURVE',
+    'POOL_CONTROLLER',
+    'SOCIAL_ORACLE',
+    'TOKEN_FACTORY',
+    'USER_PROFILE',
+    'VERSION_CONTROLLER',
+];
+
+/** Contracts that look up each key in the registry */
+export const REGISTRY_KEY_READERS: Readonly<Record<string, readonly string[]>> = {
+    ANTI_BOT: ['contracts/modules/SecurityModule.sol'],
+    ANTI_RUGPULL: ['contracts/modules/SecurityModule.sol'],
+    CEX_LIQUIDITY_POOL: ['contracts/factory/EasyTokenCreator.sol', 'contracts/modules/LiquidityRouter.sol'],
+    COMMUNITY_POOL: ['contracts/factory/EasyTokenCreator.sol', 'contracts/modules/LiquidityRouter.sol'],
+    CONTROLLER: ['contracts/factory/TokenComponentFactory.sol', 'contracts/modules/SocialTradingModule.sol'],
+    D4L_DEX: ['contracts/modules/PrivacyModule.sol'],
+    D4L_TOKEN: ['contracts/modules/InsuranceModule.sol'],
+    DEX_LIQUIDITY_POOL: ['contracts/factory/EasyTokenCreator.sol', 'contracts/modules/LiquidityRouter.sol'],
+    DEX_ROUTER: ['contracts/dex/core/D4LDex.sol'],
+    FALCON_VERIFIER: ['contracts/security/SecurityManager.sol'],
+    HYDRA_AMM: ['contracts/modules/LiquidityRouter.sol'],
+    HYDRA_CURVE: ['contracts/dex/Degen4LifeDEX.sol', 'contracts/dex/PriceOracle.sol', 'contracts/modules/LiquidityModule.sol'],
+    LIQUIDITY_MODULE: ['contracts/factory/EasyTokenCreator.sol'],
+    LIQUIDITY_POOL: ['contracts/modules/LiquidityModule.sol'],
+    MARKETING_POOL: ['contracts/factory/EasyTokenCreator.sol', 'contracts/modules/LiquidityRouter.sol'],
+    PRICE_ORACLE: ['contracts/modules/LiquidityModule.sol'],
+    SECURITY_MODULE: ['contracts/factory/EasyTokenCreator.sol'],
+    SOCIAL_MODULE: ['contracts/factory/EasyTokenCreator.sol'],
+    SOCIAL_ORACLE: ['contracts/modules/SocialModule.sol'],
+    TEAM_POOL: ['contracts/factory/EasyTokenCreator.sol', 'contracts/modules/LiquidityRouter.sol'],
+    TOKEN_FACTORY: ['contracts/dex/Degen4LifeDEX.sol', 'contracts/dex/PriceOracle.sol', 'contracts/factory/EasyTokenCreator.sol'],
+    TREASURY: ['contracts/modules/LiquidityRouter.sol'],
+    TREASURY_POOL: ['contracts/factory/EasyTokenCreator.sol'],
+    USER_PROFILE: ['contracts/modules/SocialModule.sol'],
+};
@@ -0,0 +1,16 @@
+/**
+ * Keys registered only so off-chain tooling can find deployments; no contract
+ * looks them up. Anything a contract reads belongs in the generated keys.ts.
+ */
+export const OffchainRegistryKeys = {
+    WETH: 'WETH',
+    TOKENOMICS: 'TOKENOMICS',
+    USER_TOKEN_IMPL: 'USER_TOKEN_IMPL',
+    NFT_FEATURES: 'NFT_FEATURES',
+    SOCIAL_TRADING_MODULE: 'SOCIAL_TRADING_MODULE',
+    DEX: 'DEX',
+    ENS: 'ENS',
+    PREDICTION_MARKET: 'PREDICTION_MARKET',
+    ORDER_BOOK_MODULE: 'ORDER_BOOK_MODULE',
+    INSURANCE_MODULE: 'INSURANCE_MODULE',
+} as const;
@@ -0,0 +1,90 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export type RegistryKeyScan = {
+    /** Keys declared as `bytes32 public constant` on ContractRegistry */
+    constants: string[];
+    /** Key -> contracts that look it up in the registry */
+    readers: Record<string, string[]>;
+};
+
+export const REGISTRY_SOURCE = 'contracts/registry/ContractRegistry.sol';
+
+// Test helpers and mocks are never deployed against the live registry
+const IGNORED_DIRS = ['contracts/test', 'contracts/mocks'];
+
+const CONSTANT_PATTERN = /bytes32\s+public\s+constant\s+([A-Z0-9_]+)\s*=\s*keccak256\(\s*"([A-Z0-9_]+)"\s*\)/g;
+const LITERAL_READ_PATTERNS = [
+    /getContractAddressByName\(\s*"([A-Z0-9_]+)"\s*\)/g,
+    /getContractAddress(?:ByKey)?\(\s*keccak256\(\s*(?:abi\.encodePacked\(\s*)?"([A-Z0-9_]+)"/g,
+];
+const CONSTANT_READ_PATTERN = /getContractAddress(?:ByKey)?\(\s*(?:\w+\.)?([A-Z][A-Z0-9_]*)\(\)\s*\)/g;
+
+function listSources(dir: string, root: string): string[] {
+    return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+        const full = path.join(dir, entry.name);
+        const relative = path.relative(root, full).split(path.sep).join('/');
+        if (entry.isDirectory()) {
+            return IGNORED_DIRS.includes(relative) ? [] : listSources(full, root);
+        }
+        return entry.name.endsWith('.sol') ? [relative] : [];
+    });
+}
+
+/**
+ * Collects the ContractRegistry key constants and every registry lookup made
+ * by the contract sources under `root`.
+ */
+export function scanRegistryKeys(root: string): RegistryKeyScan {
+    const registrySource = fs.readFileSync(path.join(root, REGISTRY_SOURCE), 'utf8');
+    const constants: string[] = [];
+    for (const [, name, value] of registrySource.matchAll(CONSTANT_PATTERN)) {
+        if (name !== value) {
+            throw new Error(`ContractRegistry.${name} hashes "${value}"; constant names must match their key`);
+        }
+        constants.push(name);
+    }
+
+    const readers: Record<string, string[]> = {};
+    const addReader = (key: string, file: string) => {
+        readers[key] = readers[key] ?? [];
+        if (!readers[key].includes(file)) readers[key].push(file);
+    };
+    for (const file of listSources(path.join(root, 'contracts'), root).sort()) {
+        const source = fs.readFileSync(path.join(root, file), 'utf8');
+        for (const pattern of LITERAL_READ_PATTERNS) {
+            for (const [, key] of source.matchAll(pattern)) addReader(key, file);
+        }
+        for (const [, name] of source.matchAll(CONSTANT_READ_PATTERN)) {
+            if (constants.includes(name)) addReader(name, file);
+        }
+    }
+
+    return { constants: constants.sort(), readers };
+}
+
+/** Renders the generated `keys.ts` module for a scan. */
+export function renderKeysModule(scan: RegistryKeyScan): string {
+    const keys = [...new Set([...scan.constants, ...Object.keys(scan.readers)])].sort();
+    const lines = [
+        '// Generated by `npx hardhat registry:generate-keys` from the contract sources. Do not edit.',
+        '',
+        'export const SolidityRegistryKeys = {',
+        ...keys.map((key) => `    ${key}: '${key}',`),
+        '} as const;',
+        '',
+        '/** Keys declared as constants on ContractRegistry */',
+        'export const REGISTRY_CONSTANTS: readonly string[] = [',
+        ...scan.constants.map((key) => `    '${key}',`),
+        '];',
+        '',
+        '/** Contracts that look up each key in the registry */',
+        'export const REGISTRY_KEY_READERS: Readonly<Record<string, readonly string[]>> = {',
+        ...Object.keys(scan.readers).sort().map(
+            (key) => `    ${key}: [${scan.readers[key].map((file) => `'${file}'`).join(', ')}],`
+        ),
+        '};',
+        '',
+    ];
+    return lines.join('\n');
+}
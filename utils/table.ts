@@ -0,0 +1,19 @@
+/** Renders rows as a fixed-width text table for console reports. */
+export function formatTable(headers: string[], rows: string[][]): string {
+    const widths = headers.map((header, column) =>
+        Math.max(header.length, ...rows.map((row) => (row[column] ?? '').length))
+    );
+    const render = (cells: string[]) =>
+        cells.map((cell, column) => (cell ?? '').padEnd(widths[column])).join('  ').trimEnd();
+    return [
+        render(headers),
+        widths.map((width) => '-'.repeat(width)).join('  '),
+        ...rows.map(render),
+    ].join('\n');
+}
+
+/** Renders rows as RFC 4180 CSV, quoting cells that need it. */
+export function formatCsv(headers: string[], rows: string[][]): string {
+    const escape = (cell: string) => (/[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell);
+    return [headers, ...rows].map((cells) => cells.map((cell) => escape(cell ?? '')).join(',')).join('\n') + '\n';
+}